@@ -1,14 +1,37 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import * as os from 'os';
+import { findMatchingPattern } from './pathMatcher';
+import { SupportedPlatform, expandPath, getSearchLocations } from './platformPaths';
+import { getDiskUsage, getDiskUsageSync } from './sizeCalculator';
 
 export interface AIToolSignature {
   name: string;
   patterns: string[];
+  // Parent directories on every platform; "~" and "$XDG_*" tokens are expanded
   locations: string[];
+  // Additional parent directories that only exist on some platforms
+  platformLocations?: Partial<Record<SupportedPlatform, string[]>>;
   safeDirectories: string[];
   cautionDirectories: string[];
   dangerDirectories: string[];
+  // Shown for the tool's root directories
+  description?: string;
+  // Shown for individual directories, keyed by directory name
+  directoryDescriptions?: Record<string, string>;
+  // Executable names; while one runs, the tool's data is not deleted without asking
+  processNames?: string[];
+  // Files the running tool keeps in its directories, relative to them ("*" allowed in the file name)
+  lockFiles?: string[];
+}
+
+export type SignatureDirectoryList = 'safeDirectories' | 'cautionDirectories' | 'dangerDirectories';
+
+// A user-supplied signature; entries that share a built-in's name only need the fields they change
+export type SignatureDefinition = Partial<AIToolSignature> & { name: string };
+
+export interface SignatureValidationResult {
+  definition?: SignatureDefinition;
+  errors: string[];
 }
 
 export interface SearchResult {
@@ -19,6 +42,13 @@ export interface SearchResult {
   matchedPattern: string;
 }
 
+// Options shared by detection and search
+export interface SignatureScanOptions {
+  excludePatterns?: string[];
+  // Stops measuring directories; the detection or search then rejects
+  signal?: AbortSignal;
+}
+
 export interface SearchProgress {
   current: number;
   total: number;
@@ -30,24 +60,68 @@ export interface SearchProgress {
 export const AI_TOOL_SIGNATURES: AIToolSignature[] = [
   {
     name: "Claude Code",
-    patterns: [".claude", "claude-cli"],
-    locations: ["~", "~/Library/Caches"],
-    safeDirectories: ["debug", "cache", "telemetry", "shell-snapshots", "image-cache", "paste-cache", "session-env", "statsig"],
+    patterns: [".claude", "claude-cli", "claude-cli-nodejs"],
+    locations: ["~"],
+    processNames: ["claude"],
+    platformLocations: {
+      darwin: ["~/Library/Caches"],
+      linux: ["$XDG_CACHE_HOME"]
+    },
+    safeDirectories: ["debug", "cache", "telemetry", "shell-snapshots", "image-cache", "paste-cache", "session-env", "statsig", "claude-cli-nodejs"],
     cautionDirectories: ["projects", "todos", "file-history", "plans"],
-    dangerDirectories: ["plugins", "skills", "ide"]
+    dangerDirectories: ["plugins", "skills", "ide"],
+    description: "Claude Code CLI data",
+    directoryDescriptions: {
+      "debug": "Debug logs - safe to delete",
+      "shell-snapshots": "Shell state snapshots",
+      "telemetry": "Usage telemetry data",
+      "cache": "Temporary cache files",
+      "image-cache": "Cached images",
+      "paste-cache": "Paste history cache",
+      "session-env": "Session environment data",
+      "statsig": "Feature flag cache",
+      "file-history": "File edit history - may want to keep",
+      "projects": "Project configurations",
+      "todos": "Todo items - may contain important notes",
+      "plugins": "Installed plugins - do not delete",
+      "ide": "IDE integration settings",
+      "plans": "Saved plans",
+      "skills": "Custom skills - do not delete",
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      "claude-cli-nodejs": "Claude CLI cache - safe to delete"
+    }
   },
   {
     name: "Gemini/Antigravity",
     patterns: [".gemini", "antigravity"],
     locations: ["~"],
+    processNames: ["gemini", "antigravity"],
     safeDirectories: ["browser_recordings", "implicit", "context_state", "playground", "antigravity-browser-profile"],
     cautionDirectories: ["conversations", "brain", "code_tracker"],
-    dangerDirectories: []
+    dangerDirectories: [],
+    description: "Gemini/Antigravity data",
+    directoryDescriptions: {
+      "antigravity": "Antigravity IDE data",
+      "browser_recordings": "Browser recording videos - usually large",
+      "conversations": "Conversation history",
+      "brain": "AI task artifacts and plans",
+      "implicit": "Implicit context cache",
+      "code_tracker": "Code tracking data",
+      "context_state": "Context state cache",
+      "playground": "Playground files",
+      "antigravity-browser-profile": "Browser profile cache"
+    }
   },
   {
     name: "Cursor",
     patterns: [".cursor", "Cursor"],
-    locations: ["~", "~/Library/Application Support", "~/Library/Caches"],
+    locations: ["~"],
+    processNames: ["cursor"],
+    lockFiles: ["code.lock", "*-main.sock"],
+    platformLocations: {
+      darwin: ["~/Library/Application Support", "~/Library/Caches"],
+      linux: ["$XDG_CONFIG_HOME", "$XDG_CACHE_HOME"]
+    },
     safeDirectories: ["Cache", "CachedData", "logs", "CachedExtensions"],
     cautionDirectories: ["User", "Backups"],
     dangerDirectories: ["extensions"]
@@ -55,7 +129,11 @@ export const AI_TOOL_SIGNATURES: AIToolSignature[] = [
   {
     name: "GitHub Copilot",
     patterns: ["github-copilot", "copilot"],
-    locations: ["~/.config", "~/Library/Application Support"],
+    locations: ["~/.config"],
+    platformLocations: {
+      darwin: ["~/Library/Application Support"],
+      linux: ["$XDG_CONFIG_HOME", "$XDG_DATA_HOME"]
+    },
     safeDirectories: ["cache", "logs"],
     cautionDirectories: ["hosts"],
     dangerDirectories: []
@@ -63,7 +141,11 @@ export const AI_TOOL_SIGNATURES: AIToolSignature[] = [
   {
     name: "Codeium",
     patterns: [".codeium", "codeium"],
-    locations: ["~", "~/Library/Application Support"],
+    locations: ["~"],
+    platformLocations: {
+      darwin: ["~/Library/Application Support"],
+      linux: ["$XDG_CONFIG_HOME", "$XDG_DATA_HOME"]
+    },
     safeDirectories: ["cache", "logs"],
     cautionDirectories: [],
     dangerDirectories: ["config"]
@@ -78,8 +160,13 @@ export const AI_TOOL_SIGNATURES: AIToolSignature[] = [
   },
   {
     name: "Tabnine",
-    patterns: [".tabnine", "tabnine"],
-    locations: ["~", "~/Library/Application Support", "~/Library/Caches"],
+    patterns: [".tabnine", "tabnine", "TabNine"],
+    locations: ["~"],
+    processNames: ["TabNine"],
+    platformLocations: {
+      darwin: ["~/Library/Application Support", "~/Library/Caches"],
+      linux: ["$XDG_CONFIG_HOME", "$XDG_DATA_HOME", "$XDG_CACHE_HOME"]
+    },
     safeDirectories: ["cache", "logs"],
     cautionDirectories: [],
     dangerDirectories: ["config"]
@@ -87,7 +174,11 @@ export const AI_TOOL_SIGNATURES: AIToolSignature[] = [
   {
     name: "Amazon CodeWhisperer",
     patterns: ["codewhisperer", "aws-toolkit"],
-    locations: ["~/.aws", "~/Library/Application Support"],
+    locations: ["~/.aws"],
+    platformLocations: {
+      darwin: ["~/Library/Application Support"],
+      linux: ["$XDG_CONFIG_HOME", "$XDG_CACHE_HOME"]
+    },
     safeDirectories: ["cache", "logs"],
     cautionDirectories: [],
     dangerDirectories: []
@@ -95,26 +186,307 @@ export const AI_TOOL_SIGNATURES: AIToolSignature[] = [
   {
     name: "Sourcegraph Cody",
     patterns: [".cody", "sourcegraph"],
-    locations: ["~", "~/Library/Application Support"],
+    locations: ["~"],
+    platformLocations: {
+      darwin: ["~/Library/Application Support"],
+      linux: ["$XDG_CONFIG_HOME", "$XDG_DATA_HOME"]
+    },
     safeDirectories: ["cache", "logs"],
     cautionDirectories: ["conversations"],
     dangerDirectories: []
   },
   {
     name: "Windsurf",
-    patterns: [".windsurf", "windsurf"],
-    locations: ["~", "~/Library/Application Support"],
+    patterns: [".windsurf", "windsurf", "Windsurf"],
+    locations: ["~"],
+    processNames: ["windsurf"],
+    lockFiles: ["code.lock", "*-main.sock"],
+    platformLocations: {
+      darwin: ["~/Library/Application Support"],
+      linux: ["$XDG_CONFIG_HOME", "$XDG_DATA_HOME"]
+    },
     safeDirectories: ["cache", "logs"],
     cautionDirectories: [],
     dangerDirectories: []
   }
 ];
 
-function expandPath(p: string): string {
-  if (p.startsWith("~")) {
-    return path.join(os.homedir(), p.slice(1));
+// User-defined signatures, merged with the built-ins by getAllSignatures()
+let customSignatures: SignatureDefinition[] = [];
+
+const SIGNATURE_LIST_FIELDS = [
+  'patterns',
+  'locations',
+  'safeDirectories',
+  'cautionDirectories',
+  'dangerDirectories',
+  'processNames',
+  'lockFiles'
+] as const;
+
+const PLATFORMS: readonly SupportedPlatform[] = ['darwin', 'linux', 'win32'];
+
+/**
+ * Validate one user-supplied signature entry.
+ * A new tool needs patterns and (platform) locations; an entry named after a built-in
+ * tool may contain only the directory lists it wants to reclassify.
+ */
+export function validateSignature(value: unknown, label: string = 'signature'): SignatureValidationResult {
+  const errors: string[] = [];
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { errors: [`${label}: must be an object`] };
+  }
+
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.name !== 'string' || raw.name.trim() === '') {
+    return { errors: [`${label}: "name" must be a non-empty string`] };
+  }
+
+  const name = raw.name.trim();
+  const definition: SignatureDefinition = { name };
+
+  for (const field of SIGNATURE_LIST_FIELDS) {
+    const list = raw[field];
+    if (list === undefined) {
+      continue;
+    }
+    if (!Array.isArray(list) || list.some(item => typeof item !== 'string' || item.trim() === '')) {
+      errors.push(`${label} "${name}": "${field}" must be an array of non-empty strings`);
+      continue;
+    }
+    definition[field] = list.map(item => (item as string).trim());
+  }
+
+  if (raw.description !== undefined) {
+    if (typeof raw.description !== 'string') {
+      errors.push(`${label} "${name}": "description" must be a string`);
+    } else {
+      definition.description = raw.description;
+    }
+  }
+
+  if (raw.directoryDescriptions !== undefined) {
+    const descriptions = raw.directoryDescriptions;
+    if (typeof descriptions !== 'object' || descriptions === null || Array.isArray(descriptions) ||
+      Object.values(descriptions).some(d => typeof d !== 'string')) {
+      errors.push(`${label} "${name}": "directoryDescriptions" must map directory names to strings`);
+    } else {
+      definition.directoryDescriptions = { ...descriptions as Record<string, string> };
+    }
+  }
+
+  if (raw.platformLocations !== undefined) {
+    const platformLocations = raw.platformLocations as Record<string, unknown>;
+    const valid = typeof platformLocations === 'object' && platformLocations !== null && !Array.isArray(platformLocations) &&
+      Object.entries(platformLocations).every(([platform, list]) =>
+        (PLATFORMS as readonly string[]).includes(platform) &&
+        Array.isArray(list) && list.every(item => typeof item === 'string' && item.trim() !== ''));
+    if (!valid) {
+      errors.push(`${label} "${name}": "platformLocations" must map ${PLATFORMS.join(', ')} to arrays of non-empty strings`);
+    } else {
+      definition.platformLocations = {};
+      for (const [platform, list] of Object.entries(platformLocations)) {
+        definition.platformLocations[platform as SupportedPlatform] = (list as string[]).map(item => item.trim());
+      }
+    }
+  }
+
+  const knownFields: string[] = ['name', 'description', 'directoryDescriptions', 'platformLocations', ...SIGNATURE_LIST_FIELDS];
+  const unknownFields = Object.keys(raw).filter(key => !knownFields.includes(key));
+  for (const key of unknownFields) {
+    errors.push(`${label} "${name}": unknown property "${key}"`);
   }
-  return p;
+
+  const isBuiltIn = AI_TOOL_SIGNATURES.some(s => s.name === name);
+  if (!isBuiltIn) {
+    if (!definition.patterns || definition.patterns.length === 0) {
+      errors.push(`${label} "${name}": "patterns" is required for a new tool`);
+    }
+    const hasPlatformLocations = Object.values(definition.platformLocations || {}).some(list => list.length > 0);
+    if ((!definition.locations || definition.locations.length === 0) && !hasPlatformLocations) {
+      errors.push(`${label} "${name}": "locations" or "platformLocations" is required for a new tool`);
+    }
+  }
+
+  return errors.length > 0 ? { errors } : { definition, errors };
+}
+
+/**
+ * Read signatures from a JSON file containing either an array of signatures
+ * or an object with a "signatures" array
+ */
+export function loadSignatureFile(filePath: string): { definitions: SignatureDefinition[]; errors: string[] } {
+  const resolvedPath = expandPath(filePath);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(resolvedPath, 'utf8'));
+  } catch (error) {
+    return { definitions: [], errors: [`${filePath}: ${error instanceof Error ? error.message : 'cannot be read'}`] };
+  }
+
+  const entries = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { signatures?: unknown })?.signatures;
+  if (!Array.isArray(entries)) {
+    return { definitions: [], errors: [`${filePath}: expected an array of signatures or a "signatures" array`] };
+  }
+
+  const definitions: SignatureDefinition[] = [];
+  const errors: string[] = [];
+  entries.forEach((entry, index) => {
+    const result = validateSignature(entry, `${path.basename(filePath)}[${index}]`);
+    if (result.definition) {
+      definitions.push(result.definition);
+    }
+    errors.push(...result.errors);
+  });
+
+  return { definitions, errors };
+}
+
+/**
+ * Signatures from the customSignatures setting and the files listed in
+ * signatureFiles, skipping invalid entries
+ */
+export function loadCustomSignatureSettings(
+  entries: unknown[],
+  files: string[]
+): { definitions: SignatureDefinition[]; errors: string[] } {
+  const definitions: SignatureDefinition[] = [];
+  const errors: string[] = [];
+
+  entries.forEach((entry, index) => {
+    const result = validateSignature(entry, `customSignatures[${index}]`);
+    if (result.definition) {
+      definitions.push(result.definition);
+    }
+    errors.push(...result.errors);
+  });
+
+  for (const file of files) {
+    const result = loadSignatureFile(file);
+    definitions.push(...result.definitions);
+    errors.push(...result.errors);
+  }
+
+  return { definitions, errors };
+}
+
+// Replace the set of user-defined signatures
+export function setCustomSignatures(definitions: SignatureDefinition[]): void {
+  customSignatures = [...definitions];
+}
+
+function unique(items: string[]): string[] {
+  return Array.from(new Set(items));
+}
+
+function mergePlatformLocations(
+  base: AIToolSignature['platformLocations'],
+  override: AIToolSignature['platformLocations']
+): AIToolSignature['platformLocations'] {
+  const merged: AIToolSignature['platformLocations'] = { ...base };
+  for (const platform of PLATFORMS) {
+    const added = override?.[platform];
+    if (added) {
+      merged[platform] = unique([...(merged[platform] || []), ...added]);
+    }
+  }
+  return merged;
+}
+
+// Apply a user definition on top of a signature; its directory lists take precedence
+function mergeSignature(base: AIToolSignature, override: SignatureDefinition): AIToolSignature {
+  const safe = override.safeDirectories || [];
+  const caution = override.cautionDirectories || [];
+  const danger = override.dangerDirectories || [];
+  const reclassified = new Set([...safe, ...caution, ...danger]);
+  const keep = (dirs: string[]) => dirs.filter(dir => !reclassified.has(dir));
+
+  return {
+    name: base.name,
+    patterns: unique([...base.patterns, ...(override.patterns || [])]),
+    locations: unique([...base.locations, ...(override.locations || [])]),
+    platformLocations: mergePlatformLocations(base.platformLocations, override.platformLocations),
+    safeDirectories: unique([...keep(base.safeDirectories), ...safe]),
+    cautionDirectories: unique([...keep(base.cautionDirectories), ...caution]),
+    dangerDirectories: unique([...keep(base.dangerDirectories), ...danger]),
+    description: override.description ?? base.description,
+    directoryDescriptions: { ...base.directoryDescriptions, ...override.directoryDescriptions },
+    processNames: unique([...(base.processNames || []), ...(override.processNames || [])]),
+    lockFiles: unique([...(base.lockFiles || []), ...(override.lockFiles || [])])
+  };
+}
+
+/**
+ * Built-in signatures merged with user-defined ones.
+ * Definitions sharing a tool's name extend it and override its classification;
+ * others are added as new tools.
+ */
+export function getAllSignatures(): AIToolSignature[] {
+  const signatures = AI_TOOL_SIGNATURES.map(s => ({ ...s }));
+
+  for (const definition of customSignatures) {
+    const index = signatures.findIndex(s => s.name === definition.name);
+    if (index >= 0) {
+      signatures[index] = mergeSignature(signatures[index], definition);
+    } else {
+      signatures.push(mergeSignature({
+        name: definition.name,
+        patterns: [],
+        locations: [],
+        safeDirectories: [],
+        cautionDirectories: [],
+        dangerDirectories: []
+      }, definition));
+    }
+  }
+
+  return signatures;
+}
+
+/**
+ * Parent directories to look in on the given platform
+ */
+export function getSignatureLocations(
+  signature: AIToolSignature,
+  platform: NodeJS.Platform = process.platform
+): string[] {
+  const platformLocations = signature.platformLocations?.[platform as SupportedPlatform] || [];
+  return unique([...signature.locations, ...platformLocations]);
+}
+
+/**
+ * All paths where a signature's directories may live (location x pattern),
+ * whether or not they exist
+ */
+export function getSignatureCandidatePaths(
+  signature: AIToolSignature,
+  platform: NodeJS.Platform = process.platform
+): string[] {
+  const candidates: string[] = [];
+  for (const location of getSignatureLocations(signature, platform)) {
+    const expandedLocation = expandPath(location);
+    for (const pattern of signature.patterns) {
+      candidates.push(path.join(expandedLocation, pattern));
+    }
+  }
+  return unique(candidates);
+}
+
+/**
+ * Classify a directory name using a signature's directory lists.
+ * Returns undefined when the signature does not mention the directory.
+ */
+export function classifyDirectory(
+  signature: AIToolSignature,
+  dirName: string
+): { level: 'safe' | 'caution' | 'danger'; list: SignatureDirectoryList } | undefined {
+  if (signature.safeDirectories.includes(dirName)) {return { level: 'safe', list: 'safeDirectories' };}
+  if (signature.dangerDirectories.includes(dirName)) {return { level: 'danger', list: 'dangerDirectories' };}
+  if (signature.cautionDirectories.includes(dirName)) {return { level: 'caution', list: 'cautionDirectories' };}
+  return undefined;
 }
 
 function formatSize(bytes: number): string {
@@ -125,57 +497,52 @@ function formatSize(bytes: number): string {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
 }
 
-function getDirectorySize(dirPath: string): number {
-  let size = 0;
-  try {
-    const files = fs.readdirSync(dirPath);
-    for (const file of files) {
-      const filePath = path.join(dirPath, file);
-      try {
-        const stats = fs.statSync(filePath);
-        if (stats.isDirectory()) {
-          size += getDirectorySize(filePath);
-        } else {
-          size += stats.size;
-        }
-      } catch {
-        // Skip files we can't access
-      }
-    }
-  } catch {
-    // Skip directories we can't access
-  }
-  return size;
+function getDirectorySizeSync(dirPath: string, excludePatterns: string[] = []): number {
+  return getDiskUsageSync(dirPath, {
+    exclude: entryPath => findMatchingPattern(entryPath, excludePatterns) !== undefined,
+  }).apparentSize;
+}
+
+// Measured without blocking the extension host; rejects once the signal is aborted
+async function getDirectorySize(dirPath: string, options: SignatureScanOptions): Promise<number> {
+  const excludePatterns = options.excludePatterns || [];
+  const usage = await getDiskUsage(dirPath, {
+    exclude: entryPath => findMatchingPattern(entryPath, excludePatterns) !== undefined,
+    onEntry: () => options.signal?.throwIfAborted(),
+  });
+  return usage.apparentSize;
 }
 
 // Detect AI tools based on known signatures
-export function detectKnownAITools(): SearchResult[] {
+export async function detectKnownAITools(options: SignatureScanOptions = {}): Promise<SearchResult[]> {
   const results: SearchResult[] = [];
+  const excludePatterns = options.excludePatterns || [];
 
-  for (const signature of AI_TOOL_SIGNATURES) {
-    for (const location of signature.locations) {
-      const expandedLocation = expandPath(location);
+  // Case-insensitive filesystems can match one directory through several patterns
+  const seen = new Set<string>();
 
-      for (const pattern of signature.patterns) {
-        const targetPath = path.join(expandedLocation, pattern);
+  for (const signature of getAllSignatures()) {
+    for (const targetPath of getSignatureCandidatePaths(signature)) {
+      if (findMatchingPattern(targetPath, excludePatterns)) {continue;}
 
-        if (fs.existsSync(targetPath)) {
-          try {
-            const stats = fs.statSync(targetPath);
-            if (stats.isDirectory()) {
-              const size = getDirectorySize(targetPath);
-              results.push({
-                toolName: signature.name,
-                path: targetPath,
-                size,
-                sizeFormatted: formatSize(size),
-                matchedPattern: pattern
-              });
-            }
-          } catch {
-            // Skip if we can't access
-          }
-        }
+      let stats: fs.Stats;
+      try {
+        stats = await fs.promises.stat(targetPath);
+      } catch {
+        // Missing, or we can't access it
+        continue;
+      }
+      const key = `${stats.dev}:${stats.ino}`;
+      if (stats.isDirectory() && !seen.has(key)) {
+        seen.add(key);
+        const size = await getDirectorySize(targetPath, options);
+        results.push({
+          toolName: signature.name,
+          path: targetPath,
+          size,
+          sizeFormatted: formatSize(size),
+          matchedPattern: path.basename(targetPath)
+        });
       }
     }
   }
@@ -188,27 +555,20 @@ export function getSafetyLevelFromSignature(
   toolName: string,
   dirName: string
 ): 'safe' | 'caution' | 'danger' {
-  const signature = AI_TOOL_SIGNATURES.find(s => s.name === toolName);
+  const signature = getAllSignatures().find(s => s.name === toolName);
   if (!signature) {return 'caution';}
 
-  if (signature.safeDirectories.includes(dirName)) {return 'safe';}
-  if (signature.dangerDirectories.includes(dirName)) {return 'danger';}
-  if (signature.cautionDirectories.includes(dirName)) {return 'caution';}
-
-  return 'caution';
+  return classifyDirectory(signature, dirName)?.level || 'caution';
 }
 
 // Search directories matching a query
 export async function* searchDirectories(
   query: string,
-  onProgress?: (progress: SearchProgress) => void
+  onProgress?: (progress: SearchProgress) => void,
+  options: SignatureScanOptions = {}
 ): AsyncGenerator<SearchResult> {
-  const searchLocations = [
-    "~",
-    "~/Library/Application Support",
-    "~/Library/Caches",
-    "~/.config"
-  ];
+  const excludePatterns = options.excludePatterns || [];
+  const searchLocations = getSearchLocations();
 
   const normalizedQuery = query.toLowerCase();
   const excludeDirs = new Set(['node_modules', '.git', '.npm', '.yarn', 'Library/Caches/Homebrew']);
@@ -233,76 +593,76 @@ export async function* searchDirectories(
   for (const location of searchLocations) {
     const expandedLocation = expandPath(location);
 
-    if (!fs.existsSync(expandedLocation)) {continue;}
-
+    let items: string[];
     try {
-      const items = fs.readdirSync(expandedLocation);
+      items = fs.readdirSync(expandedLocation);
+    } catch {
+      // Skip if missing or can't access
+      continue;
+    }
 
-      for (const item of items) {
-        processedDirs++;
+    for (const item of items) {
+      options.signal?.throwIfAborted();
+      processedDirs++;
 
-        // Skip excluded directories
-        if (excludeDirs.has(item)) {continue;}
+      // Skip excluded directories
+      if (excludeDirs.has(item)) {continue;}
 
-        const itemPath = path.join(expandedLocation, item);
+      const itemPath = path.join(expandedLocation, item);
+      if (findMatchingPattern(itemPath, excludePatterns)) {continue;}
+
+      // Report progress
+      if (onProgress) {
+        onProgress({
+          current: processedDirs,
+          total: totalDirs,
+          currentPath: itemPath,
+          percentage: Math.round((processedDirs / totalDirs) * 100)
+        });
+      }
 
-        // Report progress
-        if (onProgress) {
-          onProgress({
-            current: processedDirs,
-            total: totalDirs,
-            currentPath: itemPath,
-            percentage: Math.round((processedDirs / totalDirs) * 100)
-          });
+      // Check if directory name matches query
+      if (item.toLowerCase().includes(normalizedQuery)) {
+        let stats: fs.Stats | undefined;
+        try {
+          stats = fs.statSync(itemPath);
+        } catch {
+          // Skip if can't access
         }
 
-        // Check if directory name matches query
-        if (item.toLowerCase().includes(normalizedQuery)) {
-          try {
-            const stats = fs.statSync(itemPath);
-            if (stats.isDirectory()) {
-              const size = getDirectorySize(itemPath);
+        if (stats?.isDirectory()) {
+          const size = await getDirectorySize(itemPath, options);
 
-              // Try to identify which tool this belongs to
-              let toolName = "Unknown";
-              for (const sig of AI_TOOL_SIGNATURES) {
-                if (sig.patterns.some(p => item.toLowerCase().includes(p.toLowerCase()))) {
-                  toolName = sig.name;
-                  break;
-                }
-              }
-
-              yield {
-                toolName,
-                path: itemPath,
-                size,
-                sizeFormatted: formatSize(size),
-                matchedPattern: item
-              };
+          // Try to identify which tool this belongs to
+          let toolName = "Unknown";
+          for (const sig of getAllSignatures()) {
+            if (sig.patterns.some(p => item.toLowerCase().includes(p.toLowerCase()))) {
+              toolName = sig.name;
+              break;
             }
-          } catch {
-            // Skip if can't access
           }
-        }
 
-        // Allow other operations to run
-        await new Promise(resolve => setImmediate(resolve));
+          yield {
+            toolName,
+            path: itemPath,
+            size,
+            sizeFormatted: formatSize(size),
+            matchedPattern: item
+          };
+        }
       }
-    } catch {
-      // Skip if can't access
+
+      // Allow other operations to run
+      await new Promise(resolve => setImmediate(resolve));
     }
   }
 }
 
 // Synchronous search (for simpler use cases)
-export function searchDirectoriesSync(query: string): SearchResult[] {
+export function searchDirectoriesSync(query: string, options: SignatureScanOptions = {}): SearchResult[] {
   const results: SearchResult[] = [];
-  const searchLocations = [
-    "~",
-    "~/Library/Application Support",
-    "~/Library/Caches",
-    "~/.config"
-  ];
+  const excludePatterns = options.excludePatterns || [];
+  const searchLocations = getSearchLocations();
 
   const normalizedQuery = query.toLowerCase();
   const excludeDirs = new Set(['node_modules', '.git', '.npm', '.yarn']);
@@ -319,15 +679,16 @@ export function searchDirectoriesSync(query: string): SearchResult[] {
         if (excludeDirs.has(item)) {continue;}
 
         const itemPath = path.join(expandedLocation, item);
+        if (findMatchingPattern(itemPath, excludePatterns)) {continue;}
 
         if (item.toLowerCase().includes(normalizedQuery)) {
           try {
             const stats = fs.statSync(itemPath);
             if (stats.isDirectory()) {
-              const size = getDirectorySize(itemPath);
+              const size = getDirectorySizeSync(itemPath, excludePatterns);
 
               let toolName = "Unknown";
-              for (const sig of AI_TOOL_SIGNATURES) {
+              for (const sig of getAllSignatures()) {
                 if (sig.patterns.some(p => item.toLowerCase().includes(p.toLowerCase()))) {
                   toolName = sig.name;
                   break;
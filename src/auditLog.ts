@@ -0,0 +1,82 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DeleteMode } from './quarantine';
+import { SafetyLevel } from './safetyLevels';
+
+/**
+ * Audit Log
+ * Append-only record of every deletion, one JSON object per line, so there is
+ * a lasting trace of what was removed, why and by whom.
+ */
+
+export type AuditTrigger = 'manual' | 'command' | 'policy' | 'cli';
+
+export interface AuditEntry {
+  timestamp: string;
+  path: string;
+  // Effective level when the item was deleted
+  safetyLevel: SafetyLevel;
+  // Whether that level came from a user override
+  overridden: boolean;
+  action: 'delete' | 'olderThan' | 'capSize';
+  mode: DeleteMode;
+  trigger: AuditTrigger;
+  success: boolean;
+  freedBytes: number;
+  error?: string;
+  batchId?: string;
+  // Cleanup policy that performed the deletion
+  policy?: string;
+}
+
+const AUDIT_LOG_FILE = 'audit.jsonl';
+
+export function getAuditLogPath(storageDir: string): string {
+  return path.join(storageDir, AUDIT_LOG_FILE);
+}
+
+export function appendAuditEntries(storageDir: string, entries: AuditEntry[]): void {
+  if (entries.length === 0) {
+    return;
+  }
+  fs.mkdirSync(storageDir, { recursive: true });
+  fs.appendFileSync(getAuditLogPath(storageDir), entries.map(entry => JSON.stringify(entry) + '\n').join(''));
+}
+
+/**
+ * Logged entries, newest first. Lines that cannot be parsed (for example a
+ * write cut short by a crash) are skipped.
+ */
+export function readAuditLog(storageDir: string, limit?: number): AuditEntry[] {
+  let content: string;
+  try {
+    content = fs.readFileSync(getAuditLogPath(storageDir), 'utf8');
+  } catch {
+    return [];
+  }
+
+  const entries: AuditEntry[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      // Skip damaged lines
+    }
+  }
+
+  entries.reverse();
+  return limit !== undefined ? entries.slice(0, limit) : entries;
+}
+
+/**
+ * One line of plain text per entry, for the Output channel
+ */
+export function formatAuditEntry(entry: AuditEntry): string {
+  const level = entry.overridden ? `${entry.safetyLevel}, override` : entry.safetyLevel;
+  const outcome = entry.success ? `freed ${entry.freedBytes} bytes` : `FAILED: ${entry.error || 'unknown error'}`;
+  const source = entry.policy ? `${entry.trigger} "${entry.policy}"` : entry.trigger;
+  return `[${entry.timestamp}] ${entry.action} (${entry.mode}) ${entry.path} [${level}] by ${source} - ${outcome}`;
+}
@@ -1,37 +1,72 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { DeleteMode, createBatchId, quarantinePath, quarantinePaths } from './quarantine';
+import { checkDeletablePath } from './pathGuard';
+import { getLockError, getOwnLockError } from './pathLocks';
+import { getDiskUsageSync } from './sizeCalculator';
+import { ToolActivity, detectToolActivity, getRunningToolError } from './processDetector';
 
 export interface DeleteResult {
   success: boolean;
   path: string;
   error?: string;
   freedBytes: number;
+  quarantineId?: string;
 }
 
-function getDirectorySize(dirPath: string): number {
-  let size = 0;
-  try {
-    const files = fs.readdirSync(dirPath);
-    for (const file of files) {
-      const filePath = path.join(dirPath, file);
-      try {
-        const stats = fs.statSync(filePath);
-        if (stats.isDirectory()) {
-          size += getDirectorySize(filePath);
-        } else {
-          size += stats.size;
-        }
-      } catch {
-        // Skip files we can't access
-      }
-    }
-  } catch {
-    // Skip directories we can't access
+export interface AgeFilter {
+  olderThanDays: number;
+  // Which timestamp decides a file's age
+  timestamp?: 'mtime' | 'atime';
+}
+
+export interface AgeCleanupResult extends DeleteResult {
+  deletedFiles: number;
+  keptFiles: number;
+  removedDirectories: number;
+}
+
+export interface DeleteOptions {
+  mode?: DeleteMode;
+  // Holding area used by 'quarantine' mode (and as a fallback for 'trash')
+  quarantineDir?: string;
+  // Groups the items of one cleanup so it can be undone as a whole
+  batchId?: string;
+  // Only paths inside these directories may be deleted (see pathGuard)
+  allowedRoots?: string[];
+  // Refuse to delete data of tools that are running (see processDetector)
+  blockRunningTools?: boolean;
+  // Tool activity detected once for a whole cleanup; detected per item otherwise
+  activeTools?: ToolActivity[];
+}
+
+function checkRunningTool(dirPath: string, options: DeleteOptions): string | undefined {
+  if (!options.blockRunningTools) {
+    return undefined;
   }
-  return size;
+  return getRunningToolError(dirPath, options.activeTools || detectToolActivity());
+}
+
+// Why a path may not be deleted under these options, if it may not. Cleanups
+// that keep locked files check only the directory itself against the locks.
+function checkGuards(dirPath: string, options: DeleteOptions, keepsLockedFiles: boolean = false): string | undefined {
+  return checkDeletablePath(dirPath, options.allowedRoots) ||
+    (keepsLockedFiles ? getOwnLockError(dirPath) : getLockError(dirPath)) ||
+    checkRunningTool(dirPath, options);
 }
 
-export async function deleteDirectory(dirPath: string): Promise<DeleteResult> {
+export async function deleteDirectory(dirPath: string, options: DeleteOptions = {}): Promise<DeleteResult> {
+  const mode = options.mode || 'permanent';
+  const guardError = checkGuards(dirPath, options);
+  if (guardError) {
+    return {
+      success: false,
+      path: dirPath,
+      error: guardError,
+      freedBytes: 0,
+    };
+  }
+
   try {
     // Check if path exists
     if (!fs.existsSync(dirPath)) {
@@ -43,15 +78,31 @@ export async function deleteDirectory(dirPath: string): Promise<DeleteResult> {
       };
     }
 
-    // Calculate size before deletion
-    const stats = fs.statSync(dirPath);
-    let freedBytes = 0;
+    // Calculate size before deletion; a symlink is removed as a link, so only the link counts
+    const stats = fs.lstatSync(dirPath);
+    const freedBytes = stats.isDirectory() ? getDiskUsageSync(dirPath).apparentSize : stats.size;
+
+    if (mode !== 'permanent') {
+      if (!options.quarantineDir) {
+        throw new Error('No quarantine location configured');
+      }
+      const entry = quarantinePath(dirPath, options.quarantineDir, {
+        mode,
+        batchId: options.batchId || createBatchId(),
+        size: freedBytes,
+      });
+
+      return {
+        success: true,
+        path: dirPath,
+        freedBytes,
+        quarantineId: entry.id,
+      };
+    }
 
     if (stats.isDirectory()) {
-      freedBytes = getDirectorySize(dirPath);
       fs.rmSync(dirPath, { recursive: true, force: true });
     } else {
-      freedBytes = stats.size;
       fs.unlinkSync(dirPath);
     }
 
@@ -70,19 +121,232 @@ export async function deleteDirectory(dirPath: string): Promise<DeleteResult> {
   }
 }
 
-export async function deleteMultiple(paths: string[]): Promise<{
+interface FileEntry {
+  path: string;
+  size: number;
+  time: number;
+}
+
+// Collect every file below dirPath; symlinks are judged by their own timestamps
+function collectFiles(dirPath: string, timestamp: 'mtime' | 'atime', files: FileEntry[]): void {
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(dirPath, { withFileTypes: true });
+  } catch {
+    // Skip directories we can't access
+    return;
+  }
+
+  for (const entry of entries) {
+    const entryPath = path.join(dirPath, entry.name);
+    if (entry.isDirectory()) {
+      collectFiles(entryPath, timestamp, files);
+      continue;
+    }
+    try {
+      const stats = fs.lstatSync(entryPath);
+      files.push({ path: entryPath, size: stats.size, time: timestamp === 'atime' ? stats.atimeMs : stats.mtimeMs });
+    } catch {
+      // Skip files we can't access
+    }
+  }
+}
+
+// Remove directories left empty below dirPath (dirPath itself is kept)
+function removeEmptyDirectories(dirPath: string): number {
+  let removed = 0;
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(dirPath, { withFileTypes: true });
+  } catch {
+    return 0;
+  }
+
+  for (const entry of entries) {
+    if (!entry.isDirectory()) {
+      continue;
+    }
+    const childPath = path.join(dirPath, entry.name);
+    removed += removeEmptyDirectories(childPath);
+    try {
+      if (fs.readdirSync(childPath).length === 0) {
+        fs.rmdirSync(childPath);
+        removed++;
+      }
+    } catch {
+      // Leave directories we can't remove
+    }
+  }
+  return removed;
+}
+
+/**
+ * Delete only the files older than a threshold inside a directory,
+ * then remove directories that became empty. Locked files are kept.
+ * freedBytes counts only the files that were actually removed.
+ */
+export async function deleteOlderThan(
+  dirPath: string,
+  filter: AgeFilter,
+  options: DeleteOptions = {},
+  now: number = Date.now()
+): Promise<AgeCleanupResult> {
+  const result: AgeCleanupResult = {
+    success: false,
+    path: dirPath,
+    freedBytes: 0,
+    deletedFiles: 0,
+    keptFiles: 0,
+    removedDirectories: 0,
+  };
+
+  result.error = checkGuards(dirPath, options, true);
+  if (result.error) {
+    return result;
+  }
+
+  try {
+    if (!fs.existsSync(dirPath) || !fs.statSync(dirPath).isDirectory()) {
+      result.error = 'Path does not exist or is not a directory';
+      return result;
+    }
+    if (!(filter.olderThanDays >= 0)) {
+      result.error = 'Age threshold must be zero or more days';
+      return result;
+    }
+
+    const cutoff = now - filter.olderThanDays * 24 * 60 * 60 * 1000;
+    const files: FileEntry[] = [];
+    collectFiles(dirPath, filter.timestamp || 'mtime', files);
+    const aged = files.filter(file => file.time < cutoff && !getOwnLockError(file.path));
+    result.keptFiles = files.length - aged.length;
+
+    removeFiles(dirPath, aged, options, result);
+    return result;
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : 'Unknown error';
+    return result;
+  }
+}
+
+export interface SizeCapFilter {
+  maxBytes: number;
+  // Which timestamp decides which files are the oldest
+  timestamp?: 'mtime' | 'atime';
+}
+
+/**
+ * Delete the oldest files inside a directory until its total size is at or
+ * below the cap, then remove directories that became empty. Locked files are
+ * kept and still count towards the total.
+ */
+export async function trimToSize(
+  dirPath: string,
+  filter: SizeCapFilter,
+  options: DeleteOptions = {}
+): Promise<AgeCleanupResult> {
+  const result: AgeCleanupResult = {
+    success: false,
+    path: dirPath,
+    freedBytes: 0,
+    deletedFiles: 0,
+    keptFiles: 0,
+    removedDirectories: 0,
+  };
+
+  result.error = checkGuards(dirPath, options, true);
+  if (result.error) {
+    return result;
+  }
+
+  try {
+    if (!fs.existsSync(dirPath) || !fs.statSync(dirPath).isDirectory()) {
+      result.error = 'Path does not exist or is not a directory';
+      return result;
+    }
+    if (!(filter.maxBytes >= 0)) {
+      result.error = 'Size cap must be zero or more bytes';
+      return result;
+    }
+
+    const files: FileEntry[] = [];
+    collectFiles(dirPath, filter.timestamp || 'mtime', files);
+    files.sort((a, b) => a.time - b.time);
+
+    let total = files.reduce((sum, file) => sum + file.size, 0);
+    const oldest: FileEntry[] = [];
+    for (const file of files) {
+      if (total <= filter.maxBytes) {
+        break;
+      }
+      if (getOwnLockError(file.path)) {
+        continue;
+      }
+      oldest.push(file);
+      total -= file.size;
+    }
+    result.keptFiles = files.length - oldest.length;
+
+    removeFiles(dirPath, oldest, options, result);
+    return result;
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : 'Unknown error';
+    return result;
+  }
+}
+
+// Delete (or quarantine) the given files and prune directories left empty
+function removeFiles(dirPath: string, files: FileEntry[], options: DeleteOptions, result: AgeCleanupResult): void {
+  const mode = options.mode || 'permanent';
+  const failures: string[] = [];
+
+  if (mode === 'permanent') {
+    for (const file of files) {
+      try {
+        fs.unlinkSync(file.path);
+        result.freedBytes += file.size;
+        result.deletedFiles++;
+      } catch (error) {
+        failures.push(error instanceof Error ? error.message : file.path);
+      }
+    }
+  } else {
+    if (!options.quarantineDir) {
+      throw new Error('No quarantine location configured');
+    }
+    const moved = quarantinePaths(files, options.quarantineDir, {
+      mode,
+      batchId: options.batchId || createBatchId(),
+    });
+    result.deletedFiles = moved.entries.length;
+    result.freedBytes = moved.entries.reduce((sum, entry) => sum + entry.size, 0);
+    failures.push(...moved.errors.map(e => e.error));
+  }
+
+  result.removedDirectories = removeEmptyDirectories(dirPath);
+  result.success = failures.length === 0;
+  if (failures.length > 0) {
+    result.error = `${failures.length} file(s) could not be removed: ${failures[0]}`;
+  }
+}
+
+export async function deleteMultiple(paths: string[], options: DeleteOptions = {}): Promise<{
   results: DeleteResult[];
   totalFreed: number;
   successCount: number;
   failCount: number;
+  batchId: string;
 }> {
+  // All items share one batch so the cleanup can be undone together
+  const batchId = options.batchId || createBatchId();
+  const activeTools = options.blockRunningTools ? options.activeTools || detectToolActivity() : undefined;
   const results: DeleteResult[] = [];
   let totalFreed = 0;
   let successCount = 0;
   let failCount = 0;
 
   for (const p of paths) {
-    const result = await deleteDirectory(p);
+    const result = await deleteDirectory(p, { ...options, batchId, activeTools });
     results.push(result);
 
     if (result.success) {
@@ -98,6 +362,7 @@ export async function deleteMultiple(paths: string[]): Promise<{
     totalFreed,
     successCount,
     failCount,
+    batchId,
   };
 }
 
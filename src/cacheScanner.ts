@@ -1,34 +1,59 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import * as os from 'os';
+import { findMatchingPattern } from './pathMatcher';
+import { AIToolSignature, classifyDirectory, getAllSignatures, getSignatureCandidatePaths } from './aiToolSignatures';
+import { DiskUsage, getDiskUsage } from './sizeCalculator';
+import { ClaudeProjectInfo, DirectoryListingCache, describeClaudeProject, isClaudeProjectsDir } from './claudeProjects';
+import { describeSafetyRule, findSafetyRule, hasRulesBelow } from './safetyRules';
+import { describeLock, findLocks } from './pathLocks';
 
 export interface CacheDirectory {
   path: string;
   name: string;
+  // Apparent size: the sum of file lengths
   size: number;
   sizeFormatted: string;
+  // Space allocated on disk
+  diskUsage?: number;
+  diskUsageFormatted?: string;
   safetyLevel: 'safe' | 'caution' | 'danger';
   description: string;
+  // Which classification rule produced safetyLevel
+  safetyRule?: string;
+  // Team policy file that set safetyLevel
+  policySource?: string;
+  // Why the directory is locked against deletion, when it is or contains a protected location
+  lockedBy?: string;
+  // Signature the directory was discovered through
+  toolName?: string;
   children?: CacheDirectory[];
   isExpanded?: boolean;
   isSelected?: boolean;
+  excluded?: boolean;
+  excludedBy?: string;
+  // Workspace a Claude Code project folder belongs to
+  project?: ClaudeProjectInfo;
 }
 
 export interface ScanResult {
   totalSize: number;
   totalSizeFormatted: string;
+  totalDiskUsage?: number;
+  totalDiskUsageFormatted?: string;
   directories: CacheDirectory[];
 }
 
 export interface ScanOptions {
   defaultSafetyLevel?: 'safe' | 'caution' | 'danger';
   excludePatterns?: string[];
+  showExcluded?: boolean;
 }
 
 // Default scan options
 const DEFAULT_SCAN_OPTIONS: ScanOptions = {
   defaultSafetyLevel: 'caution',
-  excludePatterns: []
+  excludePatterns: [],
+  showExcluded: false
 };
 
 // Current options (can be updated by extension)
@@ -44,35 +69,10 @@ function getDefaultSafetyLevel(): 'safe' | 'caution' | 'danger' {
   return currentOptions.defaultSafetyLevel || 'caution';
 }
 
-// Directory safety classifications
-const SAFETY_MAP: Record<string, { level: 'safe' | 'caution' | 'danger'; description: string }> = {
-  // ~/.claude/
-  'debug': { level: 'safe', description: 'Debug logs - safe to delete' },
-  'shell-snapshots': { level: 'safe', description: 'Shell state snapshots' },
-  'telemetry': { level: 'safe', description: 'Usage telemetry data' },
-  'cache': { level: 'safe', description: 'Temporary cache files' },
-  'image-cache': { level: 'safe', description: 'Cached images' },
-  'paste-cache': { level: 'safe', description: 'Paste history cache' },
-  'session-env': { level: 'safe', description: 'Session environment data' },
-  'statsig': { level: 'safe', description: 'Feature flag cache' },
-  'file-history': { level: 'caution', description: 'File edit history - may want to keep' },
-  'projects': { level: 'caution', description: 'Project configurations' },
-  'todos': { level: 'caution', description: 'Todo items - may contain important notes' },
-  'plugins': { level: 'danger', description: 'Installed plugins - do not delete' },
-  'ide': { level: 'danger', description: 'IDE integration settings' },
-  'plans': { level: 'caution', description: 'Saved plans' },
-  'skills': { level: 'danger', description: 'Custom skills - do not delete' },
-
-  // ~/.gemini/antigravity/
-  'browser_recordings': { level: 'safe', description: 'Browser recording videos - usually large' },
-  'conversations': { level: 'caution', description: 'Conversation history' },
-  'brain': { level: 'caution', description: 'AI task artifacts and plans' },
-  'implicit': { level: 'safe', description: 'Implicit context cache' },
-  'code_tracker': { level: 'caution', description: 'Code tracking data' },
-  'context_state': { level: 'safe', description: 'Context state cache' },
-  'playground': { level: 'safe', description: 'Playground files' },
-  'antigravity-browser-profile': { level: 'safe', description: 'Browser profile cache' },
-};
+// Get the exclude pattern matching a path, if any
+function getExcludingPattern(targetPath: string): string | undefined {
+  return findMatchingPattern(targetPath, currentOptions.excludePatterns);
+}
 
 function formatSize(bytes: number): string {
   if (bytes === 0) { return '0 B'; }
@@ -82,89 +82,260 @@ function formatSize(bytes: number): string {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
 }
 
-function getDirectorySize(dirPath: string): number {
-  let size = 0;
-  try {
-    const files = fs.readdirSync(dirPath);
-    for (const file of files) {
-      const filePath = path.join(dirPath, file);
-      try {
-        const stats = fs.statSync(filePath);
-        if (stats.isDirectory()) {
-          size += getDirectorySize(filePath);
-        } else {
-          size += stats.size;
-        }
-      } catch {
-        // Skip files we can't access
-      }
+// Progress reported while an asynchronous scan is running
+export interface ScanProgress {
+  scannedEntries: number;
+  currentPath: string;
+  completedRoots: number;
+  totalRoots: number;
+  percentage: number;
+}
+
+// Hooks for observing and cancelling an in-flight scan
+export interface ScanRequest {
+  signal?: AbortSignal;
+  onProgress?: (progress: ScanProgress) => void;
+  onPartialResult?: (partial: ScanResult) => void;
+}
+
+export class ScanCancelledError extends Error {
+  constructor() {
+    super('Scan cancelled');
+    this.name = 'ScanCancelledError';
+  }
+}
+
+// Upper bound on filesystem calls in flight at once
+const MAX_CONCURRENT_FS_OPS = 16;
+
+// Minimum delay between two progress notifications
+const PROGRESS_INTERVAL_MS = 100;
+
+interface ScanState {
+  request: ScanRequest;
+  limit: <T>(task: () => Promise<T>) => Promise<T>;
+  scannedEntries: number;
+  completedRoots: number;
+  totalRoots: number;
+  lastProgressAt: number;
+  // Listings used to decode Claude project folders
+  projectDirectories: DirectoryListingCache;
+}
+
+// Run at most `max` tasks concurrently, queueing the rest in FIFO order
+function createLimiter(max: number): <T>(task: () => Promise<T>) => Promise<T> {
+  let active = 0;
+  const queue: Array<() => void> = [];
+
+  const release = () => {
+    const next = queue.shift();
+    if (next) {
+      next();
+    } else {
+      active--;
     }
-  } catch {
-    // Skip directories we can't access
+  };
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active >= max) {
+      // The releasing task hands its slot straight to us
+      await new Promise<void>(resolve => queue.push(resolve));
+    } else {
+      active++;
+    }
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  };
+}
+
+function throwIfCancelled(state: ScanState): void {
+  if (state.request.signal?.aborted) {
+    throw new ScanCancelledError();
+  }
+}
+
+function reportProgress(state: ScanState, currentPath: string, force: boolean = false): void {
+  state.scannedEntries++;
+  const onProgress = state.request.onProgress;
+  if (!onProgress) {
+    return;
   }
-  return size;
+
+  const now = Date.now();
+  if (!force && now - state.lastProgressAt < PROGRESS_INTERVAL_MS) {
+    return;
+  }
+  state.lastProgressAt = now;
+
+  onProgress({
+    scannedEntries: state.scannedEntries,
+    currentPath,
+    completedRoots: state.completedRoots,
+    totalRoots: state.totalRoots,
+    percentage: state.totalRoots > 0 ? Math.round((state.completedRoots / state.totalRoots) * 100) : 100
+  });
+}
+
+// Symlinks below the directory are not followed and hardlinks are counted once (see sizeCalculator)
+function getDirectorySize(dirPath: string, state: ScanState): Promise<DiskUsage> {
+  throwIfCancelled(state);
+  return getDiskUsage(dirPath, {
+    exclude: entryPath => getExcludingPattern(entryPath) !== undefined,
+    onEntry: entryPath => {
+      throwIfCancelled(state);
+      reportProgress(state, entryPath);
+    },
+    limit: state.limit,
+  });
 }
 
-function getSafetyInfo(name: string): { level: 'safe' | 'caution' | 'danger'; description: string } {
-  const defaultLevel = getDefaultSafetyLevel();
-  return SAFETY_MAP[name] || { level: defaultLevel, description: 'Unknown directory' };
+interface SafetyInfo {
+  level: 'safe' | 'caution' | 'danger';
+  description: string;
+  rule: string;
+  // Whether the level came from a signature list rather than a default
+  classified: boolean;
+  // Team policy file of the deciding rule
+  source?: string;
 }
 
-function scanDirectory(dirPath: string, depth: number = 1): CacheDirectory[] {
-  const result: CacheDirectory[] = [];
+// Rule of directories no safety rule or signature classifies
+export const UNKNOWN_DIRECTORY_RULE = 'Default level for unknown directories';
+
+/**
+ * Classify a directory: the first safety rule matching its path wins, then
+ * its tool's signature lists. Directories neither classifies take the
+ * classification of the nearest classified ancestor, or the configured
+ * default level.
+ */
+function getSafetyInfo(dirPath: string, signature: AIToolSignature, parent?: SafetyInfo): SafetyInfo {
+  const name = path.basename(dirPath);
+  const description = signature.directoryDescriptions?.[name];
+  const safetyRule = findSafetyRule(dirPath, signature.name);
+  if (safetyRule) {
+    return {
+      level: safetyRule.level,
+      description: description || safetyRule.reason,
+      rule: describeSafetyRule(safetyRule),
+      classified: true,
+      source: safetyRule.source
+    };
+  }
+  const match = classifyDirectory(signature, name);
+  if (match) {
+    return {
+      level: match.level,
+      description: description || `${signature.name} directory`,
+      rule: `${signature.name} signature (${match.list}: "${name}")`,
+      classified: true
+    };
+  }
+  if (parent?.classified) {
+    return { ...parent, description: description || parent.description };
+  }
+  return {
+    level: getDefaultSafetyLevel(),
+    description: description || 'Unknown directory',
+    rule: UNKNOWN_DIRECTORY_RULE,
+    classified: false
+  };
+}
 
+const INHERITED_RULE = 'Inherited from the riskiest child directory';
+
+async function scanDirectory(
+  dirPath: string,
+  state: ScanState,
+  signature: AIToolSignature,
+  parentInfo: SafetyInfo | undefined,
+  depth: number = 1
+): Promise<CacheDirectory[]> {
+  throwIfCancelled(state);
+
+  let items: string[];
   try {
-    const items = fs.readdirSync(dirPath);
+    items = await state.limit(() => fs.promises.readdir(dirPath));
+  } catch {
+    // Skip directories we can't access
+    return [];
+  }
 
-    for (const item of items) {
-      // Skip hidden files except specific ones
-      if (item.startsWith('.') && item !== '.DS_Store') {
-        continue;
-      }
-      if (item === '.DS_Store') {
-        continue;
-      }
+  const scanned = await Promise.all(items.map(async (item): Promise<CacheDirectory | undefined> => {
+    // Skip hidden files and .DS_Store
+    if (item.startsWith('.')) {
+      return undefined;
+    }
+
+    const itemPath = path.join(dirPath, item);
+
+    // Symlinked directories are not part of the tool's data and are not descended into
+    let stats: fs.Stats;
+    try {
+      stats = await state.limit(() => fs.promises.lstat(itemPath));
+    } catch {
+      // Skip items we can't access
+      return undefined;
+    }
+
+    if (!stats.isDirectory()) {
+      return undefined;
+    }
+
+    const safetyInfo = getSafetyInfo(itemPath, signature, parentInfo);
 
-      const itemPath = path.join(dirPath, item);
-
-      try {
-        const stats = fs.statSync(itemPath);
-
-        if (stats.isDirectory()) {
-          const size = getDirectorySize(itemPath);
-          const safetyInfo = getSafetyInfo(item);
-
-          const dir: CacheDirectory = {
-            path: itemPath,
-            name: item,
-            size,
-            sizeFormatted: formatSize(size),
-            safetyLevel: safetyInfo.level,
-            description: safetyInfo.description,
-            isExpanded: false,
-            isSelected: false,
-          };
-
-          // Scan children for first level
-          if (depth > 0) {
-            dir.children = scanDirectory(itemPath, depth - 1);
-
-            // Inherit safety level from children (use the highest risk level)
-            if (dir.children && dir.children.length > 0) {
-              const childMaxLevel = getMaxSafetyLevel(dir.children);
-              dir.safetyLevel = getHigherRiskLevel(dir.safetyLevel, childMaxLevel);
-            }
-          }
-
-          result.push(dir);
+    const excludedBy = getExcludingPattern(itemPath);
+    if (excludedBy) {
+      return currentOptions.showExcluded ? createExcludedEntry(itemPath, item, safetyInfo.level, excludedBy) : undefined;
+    }
+
+    const usage = await getDirectorySize(itemPath, state);
+
+    const dir: CacheDirectory = {
+      path: itemPath,
+      name: item,
+      size: usage.apparentSize,
+      sizeFormatted: formatSize(usage.apparentSize),
+      diskUsage: usage.diskUsage,
+      diskUsageFormatted: formatSize(usage.diskUsage),
+      safetyLevel: safetyInfo.level,
+      description: safetyInfo.description,
+      safetyRule: safetyInfo.rule,
+      policySource: safetyInfo.source,
+      toolName: signature.name,
+      isExpanded: false,
+      isSelected: false,
+    };
+
+    if (isClaudeProjectsDir(dirPath)) {
+      dir.project = await describeClaudeProject(itemPath, state.projectDirectories);
+      dir.description = dir.project.orphaned
+        ? `Orphaned: ${dir.project.projectPath} no longer exists`
+        : `Claude Code data for ${dir.project.projectPath}`;
+    }
+
+    // Scan children for first level, and further down where a safety rule targets deeper directories
+    if (depth > 0 || hasRulesBelow(itemPath, signature.name)) {
+      dir.children = await scanDirectory(itemPath, state, signature, safetyInfo, Math.max(depth - 1, 0));
+
+      // Inherit safety level from children (use the highest risk level)
+      if (dir.children && dir.children.length > 0) {
+        const childMaxLevel = getMaxSafetyLevel(dir.children);
+        const inheritedLevel = getHigherRiskLevel(dir.safetyLevel, childMaxLevel);
+        if (inheritedLevel !== dir.safetyLevel) {
+          dir.safetyLevel = inheritedLevel;
+          dir.safetyRule = INHERITED_RULE;
+          dir.policySource = undefined;
         }
-      } catch {
-        // Skip items we can't access
       }
     }
-  } catch {
-    // Skip directories we can't access
-  }
+
+    return dir;
+  }));
+
+  const result = scanned.filter((dir): dir is CacheDirectory => dir !== undefined);
 
   // Sort by size descending
   result.sort((a, b) => b.size - a.size);
@@ -172,10 +343,37 @@ function scanDirectory(dirPath: string, depth: number = 1): CacheDirectory[] {
   return result;
 }
 
-// Get the maximum (most dangerous) safety level from a list of directories
+// Placeholder shown (greyed out) for a directory skipped by excludePatterns
+function createExcludedEntry(
+  dirPath: string,
+  name: string,
+  safetyLevel: 'safe' | 'caution' | 'danger',
+  excludedBy: string
+): CacheDirectory {
+  return {
+    path: dirPath,
+    name,
+    size: 0,
+    sizeFormatted: formatSize(0),
+    diskUsage: 0,
+    diskUsageFormatted: formatSize(0),
+    safetyLevel,
+    description: `Excluded by pattern "${excludedBy}" - not counted in totals`,
+    isExpanded: false,
+    isSelected: false,
+    excluded: true,
+    excludedBy,
+  };
+}
+
+// Get the maximum (most dangerous) safety level from a list of directories.
+// Excluded entries are ignored since they do not contribute to the scan.
 function getMaxSafetyLevel(dirs: CacheDirectory[]): 'safe' | 'caution' | 'danger' {
   let maxLevel: 'safe' | 'caution' | 'danger' = 'safe';
   for (const dir of dirs) {
+    if (dir.excluded) {
+      continue;
+    }
     maxLevel = getHigherRiskLevel(maxLevel, dir.safetyLevel);
     // Early exit if already at highest level
     if (maxLevel === 'danger') {
@@ -194,106 +392,242 @@ function getHigherRiskLevel(
   return riskOrder[a] >= riskOrder[b] ? a : b;
 }
 
-export function scanAllCaches(): ScanResult {
-  const homeDir = os.homedir();
-  const directories: CacheDirectory[] = [];
-  let totalSize = 0;
-
-  // Scan ~/.claude/
-  const claudeDir = path.join(homeDir, '.claude');
-  if (fs.existsSync(claudeDir)) {
-    const claudeSize = getDirectorySize(claudeDir);
-    const children = scanDirectory(claudeDir, 1);
-    // Inherit safety level from children
-    const inheritedLevel = children.length > 0 ? getMaxSafetyLevel(children) : 'caution';
-
-    directories.push({
-      path: claudeDir,
-      name: '.claude',
-      size: claudeSize,
-      sizeFormatted: formatSize(claudeSize),
-      safetyLevel: inheritedLevel,
-      description: 'Claude Code CLI data',
-      children,
-      isExpanded: true,
-      isSelected: false,
-    });
-    totalSize += claudeSize;
+async function statDirectory(targetPath: string): Promise<fs.Stats | undefined> {
+  try {
+    const stats = await fs.promises.stat(targetPath);
+    return stats.isDirectory() ? stats : undefined;
+  } catch {
+    return undefined;
   }
+}
 
-  // Scan ~/.gemini/
-  const geminiDir = path.join(homeDir, '.gemini');
-  if (fs.existsSync(geminiDir)) {
-    const geminiSize = getDirectorySize(geminiDir);
-
-    // Scan antigravity subdirectory specifically
-    const antigravityDir = path.join(geminiDir, 'antigravity');
-    let children: CacheDirectory[] = [];
+interface ScanRoot {
+  path: string;
+  signature: AIToolSignature;
+}
 
-    if (fs.existsSync(antigravityDir)) {
-      children = scanDirectory(antigravityDir, 1);
+/**
+ * Collect the existing directories matched by any signature.
+ * A directory matched by several signatures or patterns (e.g. on a
+ * case-insensitive filesystem), or nested inside another root, is only
+ * scanned once, by the first signature that claims it.
+ */
+async function findScanRoots(): Promise<ScanRoot[]> {
+  const candidates: ScanRoot[] = [];
+  const seenPaths = new Set<string>();
+  for (const signature of getAllSignatures()) {
+    for (const candidate of getSignatureCandidatePaths(signature)) {
+      if (!seenPaths.has(candidate)) {
+        seenPaths.add(candidate);
+        candidates.push({ path: candidate, signature });
+      }
     }
+  }
 
-    // Also add browser profile
-    const browserProfileDir = path.join(geminiDir, 'antigravity-browser-profile');
-    if (fs.existsSync(browserProfileDir)) {
-      const bpSize = getDirectorySize(browserProfileDir);
-      const bpInfo = getSafetyInfo('antigravity-browser-profile');
-      children.push({
-        path: browserProfileDir,
-        name: 'antigravity-browser-profile',
-        size: bpSize,
-        sizeFormatted: formatSize(bpSize),
-        safetyLevel: bpInfo.level,
-        description: bpInfo.description,
-        isExpanded: false,
-        isSelected: false,
-      });
+  const stats = await Promise.all(candidates.map(root => statDirectory(root.path)));
+  const seenDirectories = new Set<string>();
+  const roots: ScanRoot[] = [];
+  for (const [index, root] of candidates.entries()) {
+    const rootStats = stats[index];
+    if (!rootStats) {
+      continue;
     }
+    const key = `${rootStats.dev}:${rootStats.ino}`;
+    if (seenDirectories.has(key) ||
+      roots.some(other => root.path.startsWith(other.path + path.sep) || other.path.startsWith(root.path + path.sep))) {
+      continue;
+    }
+    seenDirectories.add(key);
+    roots.push(root);
+  }
+  return roots;
+}
 
-    // Sort children by size
-    children.sort((a, b) => b.size - a.size);
-
-    // Inherit safety level from children
-    const inheritedLevel = children.length > 0 ? getMaxSafetyLevel(children) : 'caution';
-
-    directories.push({
-      path: geminiDir,
-      name: '.gemini',
-      size: geminiSize,
-      sizeFormatted: formatSize(geminiSize),
-      safetyLevel: inheritedLevel,
-      description: 'Gemini/Antigravity data',
-      children,
-      isExpanded: true,
-      isSelected: false,
-    });
-    totalSize += geminiSize;
+async function scanRoot(root: ScanRoot, state: ScanState): Promise<CacheDirectory> {
+  const name = path.basename(root.path);
+  const safetyInfo = getSafetyInfo(root.path, root.signature);
+  const usage = await getDirectorySize(root.path, state);
+  const children = await scanDirectory(root.path, state, root.signature, safetyInfo, 1);
+
+  // Inherit safety level from children (use the highest risk level)
+  let level = safetyInfo.classified ? safetyInfo.level : 'caution';
+  let rule = safetyInfo.classified ? safetyInfo.rule : INHERITED_RULE;
+  let policySource = safetyInfo.source;
+  if (children.some(child => !child.excluded)) {
+    const childMaxLevel = getMaxSafetyLevel(children);
+    const inheritedLevel = safetyInfo.classified ? getHigherRiskLevel(level, childMaxLevel) : childMaxLevel;
+    if (inheritedLevel !== level) {
+      level = inheritedLevel;
+      rule = INHERITED_RULE;
+      policySource = undefined;
+    }
   }
 
-  // Scan ~/Library/Caches/claude-cli-nodejs (macOS)
-  if (process.platform === 'darwin') {
-    const cacheDir = path.join(homeDir, 'Library', 'Caches', 'claude-cli-nodejs');
-    if (fs.existsSync(cacheDir)) {
-      const cacheSize = getDirectorySize(cacheDir);
-
-      directories.push({
-        path: cacheDir,
-        name: 'claude-cli-nodejs',
-        size: cacheSize,
-        sizeFormatted: formatSize(cacheSize),
-        safetyLevel: 'safe',
-        description: 'Claude CLI cache - safe to delete',
-        isExpanded: false,
-        isSelected: false,
-      });
-      totalSize += cacheSize;
+  const dir: CacheDirectory = {
+    path: root.path,
+    name,
+    size: usage.apparentSize,
+    sizeFormatted: formatSize(usage.apparentSize),
+    diskUsage: usage.diskUsage,
+    diskUsageFormatted: formatSize(usage.diskUsage),
+    safetyLevel: level,
+    description: root.signature.directoryDescriptions?.[name] || root.signature.description || `${root.signature.name} data`,
+    safetyRule: rule,
+    policySource,
+    toolName: root.signature.name,
+    children,
+    isExpanded: children.length > 0,
+    isSelected: false,
+  };
+
+  applyPathLocks([dir]);
+  return dir;
+}
+
+/**
+ * Scan the directories of every detected AI tool without blocking the calling thread.
+ * The tree and its classification are driven by the tool signatures.
+ * Roots are scanned one after another so partial results can be streamed;
+ * filesystem calls within a root run with bounded concurrency.
+ * Rejects with ScanCancelledError when the request's signal is aborted.
+ */
+export async function scanAllCaches(request: ScanRequest = {}): Promise<ScanResult> {
+  const existingRoots = await findScanRoots();
+  const includedRoots = existingRoots.filter(root => !getExcludingPattern(root.path));
+
+  const state: ScanState = {
+    request,
+    limit: createLimiter(MAX_CONCURRENT_FS_OPS),
+    scannedEntries: 0,
+    completedRoots: 0,
+    totalRoots: includedRoots.length,
+    lastProgressAt: 0,
+    projectDirectories: new Map(),
+  };
+
+  const directories: CacheDirectory[] = [];
+  let totalSize = 0;
+  let totalDiskUsage = 0;
+
+  if (currentOptions.showExcluded) {
+    for (const root of existingRoots) {
+      const excludedBy = getExcludingPattern(root.path);
+      if (excludedBy) {
+        const excludedEntry = createExcludedEntry(root.path, path.basename(root.path), 'caution', excludedBy);
+        excludedEntry.toolName = root.signature.name;
+        directories.push(excludedEntry);
+      }
     }
   }
 
+  for (const root of includedRoots) {
+    throwIfCancelled(state);
+    const dir = await scanRoot(root, state);
+    directories.push(dir);
+    totalSize += dir.size;
+    totalDiskUsage += dir.diskUsage || 0;
+    state.completedRoots++;
+
+    reportProgress(state, root.path, true);
+    request.onPartialResult?.({
+      totalSize,
+      totalSizeFormatted: formatSize(totalSize),
+      totalDiskUsage,
+      totalDiskUsageFormatted: formatSize(totalDiskUsage),
+      directories: [...directories],
+    });
+  }
+
   return {
     totalSize,
     totalSizeFormatted: formatSize(totalSize),
+    totalDiskUsage,
+    totalDiskUsageFormatted: formatSize(totalDiskUsage),
     directories,
   };
 }
+
+// Whether a directory and every scanned descendant have one of the levels and none is excluded
+function isUniformlyAtLevel(
+  dir: CacheDirectory,
+  levels: Array<'safe' | 'caution' | 'danger'>,
+  overrides: Record<string, 'safe' | 'caution' | 'danger'>
+): boolean {
+  if (dir.excluded || dir.lockedBy || !levels.includes(overrides[dir.path] || dir.safetyLevel)) {
+    return false;
+  }
+  return (dir.children || []).every(child => isUniformlyAtLevel(child, levels, overrides));
+}
+
+/**
+ * Mark directories that are locked, or contain a locked location, so they
+ * are never offered for deletion (see pathLocks)
+ */
+export function applyPathLocks(directories: CacheDirectory[]): void {
+  for (const dir of directories) {
+    applyPathLocks(dir.children || []);
+    const lock = findLocks(dir.path)[0];
+    dir.lockedBy = lock ? describeLock(lock) : dir.children?.find(child => child.lockedBy)?.lockedBy;
+  }
+}
+
+/**
+ * Claude Code project folders whose workspace no longer exists. Like
+ * collectDirectoriesAtLevel, a folder holding anything danger-level
+ * (such as memory), locked or excluded is replaced by its other parts.
+ */
+export function collectOrphanedProjects(
+  directories: CacheDirectory[],
+  overrides: Record<string, 'safe' | 'caution' | 'danger'> = {}
+): CacheDirectory[] {
+  const orphans: CacheDirectory[] = [];
+  for (const dir of directories) {
+    if (dir.excluded) {
+      continue;
+    }
+    if (dir.project?.orphaned) {
+      orphans.push(...collectDirectoriesAtLevel([dir], ['safe', 'caution'], overrides));
+    } else if (dir.children) {
+      orphans.push(...collectOrphanedProjects(dir.children, overrides));
+    }
+  }
+  return orphans;
+}
+
+/**
+ * Collect the top-most directories whose effective safety level matches.
+ * A directory is only returned whole when nothing inside it is excluded or
+ * classified differently; otherwise its children are considered instead.
+ * Overrides are keyed by path.
+ */
+export function collectDirectoriesAtLevel(
+  directories: CacheDirectory[],
+  level: 'safe' | 'caution' | 'danger' | Array<'safe' | 'caution' | 'danger'>,
+  overrides: Record<string, 'safe' | 'caution' | 'danger'> = {}
+): CacheDirectory[] {
+  const levels = Array.isArray(level) ? level : [level];
+  const matches: CacheDirectory[] = [];
+  for (const dir of directories) {
+    if (dir.excluded) {
+      continue;
+    }
+    if (isUniformlyAtLevel(dir, levels, overrides)) {
+      matches.push(dir);
+    } else if (dir.children) {
+      matches.push(...collectDirectoriesAtLevel(dir.children, levels, overrides));
+    }
+  }
+  return matches;
+}
+
+/**
+ * Directories offered when cleaning a single tool: the children of its
+ * scanned roots, or a root that has none, largest first
+ */
+export function collectToolDirectories(directories: CacheDirectory[], toolName: string): CacheDirectory[] {
+  return directories
+    .filter(root => !root.excluded && (root.toolName || root.name) === toolName)
+    .flatMap(root => root.children && root.children.length > 0 ? root.children : [root])
+    .filter(dir => !dir.excluded)
+    .sort((a, b) => b.size - a.size);
+}
@@ -0,0 +1,54 @@
+import { CacheDirectory, UNKNOWN_DIRECTORY_RULE } from './cacheScanner';
+import { SafetyLevel } from './safetyLevels';
+
+/**
+ * Cache Tree Nodes
+ * What the sidebar shows for a scanned directory, kept apart from the
+ * VS Code tree provider: its visible children, label, description, icon
+ * and the context value the tree's menus are keyed on.
+ */
+
+export interface CacheTreeNode {
+  label: string;
+  description: string;
+  level: SafetyLevel;
+  overridden: boolean;
+  hasChildren: boolean;
+  icon: 'lock' | 'circle-filled';
+  // "cacheDirectory" or "lockedDirectory", the level, then ".overridden" or ".unknown"
+  contextValue: string;
+}
+
+// Excluded directories are left out of the tree
+export function getVisibleChildren(directories: CacheDirectory[]): CacheDirectory[] {
+  return directories.filter(dir => !dir.excluded);
+}
+
+export function describeTreeNode(
+  dir: CacheDirectory,
+  overrides: Record<string, SafetyLevel>,
+  isRoot: boolean
+): CacheTreeNode {
+  const level = overrides[dir.path] || dir.safetyLevel;
+  const overridden = dir.path in overrides;
+
+  let description = isRoot && dir.toolName ? `${dir.sizeFormatted} · ${dir.toolName}` : dir.sizeFormatted;
+  if (dir.project) {
+    description += ` · ${dir.project.projectPath}${dir.project.orphaned ? ' (orphaned)' : ''}`;
+  }
+
+  // Locked directories get no delete action; unknown ones offer a level suggestion
+  const unknown = !overridden && dir.safetyRule === UNKNOWN_DIRECTORY_RULE;
+  const contextValue = `${dir.lockedBy ? 'lockedDirectory' : 'cacheDirectory'}.${level}` +
+    `${overridden ? '.overridden' : ''}${unknown ? '.unknown' : ''}`;
+
+  return {
+    label: dir.name,
+    description,
+    level,
+    overridden,
+    hasChildren: getVisibleChildren(dir.children || []).length > 0,
+    icon: dir.lockedBy ? 'lock' : 'circle-filled',
+    contextValue
+  };
+}
@@ -0,0 +1,87 @@
+import * as vscode from 'vscode';
+import { CacheDirectory, ScanResult } from './cacheScanner';
+import { describeTreeNode, getVisibleChildren } from './cacheTreeNodes';
+import { SAFETY_DEFINITIONS, SafetyLevel } from './safetyLevels';
+
+/**
+ * Cache Tree Provider
+ * Shows the directories of the last scan in the sidebar, with sizes and
+ * safety levels. Scanning and deleting stay in the extension; this only
+ * renders whatever scan result it is given.
+ */
+
+const LEVEL_COLORS: Record<SafetyLevel, string> = {
+    safe: 'charts.green',
+    caution: 'charts.yellow',
+    danger: 'charts.red'
+};
+
+export class CacheTreeProvider implements vscode.TreeDataProvider<CacheDirectory> {
+    private _scanResult?: ScanResult;
+    private _getOverrides: () => Record<string, SafetyLevel>;
+    private _onDidChangeTreeData = new vscode.EventEmitter<CacheDirectory | undefined>();
+
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    constructor(getOverrides: () => Record<string, SafetyLevel>) {
+        this._getOverrides = getOverrides;
+    }
+
+    get hasScanResult(): boolean {
+        return this._scanResult !== undefined;
+    }
+
+    setScanResult(scanResult: ScanResult) {
+        this._scanResult = scanResult;
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    // Redraw after safety overrides changed
+    refresh() {
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    getChildren(element?: CacheDirectory): CacheDirectory[] {
+        return getVisibleChildren(element ? element.children || [] : this._scanResult?.directories || []);
+    }
+
+    getTreeItem(dir: CacheDirectory): vscode.TreeItem {
+        const isRoot = this._scanResult?.directories.includes(dir) === true;
+        const { label, description, level, overridden, hasChildren, icon, contextValue } =
+            describeTreeNode(dir, this._getOverrides(), isRoot);
+
+        const item = new vscode.TreeItem(
+            label,
+            hasChildren ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+        );
+        item.id = dir.path;
+        item.resourceUri = vscode.Uri.file(dir.path);
+        item.description = description;
+        item.iconPath = new vscode.ThemeIcon(icon, new vscode.ThemeColor(LEVEL_COLORS[level]));
+        item.contextValue = contextValue;
+
+        const tooltip = new vscode.MarkdownString();
+        tooltip.appendMarkdown(`**${dir.name}** — ${dir.sizeFormatted}`);
+        if (dir.diskUsageFormatted) {
+            tooltip.appendMarkdown(` (${dir.diskUsageFormatted} on disk)`);
+        }
+        tooltip.appendMarkdown('\n\n');
+        tooltip.appendText(dir.path);
+        tooltip.appendMarkdown(`\n\nSafety level: **${SAFETY_DEFINITIONS[level].label}**`);
+        tooltip.appendMarkdown(overridden ? ' (your override)' : dir.safetyRule ? ` — ${dir.safetyRule}` : '');
+        if (dir.lockedBy) {
+            tooltip.appendMarkdown('\n\n🔒 Protected: ');
+            tooltip.appendText(dir.lockedBy);
+        }
+        if (dir.description) {
+            tooltip.appendMarkdown('\n\n');
+            tooltip.appendText(dir.description);
+        }
+        if (dir.project?.lastActivity) {
+            tooltip.appendMarkdown(`\n\nLast activity: ${new Date(dir.project.lastActivity).toLocaleString()}`);
+        }
+        item.tooltip = tooltip;
+
+        return item;
+    }
+}
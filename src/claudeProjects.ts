@@ -0,0 +1,204 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Claude Projects
+ * Claude Code keeps per-workspace data in ~/.claude/projects/<encoded path>,
+ * where the folder name is the workspace path with every character other
+ * than a letter or digit replaced by "-". These helpers map folders back to
+ * their workspaces so the data can be attributed, and spot folders whose
+ * workspace no longer exists.
+ */
+
+export interface ClaudeProjectInfo {
+  // Workspace the folder belongs to
+  projectPath: string;
+  // Read from a session transcript, matched against existing directories, or guessed from the name
+  resolvedFrom: 'session' | 'filesystem' | 'guess';
+  // The workspace no longer exists; only claimed for a session path that encodes to the folder name
+  orphaned: boolean;
+  // Newest modification time of the folder's entries (ISO 8601)
+  lastActivity?: string;
+  sessionCount: number;
+}
+
+// Directory listings shared by the lookups of one scan
+export type DirectoryListingCache = Map<string, Promise<string[]>>;
+
+// Newest transcripts read when looking for the workspace path, and how much of each
+const SESSION_FILES_READ = 3;
+const SESSION_HEAD_BYTES = 64 * 1024;
+
+// Deepest workspace path matched against the filesystem
+const MAX_DECODE_DEPTH = 32;
+
+export function encodeProjectPath(projectPath: string): string {
+  return projectPath.replace(/[^a-zA-Z0-9]/g, '-');
+}
+
+/**
+ * Whether a directory is Claude Code's per-project store (…/.claude/projects)
+ */
+export function isClaudeProjectsDir(dirPath: string): boolean {
+  return path.basename(dirPath) === 'projects' && path.basename(path.dirname(dirPath)) === '.claude';
+}
+
+// Sub-directories of a directory, listed once per cache
+function listDirectories(dirPath: string, cache: DirectoryListingCache): Promise<string[]> {
+  let listing = cache.get(dirPath);
+  if (!listing) {
+    listing = fs.promises.readdir(dirPath, { withFileTypes: true })
+      .then(entries => entries.filter(entry => entry.isDirectory() || entry.isSymbolicLink()).map(entry => entry.name))
+      .catch(() => []);
+    cache.set(dirPath, listing);
+  }
+  return listing;
+}
+
+// Follow the encoded name one existing directory at a time; "rest" starts with the separator
+async function matchSegments(
+  dirPath: string,
+  rest: string,
+  cache: DirectoryListingCache,
+  depth: number
+): Promise<string | undefined> {
+  if (rest === '') {
+    return dirPath;
+  }
+  if (depth >= MAX_DECODE_DEPTH) {
+    return undefined;
+  }
+
+  for (const entry of await listDirectories(dirPath, cache)) {
+    const segment = '-' + encodeProjectPath(entry);
+    if (rest === segment || rest.startsWith(segment + '-')) {
+      const found = await matchSegments(path.join(dirPath, entry), rest.slice(segment.length), cache, depth + 1);
+      if (found) {
+        return found;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The existing directory whose encoded path is the folder name. Names are
+ * ambiguous ("my-app" may be "my/app"), so candidates are checked against
+ * the filesystem. Returns undefined when no existing directory matches.
+ */
+export async function decodeProjectFolder(
+  folderName: string,
+  cache: DirectoryListingCache = new Map()
+): Promise<string | undefined> {
+  const encoded = encodeProjectPath(folderName);
+  if (process.platform === 'win32') {
+    // "C--Users-me" is C:\Users\me
+    const drive = /^([a-zA-Z])--/.exec(encoded);
+    return drive ? matchSegments(`${drive[1]}:\\`, encoded.slice(2), cache, 0) : undefined;
+  }
+  return encoded.startsWith('-') ? matchSegments('/', encoded, cache, 0) : undefined;
+}
+
+async function readHead(filePath: string): Promise<string> {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(SESSION_HEAD_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, SESSION_HEAD_BYTES, 0);
+    return buffer.toString('utf8', 0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * The working directory recorded in the newest session transcripts,
+ * preferring one that encodes to the folder name (matchesFolder)
+ */
+async function findSessionCwd(
+  folderName: string,
+  transcripts: string[]
+): Promise<{ cwd: string; matchesFolder: boolean } | undefined> {
+  const encoded = encodeProjectPath(folderName);
+  let fallback: string | undefined;
+
+  for (const transcript of transcripts.slice(0, SESSION_FILES_READ)) {
+    let head: string;
+    try {
+      head = await readHead(transcript);
+    } catch {
+      continue;
+    }
+    for (const line of head.split('\n')) {
+      let cwd: unknown;
+      try {
+        cwd = JSON.parse(line).cwd;
+      } catch {
+        // Blank lines and the line cut off at the end of the head
+        continue;
+      }
+      if (typeof cwd === 'string' && path.isAbsolute(cwd)) {
+        if (encodeProjectPath(cwd) === encoded) {
+          return { cwd, matchesFolder: true };
+        }
+        fallback = fallback || cwd;
+      }
+    }
+  }
+  return fallback ? { cwd: fallback, matchesFolder: false } : undefined;
+}
+
+async function isDirectory(dirPath: string): Promise<boolean> {
+  try {
+    return (await fs.promises.stat(dirPath)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Attribute one folder of ~/.claude/projects to its workspace
+ */
+export async function describeClaudeProject(
+  folderPath: string,
+  cache: DirectoryListingCache = new Map()
+): Promise<ClaudeProjectInfo> {
+  const folderName = path.basename(folderPath);
+
+  const entries: Array<{ path: string; mtime: number }> = [];
+  try {
+    for (const name of await fs.promises.readdir(folderPath)) {
+      const entryPath = path.join(folderPath, name);
+      try {
+        entries.push({ path: entryPath, mtime: (await fs.promises.lstat(entryPath)).mtimeMs });
+      } catch {
+        // Skip entries we can't access
+      }
+    }
+  } catch {
+    // An unreadable folder still gets a guessed path
+  }
+  entries.sort((a, b) => b.mtime - a.mtime);
+  const transcripts = entries.filter(entry => entry.path.endsWith('.jsonl')).map(entry => entry.path);
+
+  // A session path that does not encode to the folder name (a subdirectory, say)
+  // or a guess may be wrong, so neither can show that the workspace is gone
+  const session = await findSessionCwd(folderName, transcripts);
+  let projectPath = session?.matchesFolder ? session.cwd : await decodeProjectFolder(folderName, cache);
+  let resolvedFrom: ClaudeProjectInfo['resolvedFrom'] = session?.matchesFolder ? 'session' : 'filesystem';
+  if (!projectPath && session) {
+    projectPath = session.cwd;
+    resolvedFrom = 'session';
+  }
+  if (!projectPath) {
+    projectPath = folderName.replace(/-/g, path.sep);
+    resolvedFrom = 'guess';
+  }
+
+  return {
+    projectPath,
+    resolvedFrom,
+    orphaned: session?.matchesFolder === true && !await isDirectory(projectPath),
+    lastActivity: entries.length > 0 ? new Date(entries[0].mtime).toISOString() : undefined,
+    sessionCount: transcripts.length,
+  };
+}
@@ -0,0 +1,349 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CacheDirectory, ScanResult, collectDirectoriesAtLevel } from './cacheScanner';
+import { DeleteOptions, deleteDirectory, deleteOlderThan, trimToSize } from './cacheDeleter';
+import { createBatchId } from './quarantine';
+import { matchesPathPattern } from './pathMatcher';
+import { SafetyLevel } from './safetyLevels';
+
+/**
+ * Cleanup Policies
+ * Named, scheduled cleanups defined in settings, e.g.
+ * "weekly: delete safe items older than 14 days, cap debug/ at 200 MB".
+ * Danger-level directories are never touched by a policy.
+ */
+
+export type PolicySchedule = 'daily' | 'weekly' | 'monthly';
+
+export interface CleanupRule {
+  // Path patterns (same syntax as excludePatterns); every scanned directory when omitted
+  paths?: string[];
+  // Only directories found through these tools' signatures
+  tools?: string[];
+  // Levels the rule may delete, 'safe' by default
+  levels?: Array<'safe' | 'caution'>;
+  // Delete only files older than this many days
+  olderThanDays?: number;
+  // Delete the oldest files until the directory fits in this many megabytes
+  maxSizeMB?: number;
+}
+
+export interface CleanupPolicy {
+  name: string;
+  schedule: PolicySchedule;
+  enabled?: boolean;
+  rules: CleanupRule[];
+  // Team policy file the policy came from, as a cleanup preset
+  source?: string;
+  // Presets of a workspace's policy file: scheduled only once the user approves them
+  approval?: 'pending' | 'approved';
+}
+
+export interface PolicyActionResult {
+  path: string;
+  action: 'delete' | 'olderThan' | 'capSize';
+  // Effective level of the target and whether it came from a user override
+  safetyLevel: SafetyLevel;
+  overridden: boolean;
+  success: boolean;
+  freedBytes: number;
+  deletedFiles?: number;
+  error?: string;
+}
+
+export interface PolicyRun {
+  policy: string;
+  trigger: 'startup' | 'scheduled' | 'manual';
+  startedAt: string;
+  finishedAt: string;
+  // Shared by everything the run removed, so it can be undone as one cleanup
+  batchId: string;
+  totalFreed: number;
+  actions: PolicyActionResult[];
+}
+
+const SCHEDULE_DAYS: Record<PolicySchedule, number> = { daily: 1, weekly: 7, monthly: 30 };
+const RULE_FIELDS = ['paths', 'tools', 'levels', 'olderThanDays', 'maxSizeMB'];
+const RUN_LOG_FILE = 'policy-runs.json';
+const MAX_LOGGED_RUNS = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string' && item.trim() !== '');
+}
+
+function validateRule(value: unknown, label: string, errors: string[]): CleanupRule | undefined {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    errors.push(`${label}: must be an object`);
+    return undefined;
+  }
+
+  const raw = value as Record<string, unknown>;
+  const rule: CleanupRule = {};
+  const errorCount = errors.length;
+
+  for (const key of Object.keys(raw).filter(key => !RULE_FIELDS.includes(key))) {
+    errors.push(`${label}: unknown property "${key}"`);
+  }
+  for (const field of ['paths', 'tools'] as const) {
+    if (raw[field] !== undefined) {
+      if (isStringList(raw[field])) {
+        rule[field] = raw[field] as string[];
+      } else {
+        errors.push(`${label}: "${field}" must be an array of non-empty strings`);
+      }
+    }
+  }
+  if (raw.levels !== undefined) {
+    if (Array.isArray(raw.levels) && raw.levels.every(level => level === 'safe' || level === 'caution')) {
+      rule.levels = raw.levels as Array<'safe' | 'caution'>;
+    } else {
+      errors.push(`${label}: "levels" may only contain "safe" and "caution"`);
+    }
+  }
+  for (const field of ['olderThanDays', 'maxSizeMB'] as const) {
+    if (raw[field] !== undefined) {
+      if (typeof raw[field] === 'number' && (raw[field] as number) >= 0) {
+        rule[field] = raw[field] as number;
+      } else {
+        errors.push(`${label}: "${field}" must be a number of zero or more`);
+      }
+    }
+  }
+
+  return errors.length === errorCount ? rule : undefined;
+}
+
+/**
+ * Validate one policy from the settings
+ */
+export function validatePolicy(value: unknown, label: string = 'policy'): { policy?: CleanupPolicy; errors: string[] } {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { errors: [`${label}: must be an object`] };
+  }
+
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.name !== 'string' || raw.name.trim() === '') {
+    return { errors: [`${label}: "name" must be a non-empty string`] };
+  }
+
+  const name = raw.name.trim();
+  const errors: string[] = [];
+
+  if (typeof raw.schedule !== 'string' || !(raw.schedule in SCHEDULE_DAYS)) {
+    errors.push(`${label} "${name}": "schedule" must be one of ${Object.keys(SCHEDULE_DAYS).join(', ')}`);
+  }
+  if (raw.enabled !== undefined && typeof raw.enabled !== 'boolean') {
+    errors.push(`${label} "${name}": "enabled" must be a boolean`);
+  }
+  for (const key of Object.keys(raw).filter(key => !['name', 'schedule', 'enabled', 'rules'].includes(key))) {
+    errors.push(`${label} "${name}": unknown property "${key}"`);
+  }
+
+  const rules: CleanupRule[] = [];
+  if (!Array.isArray(raw.rules) || raw.rules.length === 0) {
+    errors.push(`${label} "${name}": "rules" must be a non-empty array`);
+  } else {
+    raw.rules.forEach((entry, index) => {
+      const rule = validateRule(entry, `${label} "${name}" rules[${index}]`, errors);
+      if (rule) {
+        rules.push(rule);
+      }
+    });
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+  return {
+    policy: { name, schedule: raw.schedule as PolicySchedule, enabled: raw.enabled !== false, rules },
+    errors,
+  };
+}
+
+/**
+ * A policy is due when it never ran or its schedule interval has elapsed
+ */
+export function isPolicyDue(policy: CleanupPolicy, lastRun: string | undefined, now: number = Date.now()): boolean {
+  if (policy.enabled === false) {
+    return false;
+  }
+  if (!lastRun) {
+    return true;
+  }
+  return now - Date.parse(lastRun) >= SCHEDULE_DAYS[policy.schedule] * DAY_MS;
+}
+
+export function getNextRun(policy: CleanupPolicy, lastRun: string | undefined): string | undefined {
+  if (policy.enabled === false || !lastRun) {
+    return undefined;
+  }
+  return new Date(Date.parse(lastRun) + SCHEDULE_DAYS[policy.schedule] * DAY_MS).toISOString();
+}
+
+// Top-most directories matching one of the patterns
+function findMatchingDirectories(directories: CacheDirectory[], patterns: string[]): CacheDirectory[] {
+  const matches: CacheDirectory[] = [];
+  for (const dir of directories) {
+    if (dir.excluded) {
+      continue;
+    }
+    if (patterns.some(pattern => matchesPathPattern(dir.path, pattern))) {
+      matches.push(dir);
+    } else if (dir.children) {
+      matches.push(...findMatchingDirectories(dir.children, patterns));
+    }
+  }
+  return matches;
+}
+
+/**
+ * Directories a rule applies to in a scan, honouring the rule's tool, path
+ * and level filters. Directories containing anything outside the allowed
+ * levels are split into their children, so danger items are never selected.
+ */
+export function selectRuleTargets(
+  result: ScanResult,
+  rule: CleanupRule,
+  overrides: Record<string, SafetyLevel> = {}
+): CacheDirectory[] {
+  const levels = rule.levels && rule.levels.length > 0 ? rule.levels : ['safe' as const];
+  let scopes = result.directories.filter(dir =>
+    !dir.excluded && (!rule.tools || rule.tools.includes(dir.toolName || dir.name)));
+  if (rule.paths && rule.paths.length > 0) {
+    scopes = findMatchingDirectories(scopes, rule.paths);
+  }
+  return collectDirectoriesAtLevel(scopes, levels, overrides);
+}
+
+function isInside(targetPath: string, parents: Set<string>): boolean {
+  for (const parent of parents) {
+    if (targetPath === parent || targetPath.startsWith(parent + path.sep)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Execute a policy against a scan. Rules without an age or size limit delete
+ * whole directories; otherwise only the selected files are removed.
+ */
+export async function runPolicy(
+  policy: CleanupPolicy,
+  result: ScanResult,
+  options: {
+    overrides?: Record<string, SafetyLevel>;
+    deleteOptions?: DeleteOptions;
+    trigger?: PolicyRun['trigger'];
+    timestamp?: 'mtime' | 'atime';
+    now?: number;
+  } = {}
+): Promise<PolicyRun> {
+  const now = options.now ?? Date.now();
+  const batchId = options.deleteOptions?.batchId || createBatchId();
+  const deleteOptions: DeleteOptions = { ...options.deleteOptions, batchId };
+  const actions: PolicyActionResult[] = [];
+  // Directories already removed whole by an earlier rule
+  const removed = new Set<string>();
+
+  const overrides = options.overrides || {};
+
+  for (const rule of policy.rules) {
+    for (const target of selectRuleTargets(result, rule, overrides)) {
+      if (isInside(target.path, removed)) {
+        continue;
+      }
+      const overridden = target.path in overrides;
+      const safetyLevel = overrides[target.path] || target.safetyLevel;
+
+      if (rule.olderThanDays === undefined && rule.maxSizeMB === undefined) {
+        const deleted = await deleteDirectory(target.path, deleteOptions);
+        if (deleted.success) {
+          removed.add(target.path);
+        }
+        actions.push({
+          path: target.path,
+          action: 'delete',
+          safetyLevel,
+          overridden,
+          success: deleted.success,
+          freedBytes: deleted.freedBytes,
+          error: deleted.error,
+        });
+        continue;
+      }
+
+      if (rule.olderThanDays !== undefined) {
+        const aged = await deleteOlderThan(
+          target.path,
+          { olderThanDays: rule.olderThanDays, timestamp: options.timestamp },
+          deleteOptions,
+          now
+        );
+        actions.push({
+          path: target.path,
+          action: 'olderThan',
+          safetyLevel,
+          overridden,
+          success: aged.success,
+          freedBytes: aged.freedBytes,
+          deletedFiles: aged.deletedFiles,
+          error: aged.error,
+        });
+      }
+
+      if (rule.maxSizeMB !== undefined) {
+        const trimmed = await trimToSize(
+          target.path,
+          { maxBytes: rule.maxSizeMB * 1024 * 1024, timestamp: options.timestamp },
+          deleteOptions
+        );
+        actions.push({
+          path: target.path,
+          action: 'capSize',
+          safetyLevel,
+          overridden,
+          success: trimmed.success,
+          freedBytes: trimmed.freedBytes,
+          deletedFiles: trimmed.deletedFiles,
+          error: trimmed.error,
+        });
+      }
+    }
+  }
+
+  return {
+    policy: policy.name,
+    trigger: options.trigger || 'manual',
+    startedAt: new Date(now).toISOString(),
+    finishedAt: new Date().toISOString(),
+    batchId,
+    totalFreed: actions.reduce((sum, action) => sum + action.freedBytes, 0),
+    actions,
+  };
+}
+
+/**
+ * Logged policy runs, newest first
+ */
+export function loadPolicyRuns(storageDir: string): PolicyRun[] {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(path.join(storageDir, RUN_LOG_FILE), 'utf8'));
+    if (Array.isArray(parsed.runs)) {
+      return parsed.runs;
+    }
+  } catch {
+    // Missing or unreadable log - start fresh
+  }
+  return [];
+}
+
+export function appendPolicyRun(storageDir: string, run: PolicyRun): PolicyRun[] {
+  const runs = [run, ...loadPolicyRuns(storageDir)].slice(0, MAX_LOGGED_RUNS);
+  fs.mkdirSync(storageDir, { recursive: true });
+  const logPath = path.join(storageDir, RUN_LOG_FILE);
+  fs.writeFileSync(logPath + '.tmp', JSON.stringify({ version: 1, runs }, null, 2));
+  fs.renameSync(logPath + '.tmp', logPath);
+  return runs;
+}
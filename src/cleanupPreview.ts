@@ -0,0 +1,200 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SafetyLevel } from './safetyLevels';
+
+/**
+ * Cleanup Preview (dry run)
+ * Walks the paths selected for deletion and reports what would be removed,
+ * without modifying anything on disk.
+ */
+
+export interface PreviewFile {
+  path: string;
+  size: number;
+  mtime: string;
+}
+
+export interface PreviewItem {
+  path: string;
+  exists: boolean;
+  safetyLevel: SafetyLevel;
+  safetyRule: string;
+  fileCount: number;
+  directoryCount: number;
+  totalBytes: number;
+  oldestMtime?: string;
+  newestMtime?: string;
+  largestFiles: PreviewFile[];
+  error?: string;
+}
+
+export interface CleanupPreview {
+  generatedAt: string;
+  items: PreviewItem[];
+  totalFiles: number;
+  totalBytes: number;
+  levelCounts: Record<SafetyLevel, number>;
+}
+
+export interface PreviewClassification {
+  level: SafetyLevel;
+  rule: string;
+}
+
+export interface PreviewOptions {
+  // Number of largest files listed per item
+  largestFileCount?: number;
+  signal?: AbortSignal;
+}
+
+interface WalkStats {
+  fileCount: number;
+  directoryCount: number;
+  totalBytes: number;
+  oldestMtime: number;
+  newestMtime: number;
+  largestFiles: PreviewFile[];
+}
+
+const DEFAULT_LARGEST_FILE_COUNT = 5;
+
+// Keep the N largest files, sorted by size descending
+function trackLargestFile(largest: PreviewFile[], file: PreviewFile, limit: number): void {
+  if (largest.length >= limit && file.size <= largest[largest.length - 1].size) {
+    return;
+  }
+  largest.push(file);
+  largest.sort((a, b) => b.size - a.size);
+  if (largest.length > limit) {
+    largest.pop();
+  }
+}
+
+function recordFile(stats: WalkStats, filePath: string, fileStats: fs.Stats, limit: number): void {
+  stats.fileCount++;
+  stats.totalBytes += fileStats.size;
+  stats.oldestMtime = Math.min(stats.oldestMtime, fileStats.mtimeMs);
+  stats.newestMtime = Math.max(stats.newestMtime, fileStats.mtimeMs);
+  trackLargestFile(stats.largestFiles, {
+    path: filePath,
+    size: fileStats.size,
+    mtime: fileStats.mtime.toISOString(),
+  }, limit);
+}
+
+// Symlinks are counted as entries but never followed, matching what deletion removes
+async function walk(dirPath: string, stats: WalkStats, options: PreviewOptions, limit: number): Promise<void> {
+  if (options.signal?.aborted) {
+    throw new Error('Preview cancelled');
+  }
+
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
+  } catch {
+    // Skip directories we can't access
+    return;
+  }
+
+  for (const entry of entries) {
+    const entryPath = path.join(dirPath, entry.name);
+    if (entry.isDirectory()) {
+      stats.directoryCount++;
+      await walk(entryPath, stats, options, limit);
+      continue;
+    }
+    try {
+      recordFile(stats, entryPath, await fs.promises.lstat(entryPath), limit);
+    } catch {
+      // Skip files we can't access
+    }
+  }
+}
+
+// Drop paths whose ancestor is also selected so nothing is counted twice
+export function getTopLevelPaths(paths: string[]): string[] {
+  return paths.filter(p => !paths.some(other => other !== p && p.startsWith(other + path.sep)));
+}
+
+async function previewPath(
+  targetPath: string,
+  classification: PreviewClassification,
+  options: PreviewOptions,
+  limit: number
+): Promise<PreviewItem> {
+  const item: PreviewItem = {
+    path: targetPath,
+    exists: false,
+    safetyLevel: classification.level,
+    safetyRule: classification.rule,
+    fileCount: 0,
+    directoryCount: 0,
+    totalBytes: 0,
+    largestFiles: [],
+  };
+
+  let rootStats: fs.Stats;
+  try {
+    rootStats = await fs.promises.lstat(targetPath);
+  } catch (error) {
+    item.error = error instanceof Error ? error.message : 'Unknown error';
+    return item;
+  }
+  item.exists = true;
+
+  const stats: WalkStats = {
+    fileCount: 0,
+    directoryCount: 0,
+    totalBytes: 0,
+    oldestMtime: Infinity,
+    newestMtime: -Infinity,
+    largestFiles: [],
+  };
+
+  if (rootStats.isDirectory()) {
+    await walk(targetPath, stats, options, limit);
+  } else {
+    recordFile(stats, targetPath, rootStats, limit);
+  }
+
+  item.fileCount = stats.fileCount;
+  item.directoryCount = stats.directoryCount;
+  item.totalBytes = stats.totalBytes;
+  item.largestFiles = stats.largestFiles;
+  if (stats.fileCount > 0) {
+    item.oldestMtime = new Date(stats.oldestMtime).toISOString();
+    item.newestMtime = new Date(stats.newestMtime).toISOString();
+  }
+
+  return item;
+}
+
+/**
+ * Build a dry-run report for the given paths.
+ * Nested selections are folded into their top-most selected ancestor.
+ */
+export async function previewCleanup(
+  paths: string[],
+  classify: (targetPath: string) => PreviewClassification,
+  options: PreviewOptions = {}
+): Promise<CleanupPreview> {
+  const limit = options.largestFileCount ?? DEFAULT_LARGEST_FILE_COUNT;
+  const items: PreviewItem[] = [];
+  const levelCounts: Record<SafetyLevel, number> = { safe: 0, caution: 0, danger: 0 };
+
+  for (const targetPath of getTopLevelPaths(paths)) {
+    const item = await previewPath(targetPath, classify(targetPath), options, limit);
+    items.push(item);
+    levelCounts[item.safetyLevel]++;
+  }
+
+  items.sort((a, b) => b.totalBytes - a.totalBytes);
+
+  return {
+    generatedAt: new Date().toISOString(),
+    items,
+    totalFiles: items.reduce((sum, item) => sum + item.fileCount, 0),
+    totalBytes: items.reduce((sum, item) => sum + item.totalBytes, 0),
+    levelCounts,
+  };
+}
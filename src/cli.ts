@@ -0,0 +1,387 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as readline from 'readline';
+import { parseArgs } from 'util';
+import { scanAllCaches, updateScanOptions, collectDirectoriesAtLevel, CacheDirectory, ScanResult } from './cacheScanner';
+import { deleteMultiple, formatSize } from './cacheDeleter';
+import { DeleteMode } from './quarantine';
+import { getXdgDirectory } from './platformPaths';
+import { SafetyLevel } from './safetyLevels';
+import { getToolSizes } from './sizeThresholds';
+import { appendAuditEntries } from './auditLog';
+import { getAllowedRoots } from './pathGuard';
+import { SafetyRule, setSafetyRules, validateSafetyRules } from './safetyRules';
+import { getPolicyFilePaths, getPolicyLocks, loadTeamPolicy } from './teamPolicy';
+import { setTeamLocks, setUserLocks } from './pathLocks';
+import { loadCustomSignatureSettings, setCustomSignatures } from './aiToolSignatures';
+import { SharedSettings, readSharedSettings } from './sharedSettings';
+
+/**
+ * Command-line interface
+ * Scans and cleans AI tool caches without VS Code, using the same scanner,
+ * signatures and deleter as the extension, and the safety levels, rules,
+ * custom signatures and locks the extension shares (see sharedSettings):
+ *   ai-cache-cleaner scan | list | clean [options]
+ */
+
+export type CliCommand = 'scan' | 'list' | 'clean' | 'help';
+
+export interface CliOptions {
+  command: CliCommand;
+  json: boolean;
+  // list: only show this level; clean: highest level to delete
+  level?: SafetyLevel;
+  dryRun: boolean;
+  yes: boolean;
+  mode: DeleteMode;
+  quarantineDir: string;
+  exclude: string[];
+  // Team policy files to read besides the one in the home directory
+  policyFiles: string[];
+  // clean: also delete data of tools that are running
+  ignoreRunning: boolean;
+}
+
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+const USAGE = `Usage: ai-cache-cleaner <command> [options]
+
+Commands:
+  scan                 Show the total cache size per AI tool
+  list                 List cache directories with their safety level
+  clean                Delete directories up to a safety level
+
+Options:
+  -l, --level <level>  list: only this level; clean: safe (default) or caution
+  -n, --dry-run        Show what clean would delete without deleting
+  -y, --yes            Do not ask for confirmation
+      --mode <mode>    quarantine (default), trash or permanent
+      --quarantine-dir <dir>
+                       Where quarantined items go (default: the extension's quarantine)
+      --exclude <glob> Skip matching paths; may be repeated
+      --policy <file>  Also apply this team policy file; may be repeated
+      --ignore-running
+                       clean: also delete data of AI tools that are running
+      --json           Print machine-readable JSON
+  -h, --help           Show this help`;
+
+const COMMANDS: CliCommand[] = ['scan', 'list', 'clean', 'help'];
+const LEVELS: SafetyLevel[] = ['safe', 'caution', 'danger'];
+const MODES: DeleteMode[] = ['quarantine', 'trash', 'permanent'];
+const EXTENSION_ID = 'lidegejinghk.ai-cache-cleaner';
+
+/**
+ * The extension's global storage in the VS Code user data directory. The CLI
+ * shares its quarantine and audit log, so a cleanup made here shows up in the
+ * dashboard and can be undone there.
+ */
+export function getExtensionStorageDir(platform: NodeJS.Platform = process.platform): string {
+  let userDataDir: string;
+  if (platform === 'darwin') {
+    userDataDir = path.join(os.homedir(), 'Library', 'Application Support', 'Code');
+  } else if (platform === 'win32') {
+    userDataDir = path.join(process.env.APPDATA || path.join(os.homedir(), 'AppData', 'Roaming'), 'Code');
+  } else {
+    userDataDir = path.join(getXdgDirectory('XDG_CONFIG_HOME'), 'Code');
+  }
+  return path.join(userDataDir, 'User', 'globalStorage', EXTENSION_ID);
+}
+
+export function getDefaultQuarantineDir(platform: NodeJS.Platform = process.platform): string {
+  return path.join(getExtensionStorageDir(platform), 'quarantine');
+}
+
+export function parseCliArgs(argv: string[]): CliOptions {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        json: { type: 'boolean' },
+        level: { type: 'string', short: 'l' },
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        'dry-run': { type: 'boolean', short: 'n' },
+        yes: { type: 'boolean', short: 'y' },
+        mode: { type: 'string' },
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        'quarantine-dir': { type: 'string' },
+        exclude: { type: 'string', multiple: true },
+        policy: { type: 'string', multiple: true },
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        'ignore-running': { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (error) {
+    throw new CliUsageError(error instanceof Error ? error.message : String(error));
+  }
+
+  const { values, positionals } = parsed;
+  if (positionals.length > 1) {
+    throw new CliUsageError(`unexpected argument "${positionals[1]}"`);
+  }
+
+  const command = values.help ? 'help' : (positionals[0] || 'help');
+  if (!COMMANDS.includes(command as CliCommand)) {
+    throw new CliUsageError(`unknown command "${command}"`);
+  }
+  if (values.level !== undefined && !LEVELS.includes(values.level as SafetyLevel)) {
+    throw new CliUsageError(`--level must be one of ${LEVELS.join(', ')}`);
+  }
+  if (values.mode !== undefined && !MODES.includes(values.mode as DeleteMode)) {
+    throw new CliUsageError(`--mode must be one of ${MODES.join(', ')}`);
+  }
+  if (command === 'clean' && values.level === 'danger') {
+    throw new CliUsageError('danger items can only be deleted from the dashboard');
+  }
+
+  return {
+    command: command as CliCommand,
+    json: values.json === true,
+    level: values.level as SafetyLevel | undefined,
+    dryRun: values['dry-run'] === true,
+    yes: values.yes === true,
+    mode: (values.mode as DeleteMode | undefined) || 'quarantine',
+    quarantineDir: values['quarantine-dir'] ? path.resolve(values['quarantine-dir']) : getDefaultQuarantineDir(),
+    exclude: values.exclude || [],
+    policyFiles: (values.policy || []).map(file => path.resolve(file)),
+    ignoreRunning: values['ignore-running'] === true,
+  };
+}
+
+/**
+ * Directories clean would delete: everything at or below the given level,
+ * splitting directories that contain anything riskier. Safety level
+ * overrides from the extension are keyed by path.
+ */
+export function getCleanTargets(
+  result: ScanResult,
+  level: 'safe' | 'caution' = 'safe',
+  overrides: Record<string, SafetyLevel> = {}
+): CacheDirectory[] {
+  return collectDirectoriesAtLevel(result.directories, level === 'caution' ? ['safe', 'caution'] : 'safe', overrides);
+}
+
+/**
+ * Use the extension's custom signatures, safety rules (after the team
+ * policy's), locks and scan settings. Returns the problems found in them.
+ */
+export function applySharedSettings(settings: SharedSettings | undefined, teamRules: SafetyRule[], exclude: string[]): string[] {
+  const signatures = loadCustomSignatureSettings(settings?.customSignatures || [], settings?.signatureFiles || []);
+  setCustomSignatures(signatures.definitions);
+
+  const rules = validateSafetyRules(settings?.safetyRules || []);
+  setSafetyRules([...rules.rules, ...teamRules]);
+
+  setUserLocks(settings?.lockedPaths || [], settings?.unlockedPaths || []);
+  updateScanOptions({
+    defaultSafetyLevel: settings?.defaultSafetyLevel,
+    excludePatterns: [...(settings?.excludePatterns || []), ...exclude]
+  });
+
+  return [...signatures.errors, ...rules.errors];
+}
+
+function printTable(rows: string[][]): void {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+  for (const row of rows) {
+    console.log(row.map((cell, column) => column === row.length - 1 ? cell : cell.padEnd(widths[column])).join('  '));
+  }
+}
+
+function printScan(result: ScanResult, overrides: Record<string, SafetyLevel>, json: boolean): void {
+  const toolSizes = getToolSizes(result);
+  const safeSize = getCleanTargets(result, 'safe', overrides).reduce((sum, dir) => sum + dir.size, 0);
+
+  if (json) {
+    console.log(JSON.stringify({ ...result, toolSizes, safeSize }, null, 2));
+    return;
+  }
+
+  const rows = Object.entries(toolSizes)
+    .sort((a, b) => b[1] - a[1])
+    .map(([toolName, size]) => [toolName, formatSize(size)]);
+  if (rows.length > 0) {
+    printTable(rows);
+    console.log('');
+  }
+  console.log(`Total: ${result.totalSizeFormatted} (${formatSize(result.totalDiskUsage || 0)} on disk), ` +
+    `safe to clean: ${formatSize(safeSize)}`);
+}
+
+function printList(result: ScanResult, overrides: Record<string, SafetyLevel>, level: SafetyLevel | undefined, json: boolean): void {
+  const entries: Array<{ tool: string; path: string; level: SafetyLevel; size: number; rule?: string }> = [];
+  for (const root of result.directories.filter(dir => !dir.excluded)) {
+    const toolName = root.toolName || root.name;
+    for (const dir of [root, ...(root.children || []).filter(child => !child.excluded)]) {
+      const dirLevel = overrides[dir.path] || dir.safetyLevel;
+      if (!level || dirLevel === level) {
+        const rule = overrides[dir.path] ? 'User override' : dir.safetyRule;
+        entries.push({ tool: toolName, path: dir.path, level: dirLevel, size: dir.size, rule });
+      }
+    }
+  }
+
+  if (json) {
+    console.log(JSON.stringify(entries, null, 2));
+  } else if (entries.length === 0) {
+    console.log('No cache directories found');
+  } else {
+    printTable(entries.map(entry => [entry.level, formatSize(entry.size), entry.tool, entry.path]));
+  }
+}
+
+function askConfirmation(question: string): Promise<boolean> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stderr });
+  return new Promise(resolve => {
+    rl.question(`${question} [y/N] `, answer => {
+      rl.close();
+      resolve(/^y(es)?$/i.test(answer.trim()));
+    });
+  });
+}
+
+async function runClean(result: ScanResult, overrides: Record<string, SafetyLevel>, options: CliOptions): Promise<number> {
+  const targets = getCleanTargets(result, options.level === 'caution' ? 'caution' : 'safe', overrides);
+  const levelOf = (dir: CacheDirectory): SafetyLevel => overrides[dir.path] || dir.safetyLevel;
+  const totalSize = targets.reduce((sum, dir) => sum + dir.size, 0);
+
+  if (options.dryRun || targets.length === 0) {
+    if (options.json) {
+      console.log(JSON.stringify({ dryRun: options.dryRun, totalSize, targets: targets.map(dir => ({ path: dir.path, level: levelOf(dir), size: dir.size })) }, null, 2));
+    } else if (targets.length === 0) {
+      console.log('Nothing to clean');
+    } else {
+      printTable(targets.map(dir => [levelOf(dir), dir.sizeFormatted, dir.path]));
+      console.log(`\nWould delete ${targets.length} item(s), ${formatSize(totalSize)}`);
+    }
+    return 0;
+  }
+
+  if (!options.yes) {
+    if (!process.stdin.isTTY) {
+      console.error('ai-cache-cleaner: refusing to delete without --yes when not run interactively');
+      return 2;
+    }
+    printTable(targets.map(dir => [levelOf(dir), dir.sizeFormatted, dir.path]));
+    if (!await askConfirmation(`Delete ${targets.length} item(s) (${formatSize(totalSize)})?`)) {
+      console.error('Cancelled');
+      return 1;
+    }
+  }
+
+  const deleted = await deleteMultiple(targets.map(dir => dir.path), {
+    mode: options.mode,
+    quarantineDir: options.quarantineDir,
+    allowedRoots: getAllowedRoots(),
+    blockRunningTools: !options.ignoreRunning,
+  });
+
+  const timestamp = new Date().toISOString();
+  try {
+    appendAuditEntries(getExtensionStorageDir(), deleted.results.map((r, index) => ({
+      timestamp,
+      path: r.path,
+      safetyLevel: levelOf(targets[index]),
+      overridden: targets[index].path in overrides,
+      action: 'delete',
+      mode: options.mode,
+      trigger: 'cli',
+      success: r.success,
+      freedBytes: r.freedBytes,
+      error: r.error,
+      batchId: deleted.batchId,
+    })));
+  } catch (error) {
+    console.error(`ai-cache-cleaner: could not write the audit log: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify({ dryRun: false, ...deleted }, null, 2));
+  } else {
+    for (const failure of deleted.results.filter(r => !r.success)) {
+      console.error(`Failed: ${failure.path}: ${failure.error}`);
+    }
+    const action = options.mode === 'permanent' ? 'Deleted' : `Moved to ${options.mode === 'trash' ? 'the Trash' : 'quarantine'}:`;
+    console.log(`${action} ${deleted.successCount} item(s), ${formatSize(deleted.totalFreed)}` +
+      (deleted.failCount > 0 ? `, ${deleted.failCount} failed` : ''));
+  }
+  return deleted.failCount > 0 ? 1 : 0;
+}
+
+/**
+ * Run the CLI and return its exit code: 0 on success, 1 when something
+ * failed, 2 for usage errors
+ */
+export async function main(argv: string[] = process.argv.slice(2)): Promise<number> {
+  let options: CliOptions;
+  try {
+    options = parseCliArgs(argv);
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      console.error(`ai-cache-cleaner: ${error.message}\n\n${USAGE}`);
+      return 2;
+    }
+    throw error;
+  }
+
+  if (options.command === 'help') {
+    console.log(USAGE);
+    return 0;
+  }
+
+  // The extension shares what the user decided in VS Code; without it, cleaning could delete what they kept
+  const storageDir = getExtensionStorageDir();
+  const shared = readSharedSettings(storageDir);
+  for (const error of shared.errors) {
+    console.error(`ai-cache-cleaner: ignoring invalid extension settings: ${error}`);
+  }
+  if (!shared.settings && fs.existsSync(storageDir) && options.command === 'clean' && !options.dryRun) {
+    console.error('ai-cache-cleaner: the extension\'s safety levels and rules have not been shared yet; ' +
+      'open VS Code once with AI Cache Cleaner installed, then run clean again');
+    return 2;
+  }
+
+  // Only the home directory's policy file applies unless others are named: a repository's file
+  // could mark anything safe, and the CLI cannot tell whether the repository is trusted
+  const teamPolicy = loadTeamPolicy([...options.policyFiles, ...getPolicyFilePaths([])]);
+  for (const error of teamPolicy.errors) {
+    console.error(`ai-cache-cleaner: ignoring invalid team policy: ${error}`);
+  }
+  setTeamLocks(getPolicyLocks(teamPolicy.policy));
+  for (const error of applySharedSettings(shared.settings, teamPolicy.policy.safetyRules, options.exclude)) {
+    console.error(`ai-cache-cleaner: ignoring invalid setting: ${error}`);
+  }
+
+  const overrides = shared.settings?.safetyOverrides || {};
+  const result = await scanAllCaches();
+
+  switch (options.command) {
+    case 'scan':
+      printScan(result, overrides, options.json);
+      return 0;
+    case 'list':
+      printList(result, overrides, options.level, options.json);
+      return 0;
+    case 'clean':
+      return runClean(result, overrides, options);
+  }
+}
+
+if (require.main === module) {
+  main().then(
+    code => { process.exitCode = code; },
+    error => {
+      console.error(`ai-cache-cleaner: ${error instanceof Error ? error.message : String(error)}`);
+      process.exitCode = 1;
+    }
+  );
+}
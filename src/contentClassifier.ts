@@ -0,0 +1,228 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SafetyLevel } from './safetyLevels';
+
+/**
+ * Content Classifier
+ * Proposes a safety level for a directory no rule or signature classifies,
+ * from a sample of what it holds: credential-like file names, SQLite
+ * databases, .jsonl transcripts and top-level configuration files point to
+ * data worth keeping; logs (rotated or not) and media files to data that can
+ * go. The proposal is only a suggestion the user may accept as an override.
+ */
+
+export interface ContentSample {
+  fileCount: number;
+  // Stopped at the file limit before seeing everything
+  truncated: boolean;
+  // Subdirectories below the depth limit, which were not looked into
+  skippedDirectories: number;
+  // Directories that could not be read, the sampled one included
+  unreadableDirectories: number;
+  // Symlinks, sockets, FIFOs and other entries that are neither files nor directories
+  skippedEntries: number;
+  // File count per lower-case extension ('' for none)
+  extensions: Record<string, number>;
+  credentialFiles: string[];
+  // JSON, YAML or TOML files directly in the directory
+  configFiles: string[];
+  databases: string[];
+  transcripts: string[];
+  logFiles: number;
+  // Log files left behind by rotation, e.g. "app.log.1" or "app-2024-01-31.log"
+  rotatedLogs: number;
+  mediaFiles: number;
+}
+
+export interface ContentSuggestion {
+  level: SafetyLevel;
+  // Why, riskiest finding first
+  reasons: string[];
+}
+
+export interface SampleLimits {
+  maxFiles: number;
+  maxDepth: number;
+}
+
+const DEFAULT_LIMITS: SampleLimits = { maxFiles: 500, maxDepth: 4 };
+
+// Share of logs and media above which a directory is proposed as safe
+const DISPOSABLE_SHARE = 0.8;
+
+// Names listed in a reason before "and N more"
+const MAX_LISTED = 3;
+
+const CREDENTIAL_NAME = /credential|secret|password|passwd|api[-_]?key|token(s)?([._-]|$)|cookies?([._-]|$)|(^|[._-])o?auth([._-]|$)|^id_(rsa|dsa|ecdsa|ed25519)|\.(pem|key|p12|pfx|keychain)$/i;
+const DATABASE_EXTENSIONS = ['.db', '.db3', '.sqlite', '.sqlite3', '.vscdb'];
+const CONFIG_EXTENSIONS = ['.json', '.yaml', '.yml', '.toml'];
+const MEDIA_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.gif', '.webp', '.bmp', '.ico', '.svg', '.mp3', '.wav', '.ogg', '.mp4', '.mov', '.webm'];
+const ROTATED_LOG = /\.log\.\d+(\.gz)?$|\.log\.gz$|\.\d+\.log$|[-_.]\d{4}-?\d{2}-?\d{2}[^/]*\.log$/i;
+const SQLITE_HEADER = 'SQLite format 3\0';
+
+async function hasSqliteHeader(filePath: string): Promise<boolean> {
+  let handle: fs.promises.FileHandle | undefined;
+  try {
+    handle = await fs.promises.open(filePath, 'r');
+    const buffer = Buffer.alloc(SQLITE_HEADER.length);
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+    return bytesRead === buffer.length && buffer.toString('latin1') === SQLITE_HEADER;
+  } catch {
+    return false;
+  } finally {
+    await handle?.close();
+  }
+}
+
+/**
+ * Look at up to maxFiles files, maxDepth levels deep. Symlinks are not
+ * followed, and hidden files are included since credentials often are.
+ */
+export async function sampleDirectory(dirPath: string, limits: SampleLimits = DEFAULT_LIMITS): Promise<ContentSample> {
+  const sample: ContentSample = {
+    fileCount: 0,
+    truncated: false,
+    skippedDirectories: 0,
+    unreadableDirectories: 0,
+    skippedEntries: 0,
+    extensions: {},
+    credentialFiles: [],
+    configFiles: [],
+    databases: [],
+    transcripts: [],
+    logFiles: 0,
+    rotatedLogs: 0,
+    mediaFiles: 0
+  };
+
+  const visit = async (currentPath: string, depth: number): Promise<void> => {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(currentPath, { withFileTypes: true });
+    } catch {
+      sample.unreadableDirectories++;
+      return;
+    }
+
+    for (const entry of entries) {
+      if (sample.fileCount >= limits.maxFiles) {
+        sample.truncated = true;
+        return;
+      }
+      const entryPath = path.join(currentPath, entry.name);
+      if (entry.isDirectory()) {
+        if (depth < limits.maxDepth) {
+          await visit(entryPath, depth + 1);
+        } else {
+          sample.skippedDirectories++;
+        }
+        continue;
+      }
+      if (!entry.isFile()) {
+        sample.skippedEntries++;
+        continue;
+      }
+
+      sample.fileCount++;
+      const relativePath = path.relative(dirPath, entryPath);
+      const extension = path.extname(entry.name).toLowerCase();
+      sample.extensions[extension] = (sample.extensions[extension] || 0) + 1;
+
+      if (CREDENTIAL_NAME.test(entry.name)) {
+        sample.credentialFiles.push(relativePath);
+      }
+      if (depth === 0 && CONFIG_EXTENSIONS.includes(extension)) {
+        sample.configFiles.push(relativePath);
+      }
+      if (DATABASE_EXTENSIONS.includes(extension) || (extension === '' && await hasSqliteHeader(entryPath))) {
+        sample.databases.push(relativePath);
+      }
+      if (extension === '.jsonl') {
+        sample.transcripts.push(relativePath);
+      }
+      if (ROTATED_LOG.test(entry.name)) {
+        sample.logFiles++;
+        sample.rotatedLogs++;
+      } else if (extension === '.log') {
+        sample.logFiles++;
+      }
+      if (MEDIA_EXTENSIONS.includes(extension)) {
+        sample.mediaFiles++;
+      }
+    }
+  };
+
+  await visit(dirPath, 0);
+  return sample;
+}
+
+function listNames(names: string[]): string {
+  const listed = names.slice(0, MAX_LISTED).join(', ');
+  return names.length > MAX_LISTED ? `${listed} and ${names.length - MAX_LISTED} more` : listed;
+}
+
+/**
+ * Proposed level for a sample: the riskiest finding decides, and a directory
+ * of mostly logs and media, or one that is truly empty, is proposed as safe.
+ * Undefined when the contents give no clear signal, and whenever safe would
+ * rest on a partial look (file limit, depth limit, unreadable folders or
+ * entries that are not files, such as symlinks).
+ */
+export function classifyContents(sample: ContentSample): ContentSuggestion | undefined {
+  const complete = !sample.truncated && sample.skippedDirectories === 0 && sample.unreadableDirectories === 0 &&
+    sample.skippedEntries === 0;
+  if (sample.fileCount === 0) {
+    return complete ? { level: 'safe', reasons: ['The directory holds no files'] } : undefined;
+  }
+
+  const reasons: string[] = [];
+  let level: SafetyLevel | undefined;
+
+  if (sample.credentialFiles.length > 0) {
+    level = 'danger';
+    reasons.push(`Credential-like files (${listNames(sample.credentialFiles)}) may hold sign-in tokens or keys`);
+  }
+  if (sample.databases.length > 0) {
+    level = level || 'caution';
+    reasons.push(`SQLite databases (${listNames(sample.databases)}) usually hold history or application state`);
+  }
+  if (sample.transcripts.length > 0) {
+    level = level || 'caution';
+    reasons.push(`.jsonl files (${listNames(sample.transcripts)}) look like conversation transcripts, which are not regenerated`);
+  }
+  if (sample.configFiles.length > 0) {
+    level = level || 'caution';
+    reasons.push(`Configuration files (${listNames(sample.configFiles)}) may hold settings`);
+  }
+
+  if (!level) {
+    const disposable = sample.logFiles + sample.mediaFiles;
+    if (disposable / sample.fileCount < DISPOSABLE_SHARE || !complete) {
+      return undefined;
+    }
+    level = 'safe';
+    if (sample.logFiles > 0) {
+      const rotated = sample.rotatedLogs > 0 ? `, ${sample.rotatedLogs} of them left by log rotation` : '';
+      reasons.push(`${sample.logFiles} of ${sample.fileCount} files are logs${rotated}`);
+    }
+    if (sample.mediaFiles > 0) {
+      reasons.push(`${sample.mediaFiles} of ${sample.fileCount} files are images or media, typically previews or downloads`);
+    }
+  }
+
+  if (sample.truncated) {
+    reasons.push(`Based on the first ${sample.fileCount} files`);
+  }
+  return { level, reasons };
+}
+
+/**
+ * The most common extensions of a sample, e.g. "120 .bin, 8 .json"
+ */
+export function summarizeExtensions(sample: ContentSample, count: number = MAX_LISTED): string {
+  return Object.entries(sample.extensions)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, count)
+    .map(([extension, files]) => `${files} ${extension || 'without extension'}`)
+    .join(', ');
+}
@@ -1,37 +1,334 @@
 import * as vscode from 'vscode';
-import { scanAllCaches, updateScanOptions } from './cacheScanner';
-import { deleteMultiple, formatSize } from './cacheDeleter';
-import { detectKnownAITools, searchDirectoriesSync } from './aiToolSignatures';
+import * as os from 'os';
+import {
+    scanAllCaches,
+    updateScanOptions,
+    collectDirectoriesAtLevel,
+    collectOrphanedProjects,
+    collectToolDirectories,
+    applyPathLocks,
+    UNKNOWN_DIRECTORY_RULE,
+    ScanCancelledError,
+    ScanResult,
+    CacheDirectory
+} from './cacheScanner';
+import { deleteMultiple, deleteOlderThan, formatSize, DeleteOptions, DeleteResult } from './cacheDeleter';
+import { getAllowedRoots } from './pathGuard';
+import {
+    RunningToolCheck,
+    detectToolActivity,
+    findActiveTool,
+    findActiveTools,
+    describeActivity
+} from './processDetector';
+import { previewCleanup, getTopLevelPaths, CleanupPreview, PreviewClassification } from './cleanupPreview';
+import { CacheTreeProvider } from './cacheTreeProvider';
+import { DeleteMode, createBatchId, listQuarantine, getLastBatch, restoreEntries, purgeExpired } from './quarantine';
+import { AuditEntry, AuditTrigger, appendAuditEntries, readAuditLog, formatAuditEntry } from './auditLog';
+import {
+    CleanupReport,
+    ReportFormat,
+    REPORT_EXTENSIONS,
+    createCleanupReport,
+    formatCleanupReport,
+    formatScanReport
+} from './reportExporter';
+import { ScanSnapshot, recordSnapshot, loadHistory, clearHistory, getFastestGrowing } from './scanHistory';
+import {
+    CleanupPolicy,
+    PolicyRun,
+    validatePolicy,
+    isPolicyDue,
+    getNextRun,
+    runPolicy,
+    loadPolicyRuns,
+    appendPolicyRun
+} from './cleanupPolicies';
+import {
+    evaluateThresholds,
+    getNewBreaches,
+    getToolSizesBySize,
+    megabytesToBytes,
+    SizeLimits,
+    ThresholdBreach,
+    ThresholdConfig,
+    ThresholdEvaluation
+} from './sizeThresholds';
+import {
+    SearchResult,
+    detectKnownAITools,
+    searchDirectories,
+    loadCustomSignatureSettings,
+    setCustomSignatures
+} from './aiToolSignatures';
 import { SAFETY_DEFINITIONS, SafetyLevel, getLevelChangeWarning } from './safetyLevels';
+import { setSafetyRules, validateSafetyRules } from './safetyRules';
+import {
+    PATH_LOCKS_KEY,
+    PathLock,
+    StoredLocks,
+    describeLock,
+    findLocks,
+    getActiveLocks,
+    getStoredLocks,
+    restoreStoredLocks,
+    setTeamLocks,
+    setUserLocks
+} from './pathLocks';
+import { escapeGlob, matchesPathPattern } from './pathMatcher';
+import { classifyContents, sampleDirectory, summarizeExtensions } from './contentClassifier';
+import { writeSharedSettings } from './sharedSettings';
+import {
+    OverrideImportMode,
+    applyOverrideImport,
+    createOverrideExport,
+    describeOverrideChange,
+    diffOverrides,
+    parseOverrideImport
+} from './overrideTransfer';
+import {
+    POLICY_FILE_NAME,
+    TeamPolicy,
+    createEmptyPolicy,
+    getPolicyFilePaths,
+    getPolicyLocks,
+    getPresetApprovalKey,
+    loadTeamPolicy,
+    mergeCleanupPresets
+} from './teamPolicy';
 
 let panel: vscode.WebviewPanel | undefined;
 let isSearching = false;
+let currentSearch: AbortController | undefined;
+let currentScan: AbortController | undefined;
+let currentDetection: AbortController | undefined;
+let lastScanResult: ScanResult | undefined;
+let lastPreview: CleanupPreview | undefined;
+let lastCleanup: CleanupReport | undefined;
+// Paths returned by the last search, and those the user added to the list
+let lastSearchPaths = new Set<string>();
+const addedSearchPaths = new Set<string>();
 let extensionContext: vscode.ExtensionContext;
+let statusBarItem: vscode.StatusBarItem | undefined;
+let backgroundScanTimer: NodeJS.Timeout | undefined;
+let isBackgroundScanning = false;
+// Breaches already notified, so alerts are only repeated when things get worse
+let reportedBreaches: ThresholdBreach[] = [];
+let policyTimer: NodeJS.Timeout | undefined;
+let isRunningPolicies = false;
+let reportedPolicyErrors = '';
+let outputChannel: vscode.OutputChannel | undefined;
+let cacheTree: CacheTreeProvider | undefined;
+// Merged policy files of the workspace and the home directory
+let teamPolicy: TeamPolicy = createEmptyPolicy();
 
 // Storage key for user safety level overrides
 const SAFETY_OVERRIDES_KEY = 'safetyLevelOverrides';
 
+// Storage key for the last run time of each cleanup policy
+const POLICY_LAST_RUN_KEY = 'cleanupPolicyLastRun';
+
+// Storage key for the workspace cleanup presets the user agreed to schedule
+const APPROVED_PRESETS_KEY = 'approvedCleanupPresets';
+
+// How often scheduled cleanup policies are checked
+const POLICY_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+// Audit log entries shown in the dashboard
+const AUDIT_VIEW_LIMIT = 200;
+
+// Level markers for Quick Pick items, matching the delete confirmation summary
+const LEVEL_MARKERS: Record<SafetyLevel, string> = { safe: '🟢', caution: '🟡', danger: '🔴' };
+
 // Get configuration and update scanner options
 function syncConfigToScanner() {
     const config = vscode.workspace.getConfiguration('aiCacheCleaner');
     updateScanOptions({
         defaultSafetyLevel: config.get<'safe' | 'caution' | 'danger'>('defaultSafetyLevel', 'caution'),
-        excludePatterns: config.get<string[]>('excludePatterns', [])
+        excludePatterns: getExcludePatterns(),
+        showExcluded: config.get<boolean>('showExcludedItems', false)
     });
 }
 
+// Load user-defined tool signatures from settings and signature files
+function loadCustomSignatures() {
+    const config = vscode.workspace.getConfiguration('aiCacheCleaner');
+    const { definitions, errors } = loadCustomSignatureSettings(
+        config.get<unknown[]>('customSignatures', []),
+        config.get<string[]>('signatureFiles', [])
+    );
+
+    setCustomSignatures(definitions);
+
+    if (errors.length > 0) {
+        console.warn('AI Cache Cleaner: invalid custom signatures\n' + errors.join('\n'));
+        vscode.window.showWarningMessage(
+            `AI Cache Cleaner: ${errors.length} problem(s) in custom signatures were ignored. ${errors[0]}`
+        );
+    }
+}
+
+// Load user-defined safety rules from settings
+function loadSafetyRules() {
+    const { rules, errors } = validateSafetyRules(
+        vscode.workspace.getConfiguration('aiCacheCleaner').get<unknown[]>('safetyRules', [])
+    );
+
+    // The user's own rules come first, so a policy file cannot overrule them
+    setSafetyRules([...rules, ...teamPolicy.safetyRules]);
+
+    if (errors.length > 0) {
+        console.warn('AI Cache Cleaner: invalid safety rules\n' + errors.join('\n'));
+        vscode.window.showWarningMessage(
+            `AI Cache Cleaner: ${errors.length} problem(s) in safety rules were ignored. ${errors[0]}`
+        );
+    }
+}
+
+// Read the policy files of the workspace folders and the home directory
+function loadTeamPolicyFiles() {
+    // A repository's policy file can mark directories safe, so it is only read in trusted workspaces
+    const folders = vscode.workspace.isTrusted
+        ? (vscode.workspace.workspaceFolders || []).map(folder => folder.uri.fsPath)
+        : [];
+    const result = loadTeamPolicy(getPolicyFilePaths(folders));
+    teamPolicy = result.policy;
+    setTeamLocks(getPolicyLocks(teamPolicy));
+
+    if (result.errors.length > 0) {
+        console.warn('AI Cache Cleaner: invalid team policy\n' + result.errors.join('\n'));
+        vscode.window.showWarningMessage(
+            `AI Cache Cleaner: ${result.errors.length} problem(s) in team policy files were ignored. ${result.errors[0]}`
+        );
+    }
+}
+
+// Apply edited policy files: reclassify the open dashboard and refresh its policies
+function reloadTeamPolicy() {
+    loadTeamPolicyFiles();
+    loadSafetyRules();
+    loadPathLocks();
+    refreshLocks();
+    if (panel) {
+        sendScanData(panel.webview);
+        sendPolicyRuns(panel.webview);
+    }
+}
+
+function getExcludePatterns(): string[] {
+    return vscode.workspace.getConfiguration('aiCacheCleaner').get<string[]>('excludePatterns', []);
+}
+
+// Copy the settings and stored choices that decide deletions to global storage, where the CLI reads them
+function syncSharedSettings() {
+    const config = vscode.workspace.getConfiguration('aiCacheCleaner');
+    const locks = getStoredLocks(extensionContext.globalState);
+    try {
+        writeSharedSettings(getStorageDir(), {
+            defaultSafetyLevel: config.get<SafetyLevel>('defaultSafetyLevel', 'caution'),
+            excludePatterns: getExcludePatterns(),
+            safetyOverrides: getSafetyOverrides(),
+            safetyRules: config.get<unknown[]>('safetyRules', []),
+            customSignatures: config.get<unknown[]>('customSignatures', []),
+            signatureFiles: config.get<string[]>('signatureFiles', []),
+            lockedPaths: locks.locked,
+            unlockedPaths: locks.unlocked
+        });
+    } catch (error) {
+        console.warn('AI Cache Cleaner: could not write the settings for the command-line tool', error);
+    }
+}
+
 export function activate(context: vscode.ExtensionContext) {
     console.log('AI Cache Cleaner is now active!');
     extensionContext = context;
 
     // Initialize scanner with user config
     syncConfigToScanner();
+    loadCustomSignatures();
+    loadTeamPolicyFiles();
+    loadSafetyRules();
+    // Before the startup cleanup policies and the first scan
+    loadPathLocks();
+    syncSharedSettings();
+
+    outputChannel = vscode.window.createOutputChannel('AI Cache Cleaner');
+    context.subscriptions.push(outputChannel);
+
+    // Drop quarantined items that outlived the retention period
+    purgeExpiredQuarantine();
+
+    setupStatusBar();
+    // Run cleanup policies that became due while VS Code was closed, then check hourly
+    runDuePolicies('startup');
+    policyTimer = setInterval(() => runDuePolicies('scheduled'), POLICY_CHECK_INTERVAL_MS);
+
+    context.subscriptions.push({
+        dispose: () => {
+            stopBackgroundScans();
+            statusBarItem?.dispose();
+            if (policyTimer) {
+                clearInterval(policyTimer);
+                policyTimer = undefined;
+            }
+        }
+    });
+
+    // Reload team policy files when they are edited, or when folders or trust change
+    const policyWatchers = [
+        vscode.workspace.createFileSystemWatcher(`**/${POLICY_FILE_NAME}`),
+        vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(vscode.Uri.file(os.homedir()), POLICY_FILE_NAME))
+    ];
+    for (const watcher of policyWatchers) {
+        context.subscriptions.push(
+            watcher,
+            watcher.onDidCreate(reloadTeamPolicy),
+            watcher.onDidChange(reloadTeamPolicy),
+            watcher.onDidDelete(reloadTeamPolicy)
+        );
+    }
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeWorkspaceFolders(reloadTeamPolicy),
+        vscode.workspace.onDidGrantWorkspaceTrust(reloadTeamPolicy)
+    );
 
     // Listen for config changes
     context.subscriptions.push(
         vscode.workspace.onDidChangeConfiguration(e => {
             if (e.affectsConfiguration('aiCacheCleaner')) {
                 syncConfigToScanner();
+                syncSharedSettings();
+
+                // Exclusions and signatures change what is scanned, so refresh an open dashboard right away
+                const affectsExclusions = e.affectsConfiguration('aiCacheCleaner.excludePatterns') ||
+                    e.affectsConfiguration('aiCacheCleaner.showExcludedItems');
+                const affectsSignatures = e.affectsConfiguration('aiCacheCleaner.customSignatures') ||
+                    e.affectsConfiguration('aiCacheCleaner.signatureFiles');
+                if (affectsSignatures) {
+                    loadCustomSignatures();
+                }
+                const affectsRules = e.affectsConfiguration('aiCacheCleaner.safetyRules');
+                if (affectsRules) {
+                    loadSafetyRules();
+                }
+
+                if (panel && (affectsExclusions || affectsSignatures || affectsRules)) {
+                    sendScanData(panel.webview);
+                    sendDetectedTools(panel.webview);
+                }
+
+                if (panel && e.affectsConfiguration('aiCacheCleaner.cleanupPolicies')) {
+                    sendPolicyRuns(panel.webview);
+                }
+
+                if (e.affectsConfiguration('aiCacheCleaner.statusBarEnabled') ||
+                    e.affectsConfiguration('aiCacheCleaner.backgroundScanIntervalMinutes')) {
+                    setupStatusBar();
+                } else if (lastScanResult && (e.affectsConfiguration('aiCacheCleaner.warningThresholdMB') ||
+                    e.affectsConfiguration('aiCacheCleaner.criticalThresholdMB') ||
+                    e.affectsConfiguration('aiCacheCleaner.toolThresholds'))) {
+                    updateStatusBar(lastScanResult);
+                }
             }
         })
     );
@@ -61,6 +358,10 @@ export function activate(context: vscode.ExtensionContext) {
             sendDetectedTools(panel.webview);
             sendSafetyDefinitions(panel.webview);
             sendSafetyOverrides(panel.webview);
+            sendQuarantine(panel.webview);
+            sendScanHistory(panel.webview, loadHistory(getStorageDir()));
+            sendPolicyRuns(panel.webview);
+            sendAuditLog(panel.webview);
 
             // Handle messages from webview
             panel.webview.onDidReceiveMessage(
@@ -74,12 +375,40 @@ export function activate(context: vscode.ExtensionContext) {
                         case 'delete':
                             await handleDelete(message.paths, message.safetyLevels || {}, panel!.webview);
                             return;
+                        case 'ageCleanup':
+                            await handleAgeCleanup(message.path, message.dirName, panel!.webview);
+                            return;
+                        case 'preview':
+                            await handlePreview(message.paths, message.safetyLevels || {}, panel!.webview);
+                            return;
+                        case 'exportPreview':
+                            await handleExportPreview();
+                            return;
+                        case 'exportReport':
+                            await exportReport();
+                            return;
+                        case 'cleanOrphanedProjects':
+                            await cleanOrphanedProjects(lastScanResult);
+                            return;
                         case 'search':
                             await handleSearch(message.query, panel!.webview);
                             return;
                         case 'cancelSearch':
+                            currentSearch?.abort();
                             isSearching = false;
                             return;
+                        case 'addSearchResults':
+                            // Only paths the search actually returned become deletable
+                            for (const p of message.paths || []) {
+                                if (lastSearchPaths.has(p)) {
+                                    addedSearchPaths.add(p);
+                                }
+                            }
+                            return;
+                        case 'cancelScan':
+                            currentScan?.abort();
+                            currentDetection?.abort();
+                            return;
                         case 'changeSafetyLevel':
                             await handleSafetyLevelChange(
                                 message.path,
@@ -92,9 +421,37 @@ export function activate(context: vscode.ExtensionContext) {
                         case 'resetSafetyLevel':
                             await handleResetSafetyLevel(message.path, panel!.webview);
                             return;
+                        case 'suggestSafetyLevel':
+                            await suggestSafetyLevel(message.path, message.dirName);
+                            return;
                         case 'resetAllSafetyLevels':
                             await handleResetAllSafetyLevels(panel!.webview);
                             return;
+                        case 'exportSafetyOverrides':
+                            await exportSafetyOverrides();
+                            return;
+                        case 'importSafetyOverrides':
+                            await importSafetyOverrides();
+                            return;
+                        case 'undoLastCleanup':
+                            await handleUndoLastCleanup(panel!.webview);
+                            return;
+                        case 'clearHistory':
+                            clearHistory(getStorageDir());
+                            sendScanHistory(panel!.webview, []);
+                            return;
+                        case 'runPolicy':
+                            await runPolicyNow(message.name);
+                            return;
+                        case 'setPresetApproval':
+                            await setPresetApproval(message.name, message.approved);
+                            return;
+                        case 'showAuditOutput':
+                            outputChannel?.show();
+                            return;
+                        case 'restoreQuarantined':
+                            await handleRestore(message.ids, panel!.webview);
+                            return;
                     }
                 },
                 undefined,
@@ -105,6 +462,9 @@ export function activate(context: vscode.ExtensionContext) {
                 () => {
                     panel = undefined;
                     isSearching = false;
+                    currentSearch?.abort();
+                    currentScan?.abort();
+                    currentDetection?.abort();
                 },
                 null,
                 context.subscriptions
@@ -114,107 +474,105 @@ export function activate(context: vscode.ExtensionContext) {
 
     context.subscriptions.push(command);
 
-    // Register the sidebar webview provider
-    const sidebarProvider = new AICacheCleanerViewProvider(context);
+    // Headless commands for the palette and keybindings
     context.subscriptions.push(
-        vscode.window.registerWebviewViewProvider('aiCacheCleanerView', sidebarProvider)
+        vscode.commands.registerCommand('ai-cache-cleaner.cleanSafe', () => cleanSafeItems()),
+        vscode.commands.registerCommand('ai-cache-cleaner.cleanTool', cleanToolCaches),
+        vscode.commands.registerCommand('ai-cache-cleaner.showSize', showCacheSize),
+        vscode.commands.registerCommand('ai-cache-cleaner.undoLastCleanup', () => handleUndoLastCleanup(panel?.webview)),
+        vscode.commands.registerCommand('ai-cache-cleaner.exportReport', exportReport),
+        vscode.commands.registerCommand('ai-cache-cleaner.cleanOrphanedProjects', () => cleanOrphanedProjects()),
+        vscode.commands.registerCommand('ai-cache-cleaner.exportSafetyOverrides', exportSafetyOverrides),
+        vscode.commands.registerCommand('ai-cache-cleaner.importSafetyOverrides', importSafetyOverrides),
+        vscode.commands.registerCommand('ai-cache-cleaner.lockPath', (item?: CacheDirectory) => lockPath(item?.path)),
+        vscode.commands.registerCommand('ai-cache-cleaner.unlockPath', (item?: CacheDirectory) => unlockPath(item?.path))
     );
-}
-
-// Sidebar WebviewViewProvider
-class AICacheCleanerViewProvider implements vscode.WebviewViewProvider {
-    private _view?: vscode.WebviewView;
-    private _context: vscode.ExtensionContext;
 
-    constructor(context: vscode.ExtensionContext) {
-        this._context = context;
-    }
+    // Sidebar tree, fed by the same scans as the dashboard and the status bar
+    cacheTree = new CacheTreeProvider(getSafetyOverrides);
+    const cacheTreeView = vscode.window.createTreeView('aiCacheCleanerView', {
+        treeDataProvider: cacheTree,
+        canSelectMany: true,
+        showCollapseAll: true
+    });
+    // Tree commands get the clicked item and, with multi-select, every selected item
+    const treeSelection = (item?: CacheDirectory, selected?: CacheDirectory[]): CacheDirectory[] =>
+        selected && selected.length > 0 ? selected : item ? [item] : [...cacheTreeView.selection];
 
-    /* eslint-disable @typescript-eslint/no-unused-vars */
-    public resolveWebviewView(
-        webviewView: vscode.WebviewView,
-        _context: vscode.WebviewViewResolveContext,
-        _token: vscode.CancellationToken
-    ) {
-        /* eslint-enable @typescript-eslint/no-unused-vars */
-        this._view = webviewView;
+    context.subscriptions.push(
+        cacheTreeView,
+        cacheTreeView.onDidChangeVisibility(e => {
+            if (e.visible && !cacheTree?.hasScanResult) {
+                runBackgroundScan();
+            }
+        }),
+        vscode.commands.registerCommand('ai-cache-cleaner.refreshTree', () => scanWithProgress()),
+        vscode.commands.registerCommand('ai-cache-cleaner.deleteItems', (item?: CacheDirectory, selected?: CacheDirectory[]) =>
+            deleteTreeItems(treeSelection(item, selected))),
+        vscode.commands.registerCommand('ai-cache-cleaner.revealItem', (item?: CacheDirectory) => {
+            const target = item || cacheTreeView.selection[0];
+            if (target) {
+                vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(target.path));
+            }
+        }),
+        vscode.commands.registerCommand('ai-cache-cleaner.changeSafetyLevel', (item?: CacheDirectory, selected?: CacheDirectory[]) =>
+            changeTreeSafetyLevel(treeSelection(item, selected))),
+        vscode.commands.registerCommand('ai-cache-cleaner.resetSafetyLevel', async (item?: CacheDirectory, selected?: CacheDirectory[]) => {
+            for (const dir of treeSelection(item, selected)) {
+                await handleResetSafetyLevel(dir.path, panel?.webview);
+            }
+        }),
+        vscode.commands.registerCommand('ai-cache-cleaner.suggestSafetyLevel', (item?: CacheDirectory) => {
+            const target = item || cacheTreeView.selection[0];
+            if (target) {
+                suggestSafetyLevel(target.path, target.name);
+            }
+        })
+    );
+}
 
-        webviewView.webview.options = {
-            enableScripts: true,
-            localResourceRoots: [this._context.extensionUri]
-        };
+/**
+ * Delete the items selected in the sidebar tree, after the usual confirmation
+ */
+async function deleteTreeItems(items: CacheDirectory[]) {
+    const overrides = getSafetyOverrides();
+    // A selected child goes away with its selected parent
+    const paths = getTopLevelPaths(items.map(dir => dir.path));
+    if (paths.length === 0) {
+        return;
+    }
+    const levels = Object.fromEntries(items.map(dir => [dir.path, overrides[dir.path] || dir.safetyLevel]));
+    const totalSize = items.filter(dir => paths.includes(dir.path)).reduce((sum, dir) => sum + dir.size, 0);
+    if (!await confirmDeletion(paths, levels, `${formatSize(totalSize)} in:\n${paths.join('\n')}`)) {
+        return;
+    }
 
-        webviewView.webview.html = this._getWelcomeHtml();
+    await deleteAndSummarize(paths, levels, 'manual');
+    refreshAfterCleanup();
+}
 
-        webviewView.webview.onDidReceiveMessage(message => {
-            if (message.command === 'openDashboard') {
-                vscode.commands.executeCommand('ai-cache-cleaner.open');
-            }
-        });
+async function changeTreeSafetyLevel(items: CacheDirectory[]) {
+    if (items.length === 0) {
+        return;
+    }
+    const picked = await vscode.window.showQuickPick(
+        (['safe', 'caution', 'danger'] as SafetyLevel[]).map(level => ({
+            label: `${LEVEL_MARKERS[level]} ${SAFETY_DEFINITIONS[level].label}`,
+            description: SAFETY_DEFINITIONS[level].definition,
+            level
+        })),
+        { placeHolder: items.length === 1 ? `Safety level for "${items[0].name}"` : `Safety level for ${items.length} items` }
+    );
+    if (!picked) {
+        return;
     }
 
-    private _getWelcomeHtml(): string {
-        return `<!DOCTYPE html>
-<html lang="en">
-<head>
-    <meta charset="UTF-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <style>
-        body {
-            font-family: var(--vscode-font-family);
-            padding: 16px;
-            background: transparent;
-            color: var(--vscode-foreground);
-        }
-        .container {
-            display: flex;
-            flex-direction: column;
-            align-items: center;
-            text-align: center;
-        }
-        h3 {
-            margin: 0 0 8px 0;
-            font-size: 14px;
-        }
-        p {
-            margin: 0 0 16px 0;
-            font-size: 12px;
-            color: var(--vscode-descriptionForeground);
-        }
-        button {
-            background: var(--vscode-button-background);
-            color: var(--vscode-button-foreground);
-            border: none;
-            padding: 8px 16px;
-            border-radius: 4px;
-            cursor: pointer;
-            font-size: 13px;
-            width: 100%;
-        }
-        button:hover {
-            background: var(--vscode-button-hoverBackground);
-        }
-        .icon {
-            font-size: 32px;
-            margin-bottom: 8px;
-        }
-    </style>
-</head>
-<body>
-    <div class="container">
-        <div class="icon">🧹</div>
-        <h3>AI Cache Cleaner</h3>
-        <p>Visualize and clean cache from AI coding tools</p>
-        <button onclick="openDashboard()">Open Dashboard</button>
-    </div>
-    <script>
-        const vscode = acquireVsCodeApi();
-        function openDashboard() {
-            vscode.postMessage({ command: 'openDashboard' });
+    const overrides = getSafetyOverrides();
+    for (const dir of items) {
+        const currentLevel = overrides[dir.path] || dir.safetyLevel;
+        if (currentLevel !== picked.level) {
+            await handleSafetyLevelChange(dir.path, dir.name, currentLevel, picked.level, panel?.webview);
         }
-    </script>
-</body>
-</html>`;
     }
 }
 
@@ -226,189 +584,1304 @@ async function setSafetyOverride(path: string, level: SafetyLevel): Promise<void
     const overrides = getSafetyOverrides();
     overrides[path] = level;
     await extensionContext.globalState.update(SAFETY_OVERRIDES_KEY, overrides);
+    syncSharedSettings();
+    cacheTree?.refresh();
 }
 
 async function removeSafetyOverride(path: string): Promise<void> {
     const overrides = getSafetyOverrides();
     delete overrides[path];
     await extensionContext.globalState.update(SAFETY_OVERRIDES_KEY, overrides);
+    syncSharedSettings();
+    cacheTree?.refresh();
 }
 
 async function clearAllSafetyOverrides(): Promise<void> {
-    await extensionContext.globalState.update(SAFETY_OVERRIDES_KEY, {});
+    await replaceSafetyOverrides({});
 }
 
-function sendSafetyDefinitions(webview: vscode.Webview) {
-    webview.postMessage({
-        command: 'safetyDefinitions',
-        data: SAFETY_DEFINITIONS
-    });
+async function replaceSafetyOverrides(overrides: Record<string, SafetyLevel>): Promise<void> {
+    await extensionContext.globalState.update(SAFETY_OVERRIDES_KEY, overrides);
+    syncSharedSettings();
+    cacheTree?.refresh();
 }
 
-function sendSafetyOverrides(webview: vscode.Webview) {
-    webview.postMessage({
-        command: 'safetyOverrides',
-        data: getSafetyOverrides()
-    });
+function loadPathLocks() {
+    restoreStoredLocks(extensionContext.globalState);
 }
 
-function sendScanData(webview: vscode.Webview) {
-    const scanResult = scanAllCaches();
-    webview.postMessage({
-        command: 'scanResult',
-        data: scanResult
-    });
+async function saveStoredLocks(stored: StoredLocks): Promise<void> {
+    await extensionContext.globalState.update(PATH_LOCKS_KEY, stored);
+    syncSharedSettings();
+    setUserLocks(stored.locked, stored.unlocked);
+    refreshLocks();
 }
 
-function sendDetectedTools(webview: vscode.Webview) {
-    const detectedTools = detectKnownAITools();
-    webview.postMessage({
-        command: 'detectedTools',
-        data: detectedTools
-    });
+// Re-mark locked directories in the last scan and redraw both views, without rescanning
+function refreshLocks() {
+    if (!lastScanResult) {
+        return;
+    }
+    applyPathLocks(lastScanResult.directories);
+    cacheTree?.setScanResult(lastScanResult);
+    panel?.webview.postMessage({ command: 'scanResult', data: lastScanResult });
 }
 
-async function handleSafetyLevelChange(
-    path: string,
-    dirName: string,
-    currentLevel: SafetyLevel,
-    newLevel: SafetyLevel,
-    webview: vscode.Webview
-) {
-    // Get warning message if needed
-    const warning = getLevelChangeWarning(currentLevel, newLevel, dirName);
-
-    if (warning) {
-        // Determine if this is making it more deletable
-        const riskOrder: SafetyLevel[] = ['danger', 'caution', 'safe'];
-        const isMoreDeletable = riskOrder.indexOf(newLevel) > riskOrder.indexOf(currentLevel);
-
-        if (isMoreDeletable) {
-            // Show warning dialog for risky changes
-            const confirm = await vscode.window.showWarningMessage(
-                warning.message,
-                { modal: true, detail: warning.title },
-                'Yes, Change Level',
-                'Cancel'
-            );
-
-            if (confirm !== 'Yes, Change Level') {
-                webview.postMessage({ command: 'safetyLevelChangeCancelled' });
-                return;
-            }
+// Lock a directory or file against deletion; asks for one when none is given
+async function lockPath(targetPath?: string) {
+    if (!targetPath) {
+        const picked = await vscode.window.showOpenDialog({
+            canSelectFiles: true,
+            canSelectFolders: true,
+            canSelectMany: false,
+            defaultUri: vscode.Uri.file(os.homedir()),
+            openLabel: 'Protect'
+        });
+        if (!picked || picked.length === 0) {
+            return;
         }
+        targetPath = picked[0].fsPath;
     }
 
-    // Save the override
-    await setSafetyOverride(path, newLevel);
-
-    // Notify webview
-    webview.postMessage({
-        command: 'safetyLevelChanged',
-        data: { path, newLevel }
-    });
-
-    // Send updated overrides
-    sendSafetyOverrides(webview);
+    const lockTarget = targetPath;
+    const existing = findLocks(lockTarget).find(lock => matchesPathPattern(lockTarget, lock.pattern));
+    if (existing) {
+        vscode.window.showInformationMessage(`${lockTarget} is already protected: ${describeLock(existing)}`);
+        return;
+    }
 
-    vscode.window.showInformationMessage(
-        `Safety level for "${dirName}" changed to ${SAFETY_DEFINITIONS[newLevel].label}`
-    );
+    // Saved as a pattern, so glob characters in the path must match only themselves
+    const stored = getStoredLocks(extensionContext.globalState);
+    await saveStoredLocks({ ...stored, locked: [...stored.locked, escapeGlob(lockTarget)] });
+    vscode.window.showInformationMessage(`${lockTarget} is now protected and cannot be deleted`);
 }
 
-async function handleResetSafetyLevel(path: string, webview: vscode.Webview) {
-    await removeSafetyOverride(path);
-    sendSafetyOverrides(webview);
-    vscode.window.showInformationMessage('Safety level reset to default');
-}
+/**
+ * Lift a lock after an explicit confirmation: one covering the given path,
+ * or any active lock. Team policy locks can only be lifted in the policy file.
+ */
+async function unlockPath(targetPath?: string) {
+    const locks = targetPath ? findLocks(targetPath) : getActiveLocks();
+    if (locks.length === 0) {
+        vscode.window.showInformationMessage(`${targetPath || 'Nothing'} is not protected`);
+        return;
+    }
 
-async function handleResetAllSafetyLevels(webview: vscode.Webview) {
-    const confirm = await vscode.window.showWarningMessage(
-        'Reset all custom safety levels to default?',
-        { modal: true },
-        'Reset All'
+    const picked = locks.length === 1 ? { lock: locks[0] } : await vscode.window.showQuickPick(
+        locks.map(lock => ({
+            label: `$(lock) ${lock.pattern}`,
+            description: lock.source === 'team' ? `${lock.reason} · team policy` : `${lock.reason} · ${lock.source}`,
+            lock
+        })),
+        { placeHolder: 'Select the protection to remove' }
     );
-
-    if (confirm === 'Reset All') {
-        await clearAllSafetyOverrides();
-        sendSafetyOverrides(webview);
-        vscode.window.showInformationMessage('All safety levels reset to default');
+    if (!picked) {
+        return;
     }
-}
 
-async function handleSearch(query: string, webview: vscode.Webview) {
-    if (isSearching) {
-        webview.postMessage({
-            command: 'searchError',
-            error: 'Search already in progress'
-        });
+    const lock: PathLock = picked.lock;
+    if (lock.source === 'team') {
+        vscode.window.showWarningMessage(
+            `${lock.pattern} is protected by the team policy in ${lock.policyFile}. Remove it there to unlock it.`
+        );
         return;
     }
 
-    if (!query || query.trim().length < 2) {
-        webview.postMessage({
-            command: 'searchError',
-            error: 'Please enter at least 2 characters'
-        });
+    const confirm = await vscode.window.showWarningMessage(
+        `Unlock ${lock.pattern}?`,
+        { modal: true, detail: `${lock.reason}. Once unlocked, it and the directories containing it can be deleted like any other item.` },
+        'Unlock'
+    );
+    if (confirm !== 'Unlock') {
         return;
     }
 
-    isSearching = true;
+    const stored = getStoredLocks(extensionContext.globalState);
+    await saveStoredLocks(lock.source === 'user'
+        ? { ...stored, locked: stored.locked.filter(pattern => pattern !== lock.pattern) }
+        : { ...stored, unlocked: [...stored.unlocked, lock.pattern] });
+    vscode.window.showInformationMessage(`${lock.pattern} is no longer protected`);
+}
 
-    try {
-        webview.postMessage({
-            command: 'searchProgress',
-            data: { percentage: 0, currentPath: 'Starting search...' }
-        });
+function getStorageDir(): string {
+    return extensionContext.globalStorageUri.fsPath;
+}
 
-        await new Promise(resolve => setTimeout(resolve, 500));
+function getQuarantineDir(): string {
+    return vscode.Uri.joinPath(extensionContext.globalStorageUri, 'quarantine').fsPath;
+}
 
-        if (!isSearching) { return; }
+function getRunningToolCheck(): RunningToolCheck {
+    return vscode.workspace.getConfiguration('aiCacheCleaner').get<RunningToolCheck>('runningToolCheck', 'warn');
+}
 
-        webview.postMessage({
-            command: 'searchProgress',
-            data: { percentage: 30, currentPath: 'Scanning home directory...' }
-        });
+function getDeleteOptions(): DeleteOptions {
+    const config = vscode.workspace.getConfiguration('aiCacheCleaner');
+    return {
+        mode: config.get<DeleteMode>('deleteMode', 'quarantine'),
+        quarantineDir: getQuarantineDir(),
+        // Deletions stay inside signature locations and search results the user added
+        allowedRoots: getAllowedRoots([...addedSearchPaths]),
+        blockRunningTools: getRunningToolCheck() === 'block'
+    };
+}
 
-        await new Promise(resolve => setTimeout(resolve, 500));
+/**
+ * Paragraph for the confirmation dialogs naming the running tools that own
+ * any of the paths; empty when none are running or the check is off
+ */
+function getRunningToolWarning(paths: string[]): string {
+    const check = getRunningToolCheck();
+    if (check === 'off') {
+        return '';
+    }
+    const tools = findActiveTools(paths, detectToolActivity());
+    if (tools.length === 0) {
+        return '';
+    }
+    const list = tools.map(tool => `${tool.toolName} (${describeActivity(tool)})`).join(', ');
+    return check === 'block'
+        ? `⚠️ Running: ${list}. Their directories will be skipped.\n\n`
+        : `⚠️ Running: ${list}. Deleting a tool's data while it runs can corrupt its state.\n\n`;
+}
 
-        if (!isSearching) { return; }
+function purgeExpiredQuarantine() {
+    const retentionDays = vscode.workspace.getConfiguration('aiCacheCleaner').get<number>('quarantineRetentionDays', 7);
+    try {
+        const result = purgeExpired(getQuarantineDir(), retentionDays);
+        if (result.purgedCount > 0) {
+            console.log(`AI Cache Cleaner: purged ${result.purgedCount} quarantined item(s), freed ${formatSize(result.freedBytes)}`);
+        }
+    } catch (error) {
+        console.error('AI Cache Cleaner: failed to purge quarantine', error);
+    }
+}
 
-        webview.postMessage({
-            command: 'searchProgress',
-            data: { percentage: 60, currentPath: 'Scanning Application Support...' }
-        });
+function sendQuarantine(webview: vscode.Webview) {
+    webview.postMessage({
+        command: 'quarantineList',
+        data: listQuarantine(getQuarantineDir()).map(entry => ({
+            ...entry,
+            sizeFormatted: formatSize(entry.size)
+        }))
+    });
+}
+
+function sendSafetyDefinitions(webview: vscode.Webview) {
+    webview.postMessage({
+        command: 'safetyDefinitions',
+        data: SAFETY_DEFINITIONS
+    });
+}
+
+function sendSafetyOverrides(webview: vscode.Webview) {
+    webview.postMessage({
+        command: 'safetyOverrides',
+        data: getSafetyOverrides()
+    });
+}
 
-        const results = searchDirectoriesSync(query);
+async function sendScanData(webview: vscode.Webview) {
+    // A new scan supersedes any scan still in flight
+    currentScan?.abort();
+    const controller = new AbortController();
+    currentScan = controller;
 
-        await new Promise(resolve => setTimeout(resolve, 300));
+    webview.postMessage({ command: 'scanStarted' });
 
-        webview.postMessage({
-            command: 'searchProgress',
-            data: { percentage: 100, currentPath: 'Complete!' }
+    try {
+        const scanResult = await scanAllCaches({
+            signal: controller.signal,
+            onProgress: progress => webview.postMessage({
+                command: 'scanProgress',
+                data: progress
+            }),
+            onPartialResult: partial => webview.postMessage({
+                command: 'scanPartial',
+                data: partial
+            })
         });
-
         webview.postMessage({
-            command: 'searchComplete',
-            data: {
-                query,
-                results,
-                totalSize: results.reduce((sum, r) => sum + r.size, 0),
-                totalSizeFormatted: formatSize(results.reduce((sum, r) => sum + r.size, 0))
-            }
+            command: 'scanResult',
+            data: scanResult
         });
-
+        onScanCompleted(scanResult);
     } catch (error) {
+        if (error instanceof ScanCancelledError) {
+            // Only report cancellations the user asked for, not superseded scans
+            if (currentScan === controller) {
+                webview.postMessage({ command: 'scanCancelled' });
+            }
+            return;
+        }
+        webview.postMessage({
+            command: 'scanError',
+            error: error instanceof Error ? error.message : 'Scan failed'
+        });
+    } finally {
+        if (currentScan === controller) {
+            currentScan = undefined;
+        }
+    }
+}
+
+// Every finished scan updates the history, the status bar and the sidebar tree
+function onScanCompleted(scanResult: ScanResult) {
+    lastScanResult = scanResult;
+    saveScanSnapshot(scanResult);
+    updateStatusBar(scanResult);
+    cacheTree?.setScanResult(scanResult);
+}
+
+// Days compared for the "fastest growing" highlights
+const GROWTH_WINDOW_DAYS = 7;
+
+function saveScanSnapshot(scanResult: ScanResult) {
+    const retentionDays = vscode.workspace.getConfiguration('aiCacheCleaner').get<number>('historyRetentionDays', 90);
+    try {
+        const snapshots = recordSnapshot(getStorageDir(), scanResult, { retentionDays });
+        if (panel) {
+            sendScanHistory(panel.webview, snapshots);
+        }
+    } catch (error) {
+        console.error('AI Cache Cleaner: failed to save scan history', error);
+    }
+}
+
+function sendScanHistory(webview: vscode.Webview, snapshots: ScanSnapshot[]) {
+    webview.postMessage({
+        command: 'scanHistory',
+        data: {
+            snapshots,
+            windowDays: GROWTH_WINDOW_DAYS,
+            fastestGrowing: getFastestGrowing(snapshots, { windowDays: GROWTH_WINDOW_DAYS, limit: 10 })
+        }
+    });
+}
+
+function getThresholdConfig(): ThresholdConfig {
+    const config = vscode.workspace.getConfiguration('aiCacheCleaner');
+    const toLimits = (limits: { warningMB?: number; criticalMB?: number }): SizeLimits => ({
+        warningBytes: limits.warningMB ? megabytesToBytes(limits.warningMB) : undefined,
+        criticalBytes: limits.criticalMB ? megabytesToBytes(limits.criticalMB) : undefined
+    });
+
+    const tools: Record<string, SizeLimits> = {};
+    const toolThresholds = config.get<Record<string, { warningMB?: number; criticalMB?: number }>>('toolThresholds', {});
+    for (const [toolName, limits] of Object.entries(toolThresholds)) {
+        tools[toolName] = toLimits(limits);
+    }
+
+    return {
+        total: toLimits({
+            warningMB: config.get<number>('warningThresholdMB', 2048),
+            criticalMB: config.get<number>('criticalThresholdMB', 10240)
+        }),
+        tools
+    };
+}
+
+function stopBackgroundScans() {
+    if (backgroundScanTimer) {
+        clearInterval(backgroundScanTimer);
+        backgroundScanTimer = undefined;
+    }
+}
+
+// Create or remove the status bar item and (re)schedule background scans from the settings
+function setupStatusBar() {
+    const config = vscode.workspace.getConfiguration('aiCacheCleaner');
+    stopBackgroundScans();
+
+    if (!config.get<boolean>('statusBarEnabled', true)) {
+        statusBarItem?.dispose();
+        statusBarItem = undefined;
+        return;
+    }
+
+    if (!statusBarItem) {
+        statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+        statusBarItem.name = 'AI Cache Size';
+        statusBarItem.command = 'ai-cache-cleaner.open';
+        statusBarItem.text = '$(database) AI cache: …';
+        statusBarItem.tooltip = 'Scanning AI tool caches...';
+        statusBarItem.show();
+    }
+
+    const intervalMinutes = config.get<number>('backgroundScanIntervalMinutes', 30);
+    if (intervalMinutes > 0) {
+        backgroundScanTimer = setInterval(runBackgroundScan, intervalMinutes * 60 * 1000);
+    }
+
+    if (lastScanResult) {
+        updateStatusBar(lastScanResult);
+    } else {
+        runBackgroundScan();
+    }
+}
+
+// Scan without a dashboard; skipped while the dashboard is scanning anyway
+async function runBackgroundScan() {
+    if (isBackgroundScanning || currentScan) {
+        return;
+    }
+    isBackgroundScanning = true;
+    try {
+        onScanCompleted(await scanAllCaches());
+    } catch (error) {
+        console.error('AI Cache Cleaner: background scan failed', error);
+    } finally {
+        isBackgroundScanning = false;
+    }
+}
+
+function updateStatusBar(scanResult: ScanResult) {
+    const evaluation = evaluateThresholds(scanResult, getThresholdConfig());
+
+    if (statusBarItem) {
+        statusBarItem.text = `${evaluation.level === 'normal' ? '$(database)' : '$(warning)'} AI cache: ${scanResult.totalSizeFormatted}`;
+        statusBarItem.backgroundColor = evaluation.level === 'critical'
+            ? new vscode.ThemeColor('statusBarItem.errorBackground')
+            : evaluation.level === 'warning'
+                ? new vscode.ThemeColor('statusBarItem.warningBackground')
+                : undefined;
+
+        const tooltip = new vscode.MarkdownString();
+        tooltip.appendMarkdown(`**AI caches: ${scanResult.totalSizeFormatted}**` +
+            (scanResult.totalDiskUsageFormatted ? ` (${scanResult.totalDiskUsageFormatted} on disk)` : '') + '\n\n');
+        for (const [toolName, size] of Object.entries(evaluation.toolSizes).sort((a, b) => b[1] - a[1])) {
+            tooltip.appendMarkdown(`- ${toolName}: ${formatSize(size)}\n`);
+        }
+        for (const breach of evaluation.breaches) {
+            tooltip.appendMarkdown(`\n${breach.level === 'critical' ? '🔴' : '🟡'} ${describeBreach(breach)}\n`);
+        }
+        tooltip.appendMarkdown(`\n_Last scanned ${new Date().toLocaleTimeString()}. Click to open the dashboard._`);
+        statusBarItem.tooltip = tooltip;
+    }
+
+    notifyThresholdBreaches(evaluation);
+}
+
+function describeBreach(breach: ThresholdBreach): string {
+    return `${breach.name} is ${formatSize(breach.size)} (${breach.level} threshold ${formatSize(breach.limit)})`;
+}
+
+async function notifyThresholdBreaches(evaluation: ThresholdEvaluation) {
+    const newBreaches = getNewBreaches(reportedBreaches, evaluation.breaches);
+    reportedBreaches = evaluation.breaches;
+    if (newBreaches.length === 0) {
+        return;
+    }
+
+    const message = `AI Cache Cleaner: ${newBreaches.map(describeBreach).join('; ')}`;
+    const show = evaluation.level === 'critical' ? vscode.window.showErrorMessage : vscode.window.showWarningMessage;
+    const action = await show(message, 'Clean Safe Items', 'Open Dashboard');
+
+    if (action === 'Clean Safe Items') {
+        await cleanSafeItems();
+    } else if (action === 'Open Dashboard') {
+        vscode.commands.executeCommand('ai-cache-cleaner.open');
+    }
+}
+
+/**
+ * Scan with a cancellable progress notification, for commands that run
+ * without the dashboard. Returns undefined when cancelled or failed.
+ */
+async function scanWithProgress(): Promise<ScanResult | undefined> {
+    return vscode.window.withProgress(
+        {
+            location: vscode.ProgressLocation.Notification,
+            title: 'AI Cache Cleaner: scanning caches',
+            cancellable: true
+        },
+        async (progress, token) => {
+            const controller = new AbortController();
+            token.onCancellationRequested(() => controller.abort());
+            let reported = 0;
+
+            try {
+                const scanResult = await scanAllCaches({
+                    signal: controller.signal,
+                    onProgress: update => {
+                        progress.report({ message: update.currentPath, increment: update.percentage - reported });
+                        reported = update.percentage;
+                    }
+                });
+                onScanCompleted(scanResult);
+                return scanResult;
+            } catch (error) {
+                if (!(error instanceof ScanCancelledError)) {
+                    vscode.window.showErrorMessage(
+                        `AI Cache Cleaner: scan failed - ${error instanceof Error ? error.message : String(error)}`
+                    );
+                }
+                return undefined;
+            }
+        }
+    );
+}
+
+// Bring the dashboard, or the status bar when it is closed, up to date after a cleanup
+function refreshAfterCleanup() {
+    purgeExpiredQuarantine();
+    if (panel) {
+        sendQuarantine(panel.webview);
+        sendScanData(panel.webview);
+    } else {
+        lastScanResult = undefined;
+        runBackgroundScan();
+    }
+}
+
+/**
+ * Delete every directory classified as safe, after confirmation.
+ * Scans first unless a scan result is passed in.
+ */
+async function cleanSafeItems(scanResult?: ScanResult) {
+    scanResult = scanResult || await scanWithProgress();
+    if (!scanResult) {
+        return;
+    }
+
+    const safeDirectories = collectDirectoriesAtLevel(scanResult.directories, 'safe', getSafetyOverrides());
+    if (safeDirectories.length === 0) {
+        vscode.window.showInformationMessage('AI Cache Cleaner: no safe items to clean.');
+        return;
+    }
+
+    const paths = safeDirectories.map(dir => dir.path);
+    const levels = Object.fromEntries(paths.map(p => [p, 'safe' as SafetyLevel]));
+    const totalSize = safeDirectories.reduce((sum, dir) => sum + dir.size, 0);
+    const confirmed = await confirmDeletion(paths, levels, `${formatSize(totalSize)} in:\n${paths.join('\n')}`);
+    if (!confirmed) {
+        return;
+    }
+
+    await deleteAndSummarize(paths, levels, 'command');
+    refreshAfterCleanup();
+}
+
+// Pick a tool, then the directories to delete; directories that are safe throughout start selected
+async function cleanToolCaches() {
+    const scanResult = await scanWithProgress();
+    if (!scanResult) {
+        return;
+    }
+
+    const toolSizes = getToolSizesBySize(scanResult);
+    if (toolSizes.length === 0) {
+        vscode.window.showInformationMessage('AI Cache Cleaner: no AI tool caches found.');
+        return;
+    }
+
+    const tool = await vscode.window.showQuickPick(
+        toolSizes.map(({ toolName, size }) => ({ label: toolName, description: formatSize(size) })),
+        { placeHolder: 'Select the AI tool to clean' }
+    );
+    if (!tool) {
+        return;
+    }
+
+    const overrides = getSafetyOverrides();
+    const items = collectToolDirectories(scanResult.directories, tool.label).map(dir => {
+        const level = overrides[dir.path] || dir.safetyLevel;
+        return {
+            label: `${LEVEL_MARKERS[level]} ${dir.name}`,
+            description: `${dir.sizeFormatted} · ${level}`,
+            detail: dir.path,
+            picked: collectDirectoriesAtLevel([dir], 'safe', overrides)[0] === dir,
+            dir,
+            level
+        };
+    });
+
+    const picked = await vscode.window.showQuickPick(items, {
+        canPickMany: true,
+        placeHolder: `Select the ${tool.label} directories to delete`
+    });
+    if (!picked || picked.length === 0) {
+        return;
+    }
+
+    const paths = picked.map(item => item.dir.path);
+    const levels = Object.fromEntries(picked.map(item => [item.dir.path, item.level]));
+    const totalSize = picked.reduce((sum, item) => sum + item.dir.size, 0);
+    const confirmed = await confirmDeletion(paths, levels, `${formatSize(totalSize)} in:\n${paths.join('\n')}`);
+    if (!confirmed) {
+        return;
+    }
+
+    await deleteAndSummarize(paths, levels, 'command');
+    refreshAfterCleanup();
+}
+
+/**
+ * Delete Claude Code project data whose workspace no longer exists, after
+ * confirmation. Scans first unless a scan result is passed in.
+ */
+async function cleanOrphanedProjects(scanResult?: ScanResult) {
+    scanResult = scanResult || await scanWithProgress();
+    if (!scanResult) {
+        return;
+    }
+
+    const overrides = getSafetyOverrides();
+    const orphans = collectOrphanedProjects(scanResult.directories, overrides);
+    if (orphans.length === 0) {
+        vscode.window.showInformationMessage('AI Cache Cleaner: no orphaned Claude Code projects found.');
+        return;
+    }
+
+    const paths = orphans.map(dir => dir.path);
+    const levels = Object.fromEntries(orphans.map(dir => [dir.path, overrides[dir.path] || dir.safetyLevel]));
+    const totalSize = orphans.reduce((sum, dir) => sum + dir.size, 0);
+    const confirmed = await confirmDeletion(
+        paths,
+        levels,
+        `${formatSize(totalSize)} of data for projects that no longer exist:\n` +
+        orphans.map(dir => `${dir.project?.projectPath || dir.path} (${dir.sizeFormatted})`).join('\n')
+    );
+    if (!confirmed) {
+        return;
+    }
+
+    await deleteAndSummarize(paths, levels, 'command');
+    refreshAfterCleanup();
+}
+
+async function showCacheSize() {
+    const scanResult = await scanWithProgress();
+    if (!scanResult) {
+        return;
+    }
+
+    const breakdown = getToolSizesBySize(scanResult)
+        .map(({ toolName, size }) => `${toolName} ${formatSize(size)}`)
+        .join(', ');
+    const safeSize = collectDirectoriesAtLevel(scanResult.directories, 'safe', getSafetyOverrides())
+        .reduce((sum, dir) => sum + dir.size, 0);
+
+    const action = await vscode.window.showInformationMessage(
+        `AI caches use ${scanResult.totalSizeFormatted}${breakdown ? ` (${breakdown})` : ''}. ` +
+        `${formatSize(safeSize)} is safe to clean.`,
+        'Clean Safe Items',
+        'Open Dashboard'
+    );
+
+    if (action === 'Clean Safe Items') {
+        await cleanSafeItems(scanResult);
+    } else if (action === 'Open Dashboard') {
+        vscode.commands.executeCommand('ai-cache-cleaner.open');
+    }
+}
+
+// Read cleanup policies from the settings and team policy presets, reporting invalid entries
+function getCleanupPolicies(): CleanupPolicy[] {
+    const policies: CleanupPolicy[] = [];
+    const errors: string[] = [];
+
+    vscode.workspace.getConfiguration('aiCacheCleaner').get<unknown[]>('cleanupPolicies', []).forEach((entry, index) => {
+        const result = validatePolicy(entry, `cleanupPolicies[${index}]`);
+        if (result.policy) {
+            policies.push(result.policy);
+        }
+        errors.push(...result.errors);
+    });
+
+    // Policies are read repeatedly, so each set of problems is only reported once
+    const errorKey = errors.join('\n');
+    if (errors.length > 0 && errorKey !== reportedPolicyErrors) {
+        console.warn('AI Cache Cleaner: invalid cleanup policies\n' + errorKey);
+        vscode.window.showWarningMessage(
+            `AI Cache Cleaner: ${errors.length} problem(s) in cleanup policies were ignored. ${errors[0]}`
+        );
+    }
+    reportedPolicyErrors = errorKey;
+
+    return mergeCleanupPresets(
+        policies,
+        teamPolicy.cleanupPresets,
+        extensionContext.globalState.get<string[]>(APPROVED_PRESETS_KEY, [])
+    );
+}
+
+function getPolicyLastRuns(): Record<string, string> {
+    return extensionContext.globalState.get<Record<string, string>>(POLICY_LAST_RUN_KEY, {});
+}
+
+async function runDuePolicies(trigger: PolicyRun['trigger']) {
+    const lastRuns = getPolicyLastRuns();
+    const due = getCleanupPolicies().filter(policy => isPolicyDue(policy, lastRuns[policy.name]));
+    if (due.length > 0) {
+        await executePolicies(due, trigger);
+    }
+}
+
+// Schedule a workspace cleanup preset after confirmation, or stop scheduling it
+async function setPresetApproval(name: string, approved: boolean) {
+    const preset = getCleanupPolicies().find(policy => policy.name === name && policy.approval);
+    if (!preset) {
+        return;
+    }
+    const key = getPresetApprovalKey(preset);
+    if (approved) {
+        const confirm = await vscode.window.showWarningMessage(
+            `Schedule cleanup preset "${preset.name}" (${preset.schedule})?`,
+            {
+                modal: true,
+                detail: `It comes from ${preset.source} and will run without asking:\n${JSON.stringify(preset.rules, null, 2)}`
+            },
+            'Schedule'
+        );
+        if (confirm !== 'Schedule') {
+            return;
+        }
+    }
+
+    const approvals = extensionContext.globalState.get<string[]>(APPROVED_PRESETS_KEY, []).filter(entry => entry !== key);
+    await extensionContext.globalState.update(APPROVED_PRESETS_KEY, approved ? [...approvals, key] : approvals);
+    if (panel) {
+        sendPolicyRuns(panel.webview);
+    }
+}
+
+async function runPolicyNow(name: string) {
+    const policy = getCleanupPolicies().find(p => p.name === name);
+    if (!policy) {
+        vscode.window.showWarningMessage(`AI Cache Cleaner: cleanup policy "${name}" is not configured`);
+        return;
+    }
+    const confirm = await vscode.window.showWarningMessage(
+        `Run cleanup policy "${policy.name}" now?`,
+        { modal: true },
+        'Run'
+    );
+    if (confirm === 'Run') {
+        await executePolicies([policy], 'manual');
+    }
+}
+
+/**
+ * Scan once and run the given policies through the regular deleter,
+ * logging each run. Skipped when another policy run is in progress.
+ */
+async function executePolicies(policies: CleanupPolicy[], trigger: PolicyRun['trigger']) {
+    if (isRunningPolicies) {
+        return;
+    }
+    isRunningPolicies = true;
+
+    try {
+        const scanResult = await scanAllCaches();
+        const config = vscode.workspace.getConfiguration('aiCacheCleaner');
+        const lastRuns = getPolicyLastRuns();
+        let totalFreed = 0;
+
+        // Nobody is asked during a scheduled run, so running tools are skipped unless the check is off
+        const blockRunningTools = getRunningToolCheck() !== 'off';
+        const deleteOptions: DeleteOptions = {
+            ...getDeleteOptions(),
+            blockRunningTools,
+            activeTools: blockRunningTools ? detectToolActivity() : undefined
+        };
+
+        for (const policy of policies) {
+            const run = await runPolicy(policy, scanResult, {
+                overrides: getSafetyOverrides(),
+                deleteOptions,
+                trigger,
+                timestamp: config.get<'mtime' | 'atime'>('ageCleanupTimestamp', 'mtime')
+            });
+            appendPolicyRun(getStorageDir(), run);
+            recordAudit(run.actions.map(action => ({
+                timestamp: run.finishedAt,
+                path: action.path,
+                safetyLevel: action.safetyLevel,
+                overridden: action.overridden,
+                action: action.action,
+                mode: deleteOptions.mode || 'permanent',
+                trigger: 'policy',
+                success: action.success,
+                freedBytes: action.freedBytes,
+                error: action.error,
+                batchId: run.batchId,
+                policy: policy.name
+            })));
+            lastRuns[policy.name] = run.startedAt;
+            totalFreed += run.totalFreed;
+
+            const failed = run.actions.filter(action => !action.success);
+            if (failed.length > 0) {
+                console.warn(`AI Cache Cleaner: policy "${policy.name}" had ${failed.length} failure(s)`, failed);
+            }
+        }
+
+        await extensionContext.globalState.update(POLICY_LAST_RUN_KEY, lastRuns);
+
+        if (totalFreed > 0) {
+            vscode.window.showInformationMessage(
+                `AI Cache Cleaner: cleanup ${policies.length === 1 ? `policy "${policies[0].name}"` : 'policies'} freed ${formatSize(totalFreed)}`
+            );
+        }
+    } catch (error) {
+        console.error('AI Cache Cleaner: cleanup policy run failed', error);
+    } finally {
+        isRunningPolicies = false;
+    }
+
+    if (panel) {
+        sendPolicyRuns(panel.webview);
+    }
+    refreshAfterCleanup();
+}
+
+function sendPolicyRuns(webview: vscode.Webview) {
+    const lastRuns = getPolicyLastRuns();
+    webview.postMessage({
+        command: 'policyRuns',
+        data: {
+            policies: getCleanupPolicies().map(policy => ({
+                ...policy,
+                lastRun: lastRuns[policy.name],
+                nextRun: getNextRun(policy, lastRuns[policy.name])
+            })),
+            runs: loadPolicyRuns(getStorageDir()).map(run => ({
+                ...run,
+                totalFreedFormatted: formatSize(run.totalFreed)
+            }))
+        }
+    });
+}
+
+// Append deletions to the audit log and mirror them to the Output channel
+function recordAudit(entries: AuditEntry[]) {
+    try {
+        appendAuditEntries(getStorageDir(), entries);
+    } catch (error) {
+        console.error('AI Cache Cleaner: failed to write the audit log', error);
+    }
+    entries.forEach(entry => outputChannel?.appendLine(formatAuditEntry(entry)));
+    if (panel) {
+        sendAuditLog(panel.webview);
+    }
+}
+
+function sendAuditLog(webview: vscode.Webview) {
+    webview.postMessage({
+        command: 'auditLog',
+        data: readAuditLog(getStorageDir(), AUDIT_VIEW_LIMIT).map(entry => ({
+            ...entry,
+            freedBytesFormatted: formatSize(entry.freedBytes)
+        }))
+    });
+}
+
+async function sendDetectedTools(webview: vscode.Webview) {
+    // Measuring the tool folders takes a while on large caches; a newer request supersedes it
+    currentDetection?.abort();
+    const controller = new AbortController();
+    currentDetection = controller;
+
+    try {
+        const detectedTools = await detectKnownAITools({ excludePatterns: getExcludePatterns(), signal: controller.signal });
+        const activity = getRunningToolCheck() === 'off' ? [] : detectToolActivity();
+        webview.postMessage({
+            command: 'detectedTools',
+            data: detectedTools.map(tool => {
+                const active = findActiveTool(tool.path, activity);
+                return { ...tool, running: active ? describeActivity(active) : undefined };
+            })
+        });
+    } catch (error) {
+        if (!controller.signal.aborted) {
+            console.error('AI Cache Cleaner: tool detection failed', error);
+        }
+    } finally {
+        if (currentDetection === controller) {
+            currentDetection = undefined;
+        }
+    }
+}
+
+async function handleSafetyLevelChange(
+    path: string,
+    dirName: string,
+    currentLevel: SafetyLevel,
+    newLevel: SafetyLevel,
+    webview: vscode.Webview | undefined
+) {
+    // Get warning message if needed
+    const warning = getLevelChangeWarning(currentLevel, newLevel, dirName);
+
+    if (warning) {
+        // Determine if this is making it more deletable
+        const riskOrder: SafetyLevel[] = ['danger', 'caution', 'safe'];
+        const isMoreDeletable = riskOrder.indexOf(newLevel) > riskOrder.indexOf(currentLevel);
+
+        if (isMoreDeletable) {
+            // Show warning dialog for risky changes
+            const confirm = await vscode.window.showWarningMessage(
+                warning.message,
+                { modal: true, detail: warning.title },
+                'Yes, Change Level',
+                'Cancel'
+            );
+
+            if (confirm !== 'Yes, Change Level') {
+                webview?.postMessage({ command: 'safetyLevelChangeCancelled' });
+                return;
+            }
+        }
+    }
+
+    // Save the override
+    await setSafetyOverride(path, newLevel);
+
+    // Notify webview
+    if (webview) {
+        webview.postMessage({
+            command: 'safetyLevelChanged',
+            data: { path, newLevel }
+        });
+
+        // Send updated overrides
+        sendSafetyOverrides(webview);
+    }
+
+    vscode.window.showInformationMessage(
+        `Safety level for "${dirName}" changed to ${SAFETY_DEFINITIONS[newLevel].label}`
+    );
+}
+
+async function handleResetSafetyLevel(path: string, webview: vscode.Webview | undefined) {
+    await removeSafetyOverride(path);
+    if (webview) {
+        sendSafetyOverrides(webview);
+    }
+    vscode.window.showInformationMessage('Safety level reset to default');
+}
+
+async function handleResetAllSafetyLevels(webview: vscode.Webview) {
+    const confirm = await vscode.window.showWarningMessage(
+        'Reset all custom safety levels to default?',
+        { modal: true },
+        'Reset All'
+    );
+
+    if (confirm === 'Reset All') {
+        await clearAllSafetyOverrides();
+        sendSafetyOverrides(webview);
+        vscode.window.showInformationMessage('All safety levels reset to default');
+    }
+}
+
+// Sample a directory's contents, propose a safety level with the reasons, and save it as an override if accepted
+async function suggestSafetyLevel(targetPath: string, dirName: string) {
+    const sample = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `Analyzing "${dirName}"...` },
+        () => sampleDirectory(targetPath)
+    );
+    const currentLevel = getCurrentSafetyLevel(targetPath);
+
+    const suggestion = classifyContents(sample);
+    if (!suggestion) {
+        vscode.window.showInformationMessage(
+            `The contents of "${dirName}" give no clear signal (${summarizeExtensions(sample) || 'no files read'}); ` +
+            `it stays ${SAFETY_DEFINITIONS[currentLevel].label}`
+        );
+        return;
+    }
+
+    const label = SAFETY_DEFINITIONS[suggestion.level].label;
+    if (suggestion.level === currentLevel) {
+        vscode.window.showInformationMessage(`The contents of "${dirName}" agree with its level, ${label}`, {
+            modal: true,
+            detail: suggestion.reasons.join('\n')
+        });
+        return;
+    }
+
+    const accept = `Use ${label}`;
+    const choice = await vscode.window.showInformationMessage(
+        `Suggested safety level for "${dirName}": ${LEVEL_MARKERS[suggestion.level]} ${label} (now ${SAFETY_DEFINITIONS[currentLevel].label})`,
+        { modal: true, detail: suggestion.reasons.join('\n') },
+        accept
+    );
+    if (choice === accept) {
+        await handleSafetyLevelChange(targetPath, dirName, currentLevel, suggestion.level, panel?.webview);
+    }
+}
+
+// Save and open dialog filter for JSON files
+const JSON_FILTER: Record<string, string[]> = {
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    JSON: ['json']
+};
+
+// Save the safety level overrides with home-relative paths, to back them up or move them to another machine
+async function exportSafetyOverrides() {
+    const overrides = getSafetyOverrides();
+    if (Object.keys(overrides).length === 0) {
+        vscode.window.showInformationMessage('There are no custom safety levels to export');
+        return;
+    }
+
+    const uri = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.joinPath(vscode.Uri.file(os.homedir()), 'ai-cache-safety-levels.json'),
+        filters: JSON_FILTER,
+        saveLabel: 'Export Safety Levels'
+    });
+    if (!uri) {
+        return;
+    }
+
+    const content = JSON.stringify(createOverrideExport(overrides), null, 2);
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'));
+    vscode.window.showInformationMessage(`${Object.keys(overrides).length} custom safety level(s) exported to ${uri.fsPath}`);
+}
+
+// Number of changes listed in the import preview
+const IMPORT_PREVIEW_LIMIT = 20;
+
+// Load exported overrides, merging them into the current ones or replacing them after a preview
+async function importSafetyOverrides() {
+    const uris = await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        filters: JSON_FILTER,
+        openLabel: 'Import Safety Levels'
+    });
+    if (!uris || uris.length === 0) {
+        return;
+    }
+
+    const content = Buffer.from(await vscode.workspace.fs.readFile(uris[0])).toString('utf8');
+    const parsed = parseOverrideImport(content);
+    if (parsed.errors.length > 0) {
+        console.warn('AI Cache Cleaner: invalid safety level import\n' + parsed.errors.join('\n'));
+    }
+    if (Object.keys(parsed.overrides).length === 0) {
+        vscode.window.showErrorMessage(
+            `No safety levels found in ${uris[0].fsPath}${parsed.errors.length > 0 ? `: ${parsed.errors[0]}` : ''}`
+        );
+        return;
+    }
+
+    const mode = await vscode.window.showQuickPick([
+        { label: 'Merge', description: 'Keep your other custom levels; imported levels win', mode: 'merge' as OverrideImportMode },
+        { label: 'Replace', description: 'Drop your current custom levels', mode: 'replace' as OverrideImportMode }
+    ], { placeHolder: 'How should the imported safety levels be applied?' });
+    if (!mode) {
+        return;
+    }
+
+    const current = getSafetyOverrides();
+    const next = applyOverrideImport(current, parsed.overrides, mode.mode);
+    const changes = diffOverrides(current, next);
+    if (changes.length === 0) {
+        vscode.window.showInformationMessage('The imported safety levels match your current ones');
+        return;
+    }
+
+    const notes: string[] = [];
+    if (parsed.rewritten > 0) {
+        notes.push(`${parsed.rewritten} path(s) from another home directory were moved to ${os.homedir()}.`);
+    }
+    if (parsed.errors.length > 0) {
+        notes.push(`${parsed.errors.length} invalid entr${parsed.errors.length === 1 ? 'y' : 'ies'} will be skipped: ${parsed.errors[0]}`);
+    }
+    const preview = changes.slice(0, IMPORT_PREVIEW_LIMIT).map(change => describeOverrideChange(change));
+    if (changes.length > IMPORT_PREVIEW_LIMIT) {
+        preview.push(`... and ${changes.length - IMPORT_PREVIEW_LIMIT} more`);
+    }
+
+    const confirm = await vscode.window.showWarningMessage(
+        `${mode.label} safety levels: ${changes.length} change(s)?`,
+        { modal: true, detail: [...notes, '', ...preview].join('\n').trim() },
+        'Import'
+    );
+    if (confirm !== 'Import') {
+        return;
+    }
+
+    await replaceSafetyOverrides(next);
+    if (panel) {
+        sendSafetyOverrides(panel.webview);
+    }
+    vscode.window.showInformationMessage(`Imported safety levels: ${changes.length} change(s)`);
+}
+
+// The dashboard webview is optional so the command palette can undo as well
+async function handleUndoLastCleanup(webview: vscode.Webview | undefined) {
+    const batch = getLastBatch(getQuarantineDir());
+    if (batch.length === 0) {
+        vscode.window.showInformationMessage('Nothing to undo - the quarantine is empty');
+        return;
+    }
+
+    const confirm = await vscode.window.showWarningMessage(
+        `Restore ${batch.length} item(s) removed by the last cleanup?`,
+        { modal: true, detail: batch.map(entry => entry.originalPath).join('\n') },
+        'Restore'
+    );
+
+    if (confirm === 'Restore') {
+        await handleRestore(batch.map(entry => entry.id), webview);
+    }
+}
+
+async function handleRestore(ids: string[], webview: vscode.Webview | undefined) {
+    const results = restoreEntries(getQuarantineDir(), ids);
+    const restored = results.filter(r => r.success);
+    const failed = results.filter(r => !r.success);
+
+    webview?.postMessage({
+        command: 'restoreResult',
+        data: results
+    });
+
+    if (failed.length === 0) {
+        vscode.window.showInformationMessage(`Restored ${restored.length} item(s)`);
+    } else {
+        vscode.window.showWarningMessage(
+            `Restored ${restored.length} item(s), ${failed.length} failed: ${failed[0].error}`
+        );
+    }
+
+    if (webview) {
+        sendQuarantine(webview);
+        sendScanData(webview);
+    } else {
+        lastScanResult = undefined;
+        runBackgroundScan();
+    }
+}
+
+async function handleSearch(query: string, webview: vscode.Webview) {
+    if (isSearching) {
+        webview.postMessage({
+            command: 'searchError',
+            error: 'Search already in progress'
+        });
+        return;
+    }
+
+    if (!query || query.trim().length < 2) {
+        webview.postMessage({
+            command: 'searchError',
+            error: 'Please enter at least 2 characters'
+        });
+        return;
+    }
+
+    isSearching = true;
+    const controller = new AbortController();
+    currentSearch = controller;
+
+    try {
+        webview.postMessage({
+            command: 'searchProgress',
+            data: { percentage: 0, currentPath: 'Starting search...' }
+        });
+
+        // Matches are measured asynchronously, so a large one does not block the extension host
+        const results: SearchResult[] = [];
+        const search = searchDirectories(
+            query,
+            progress => webview.postMessage({ command: 'searchProgress', data: progress }),
+            { excludePatterns: getExcludePatterns(), signal: controller.signal }
+        );
+        for await (const result of search) {
+            results.push(result);
+        }
+        lastSearchPaths = new Set(results.map(r => r.path));
+
+        webview.postMessage({
+            command: 'searchProgress',
+            data: { percentage: 100, currentPath: 'Complete!' }
+        });
+
+        webview.postMessage({
+            command: 'searchComplete',
+            data: {
+                query,
+                results,
+                totalSize: results.reduce((sum, r) => sum + r.size, 0),
+                totalSizeFormatted: formatSize(results.reduce((sum, r) => sum + r.size, 0))
+            }
+        });
+
+    } catch (error) {
+        if (controller.signal.aborted) {
+            return;
+        }
         webview.postMessage({
             command: 'searchError',
             error: error instanceof Error ? error.message : 'Search failed'
         });
     } finally {
-        isSearching = false;
+        if (currentSearch === controller) {
+            currentSearch = undefined;
+            isSearching = false;
+        }
+    }
+}
+
+async function handleAgeCleanup(targetPath: string, dirName: string, webview: vscode.Webview) {
+    // Worked out here rather than taken from the webview message
+    const level = getCurrentSafetyLevel(targetPath);
+    if (level === 'danger') {
+        vscode.window.showWarningMessage(`"${dirName}" is a Danger-level directory and cannot be cleaned`);
+        return;
+    }
+
+    const config = vscode.workspace.getConfiguration('aiCacheCleaner');
+    const timestamp = config.get<'mtime' | 'atime'>('ageCleanupTimestamp', 'mtime');
+    const timestampLabel = timestamp === 'atime' ? 'last access time' : 'last modification time';
+
+    const input = await vscode.window.showInputBox({
+        title: `Delete old files in "${dirName}"`,
+        prompt: `Delete files whose ${timestampLabel} is older than this many days`,
+        value: String(config.get<number>('ageCleanupDays', 7)),
+        validateInput: value => /^\d+$/.test(value.trim()) ? undefined : 'Enter a whole number of days'
+    });
+    if (input === undefined) {
+        return;
+    }
+    const days = parseInt(input.trim(), 10);
+
+    const warning = level === 'caution'
+        ? `\n\n⚠️ CAUTION: This directory may contain user preferences or history that cannot be easily recovered.`
+        : '';
+    const confirm = await vscode.window.showWarningMessage(
+        `${getRunningToolWarning([targetPath])}Delete files older than ${days} day(s) in "${dirName}"?${warning}`,
+        { modal: true, detail: targetPath },
+        'Delete Old Files'
+    );
+    if (confirm !== 'Delete Old Files') {
+        return;
+    }
+
+    const deleteOptions: DeleteOptions = { ...getDeleteOptions(), batchId: createBatchId() };
+    const result = await deleteOlderThan(targetPath, { olderThanDays: days, timestamp }, deleteOptions);
+
+    recordAudit([{
+        timestamp: new Date().toISOString(),
+        path: targetPath,
+        safetyLevel: level,
+        overridden: targetPath in getSafetyOverrides(),
+        action: 'olderThan',
+        mode: deleteOptions.mode || 'permanent',
+        trigger: 'manual',
+        success: result.success,
+        freedBytes: result.freedBytes,
+        error: result.error,
+        batchId: deleteOptions.batchId
+    }]);
+
+    webview.postMessage({
+        command: 'ageCleanupResult',
+        data: {
+            ...result,
+            freedBytesFormatted: formatSize(result.freedBytes)
+        }
+    });
+
+    if (result.success) {
+        vscode.window.showInformationMessage(
+            `Removed ${result.deletedFiles} file(s) older than ${days} day(s) from "${dirName}" ` +
+            `(${formatSize(result.freedBytes)}), kept ${result.keptFiles} newer file(s)`
+        );
+    } else {
+        vscode.window.showWarningMessage(`Cleanup of "${dirName}" incomplete: ${result.error}`);
+    }
+
+    purgeExpiredQuarantine();
+    sendQuarantine(webview);
+    sendScanData(webview);
+}
+
+function findScannedDirectory(dirs: CacheDirectory[] | undefined, targetPath: string): CacheDirectory | undefined {
+    for (const dir of dirs || []) {
+        if (dir.path === targetPath) {
+            return dir;
+        }
+        const found = findScannedDirectory(dir.children, targetPath);
+        if (found) {
+            return found;
+        }
+    }
+    return undefined;
+}
+
+// A path's level from the user's overrides, else the last scan, else the configured default
+function getCurrentSafetyLevel(targetPath: string): SafetyLevel {
+    return getSafetyOverrides()[targetPath] ||
+        findScannedDirectory(lastScanResult?.directories, targetPath)?.safetyLevel ||
+        vscode.workspace.getConfiguration('aiCacheCleaner').get<SafetyLevel>('defaultSafetyLevel', 'caution');
+}
+
+// Explain which rule decided the safety level of a selected path
+function classifyForPreview(targetPath: string, safetyLevels: Record<string, SafetyLevel>): PreviewClassification {
+    const override = getSafetyOverrides()[targetPath];
+    if (override) {
+        return { level: override, rule: 'User override' };
+    }
+
+    const scanned = findScannedDirectory(lastScanResult?.directories, targetPath);
+    if (scanned) {
+        return {
+            level: safetyLevels[targetPath] || scanned.safetyLevel,
+            rule: scanned.safetyRule || 'Scanner classification'
+        };
+    }
+
+    return { level: safetyLevels[targetPath] || 'caution', rule: 'Added from search' };
+}
+
+async function handlePreview(paths: string[], safetyLevels: Record<string, SafetyLevel>, webview: vscode.Webview) {
+    try {
+        lastPreview = await previewCleanup(paths, p => classifyForPreview(p, safetyLevels));
+        webview.postMessage({
+            command: 'previewResult',
+            data: lastPreview
+        });
+    } catch (error) {
+        webview.postMessage({
+            command: 'previewError',
+            error: error instanceof Error ? error.message : 'Preview failed'
+        });
+    }
+}
+
+async function handleExportPreview() {
+    if (!lastPreview) {
+        vscode.window.showWarningMessage('Run a preview before exporting a report');
+        return;
+    }
+
+    const uri = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.joinPath(vscode.Uri.file(os.homedir()), 'ai-cache-cleanup-preview.json'),
+        filters: JSON_FILTER,
+        saveLabel: 'Export Report'
+    });
+    if (!uri) {
+        return;
     }
+
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(JSON.stringify(lastPreview, null, 2), 'utf8'));
+    vscode.window.showInformationMessage(`Cleanup preview exported to ${uri.fsPath}`);
 }
 
-async function handleDelete(paths: string[], safetyLevels: Record<string, SafetyLevel>, webview: vscode.Webview) {
+/**
+ * Ask before deleting, spelling out how many caution and danger items are
+ * involved. Only leaf paths (without selected children) are counted.
+ */
+async function confirmDeletion(
+    paths: string[],
+    safetyLevels: Record<string, SafetyLevel>,
+    detail?: string
+): Promise<boolean> {
     // Helper to check if a path has any children in the selection
     const hasSelectedChild = (path: string): boolean => {
         for (const p of paths) {
@@ -450,22 +1923,130 @@ async function handleDelete(paths: string[], safetyLevels: Record<string, Safety
         confirmMessage = warningDetails + `Summary:\n🟢 Safe: ${safeCount}\n🟡 Caution: ${cautionCount}\n🔴 Danger: ${dangerCount}\n\nContinue with deletion?`;
     }
 
-    const buttons = dangerCount > 0
+    const runningWarning = getRunningToolWarning(leafPaths);
+    confirmMessage = runningWarning + confirmMessage;
+
+    const buttons = dangerCount > 0 || (runningWarning && getRunningToolCheck() === 'warn')
         ? ['Delete Anyway', 'Cancel']
         : (cautionCount > 0 ? ['Delete', 'Cancel'] : ['Delete']);
 
     const confirm = await vscode.window.showWarningMessage(
         confirmMessage,
-        { modal: true },
+        { modal: true, detail },
         ...buttons
     );
 
-    if (confirm !== 'Delete' && confirm !== 'Delete Anyway') {
+    return confirm === 'Delete' || confirm === 'Delete Anyway';
+}
+
+function showDeleteSummary(
+    result: { results: DeleteResult[]; successCount: number; failCount: number; totalFreed: number },
+    deleteOptions: DeleteOptions
+) {
+    if (result.failCount === 0) {
+        const message = deleteOptions.mode === 'permanent'
+            ? `Successfully deleted ${result.successCount} item(s), freed ${formatSize(result.totalFreed)}`
+            : `Moved ${result.successCount} item(s) (${formatSize(result.totalFreed)}) to ` +
+              `${deleteOptions.mode === 'trash' ? 'the Trash' : 'quarantine'}. Use "Undo Last Cleanup" to restore.`;
+        vscode.window.showInformationMessage(message);
+    } else {
+        const firstError = result.results.find(r => !r.success)?.error;
+        vscode.window.showWarningMessage(
+            `Deleted ${result.successCount} item(s), ${result.failCount} failed${firstError ? `: ${firstError}` : ''}`
+        );
+    }
+}
+
+// Delete with the configured mode, keeping the result for reports and the audit log
+async function deleteAndSummarize(paths: string[], safetyLevels: Record<string, SafetyLevel>, trigger: AuditTrigger) {
+    const deleteOptions = getDeleteOptions();
+    const overrides = getSafetyOverrides();
+    // Classify before deleting, while the paths are still in the last scan
+    const classifications = new Map(paths.map(p => [p, classifyForPreview(p, safetyLevels)]));
+    const result = await deleteMultiple(paths, deleteOptions);
+    const timestamp = new Date().toISOString();
+
+    recordAudit(result.results.map(r => ({
+        timestamp,
+        path: r.path,
+        safetyLevel: classifications.get(r.path)?.level || 'caution',
+        overridden: r.path in overrides,
+        action: 'delete',
+        mode: deleteOptions.mode || 'permanent',
+        trigger,
+        success: r.success,
+        freedBytes: r.freedBytes,
+        error: r.error,
+        batchId: result.batchId
+    })));
+
+    lastCleanup = createCleanupReport(result, deleteOptions.mode || 'permanent');
+    showDeleteSummary(result, deleteOptions);
+    return result;
+}
+
+/**
+ * Save the scan tree, or the result of the last cleanup, as JSON, CSV or Markdown
+ */
+async function exportReport() {
+    let kind: 'scan' | 'cleanup' = 'scan';
+    if (lastCleanup) {
+        const picked = await vscode.window.showQuickPick([
+            { label: 'Scan Report', description: 'Directory tree with sizes and safety levels', report: 'scan' as const },
+            {
+                label: 'Last Cleanup',
+                description: `${lastCleanup.successCount + lastCleanup.failCount} item(s) at ${new Date(lastCleanup.timestamp).toLocaleString()}`,
+                report: 'cleanup' as const
+            }
+        ], { placeHolder: 'Select the report to export' });
+        if (!picked) {
+            return;
+        }
+        kind = picked.report;
+    }
+
+    const format = await vscode.window.showQuickPick([
+        { label: 'JSON', format: 'json' as ReportFormat },
+        { label: 'CSV', format: 'csv' as ReportFormat },
+        { label: 'Markdown', format: 'markdown' as ReportFormat }
+    ], { placeHolder: 'Select the report format' });
+    if (!format) {
+        return;
+    }
+
+    const context = { generatedAt: new Date().toISOString(), host: os.hostname(), platform: process.platform };
+    let content: string;
+    if (kind === 'cleanup' && lastCleanup) {
+        content = formatCleanupReport(lastCleanup, format.format, context);
+    } else {
+        const scanResult = lastScanResult || await scanWithProgress();
+        if (!scanResult) {
+            return;
+        }
+        content = formatScanReport(scanResult, format.format, getSafetyOverrides(), context);
+    }
+
+    const extension = REPORT_EXTENSIONS[format.format];
+    const uri = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.joinPath(vscode.Uri.file(os.homedir()), `ai-cache-${kind}-report.${extension}`),
+        filters: { [format.label]: [extension] },
+        saveLabel: 'Export Report'
+    });
+    if (!uri) {
+        return;
+    }
+
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'));
+    vscode.window.showInformationMessage(`Report exported to ${uri.fsPath}`);
+}
+
+async function handleDelete(paths: string[], safetyLevels: Record<string, SafetyLevel>, webview: vscode.Webview) {
+    if (!await confirmDeletion(paths, safetyLevels)) {
         webview.postMessage({ command: 'deleteCancelled' });
         return;
     }
 
-    const result = await deleteMultiple(paths);
+    const result = await deleteAndSummarize(paths, safetyLevels, 'manual');
 
     webview.postMessage({
         command: 'deleteResult',
@@ -475,17 +2056,8 @@ async function handleDelete(paths: string[], safetyLevels: Record<string, Safety
         }
     });
 
-    if (result.failCount === 0) {
-        vscode.window.showInformationMessage(
-            `Successfully deleted ${result.successCount} item(s), freed ${formatSize(result.totalFreed)}`
-        );
-    } else {
-        vscode.window.showWarningMessage(
-            `Deleted ${result.successCount} item(s), ${result.failCount} failed`
-        );
-    }
-
-
+    purgeExpiredQuarantine();
+    sendQuarantine(webview);
     sendScanData(webview);
 }
 
@@ -574,11 +2146,113 @@ function getWebviewContent(context: vscode.ExtensionContext, webview: vscode.Web
             </div>
         </div>
 
+        <!-- Cleanup Preview Modal -->
+        <div id="previewModal" class="modal hidden">
+            <div class="modal-content modal-lg">
+                <div class="modal-header">
+                    <h3>🔬 Cleanup Preview (dry run)</h3>
+                    <button id="closePreviewModalBtn" class="btn-close">✕</button>
+                </div>
+                <div id="previewBody" class="modal-body"></div>
+                <div class="modal-footer">
+                    <button id="exportPreviewBtn" class="btn btn-secondary btn-sm">Export Report</button>
+                    <button id="previewDeleteBtn" class="btn btn-danger">Delete These Items</button>
+                </div>
+            </div>
+        </div>
+
+        <!-- Quarantine Modal -->
+        <div id="quarantineModal" class="modal hidden">
+            <div class="modal-content">
+                <div class="modal-header">
+                    <h3>🗄 Quarantined Items</h3>
+                    <button id="closeQuarantineModalBtn" class="btn-close">✕</button>
+                </div>
+                <div class="modal-body">
+                    <div id="quarantineList" class="search-results-list"></div>
+                </div>
+                <div class="modal-footer">
+                    <span class="quarantine-note">Items are purged automatically after the retention period.</span>
+                </div>
+            </div>
+        </div>
+
+        <!-- Cleanup Policies Modal -->
+        <div id="policiesModal" class="modal hidden">
+            <div class="modal-content modal-lg">
+                <div class="modal-header">
+                    <h3>🕒 Automatic Cleanup</h3>
+                    <button id="closePoliciesModalBtn" class="btn-close">✕</button>
+                </div>
+                <div id="policiesBody" class="modal-body"></div>
+                <div class="modal-footer">
+                    <span class="quarantine-note">Policies are configured in the aiCacheCleaner.cleanupPolicies setting.</span>
+                </div>
+            </div>
+        </div>
+
+        <!-- Audit Log Modal -->
+        <div id="auditModal" class="modal hidden">
+            <div class="modal-content modal-lg">
+                <div class="modal-header">
+                    <h3>📜 Audit Log</h3>
+                    <button id="closeAuditModalBtn" class="btn-close">✕</button>
+                </div>
+                <div id="auditBody" class="modal-body"></div>
+                <div class="modal-footer">
+                    <span class="quarantine-note">Showing the latest ${AUDIT_VIEW_LIMIT} deletions.</span>
+                    <button id="showAuditOutputBtn" class="btn btn-secondary btn-sm">Show in Output</button>
+                </div>
+            </div>
+        </div>
+
+        <!-- Trends Modal -->
+        <div id="trendsModal" class="modal hidden">
+            <div class="modal-content modal-lg">
+                <div class="modal-header">
+                    <h3>📈 Growth Trends</h3>
+                    <button id="closeTrendsModalBtn" class="btn-close">✕</button>
+                </div>
+                <div id="trendsBody" class="modal-body"></div>
+                <div class="modal-footer">
+                    <span class="quarantine-note">A snapshot is saved after each scan (at most one per hour).</span>
+                    <button id="clearHistoryBtn" class="btn btn-secondary btn-sm">Clear History</button>
+                </div>
+            </div>
+        </div>
+
         <header class="header">
             <div class="header-left">
                 <h1>🧹 AI Cache Cleaner</h1>
             </div>
             <div class="header-right">
+                <button id="undoBtn" class="btn btn-secondary btn-sm" title="Restore the items removed by the last cleanup" disabled>
+                    ↩ Undo Last Cleanup
+                </button>
+                <button id="quarantineBtn" class="btn btn-secondary btn-sm" title="Browse and restore quarantined items">
+                    🗄 Quarantine (<span id="quarantineCount">0</span>)
+                </button>
+                <button id="policiesBtn" class="btn btn-secondary btn-sm" title="Scheduled cleanup policies and their runs">
+                    🕒 Auto Cleanup
+                </button>
+                <button id="trendsBtn" class="btn btn-secondary btn-sm" title="Show how cache sizes changed over time">
+                    📈 Trends
+                </button>
+                <button id="auditBtn" class="btn btn-secondary btn-sm" title="Every deletion with its level, trigger and result">
+                    📜 Audit Log
+                </button>
+                <button id="exportReportBtn" class="btn btn-secondary btn-sm" title="Export the scan or the last cleanup as JSON, CSV or Markdown">
+                    📄 Export
+                </button>
+                <button id="orphansBtn" class="btn btn-secondary btn-sm hidden" title="Delete Claude Code data of projects whose folder no longer exists">
+                    🧹 Orphaned Projects (<span id="orphanCount">0</span>)
+                </button>
+                <button id="exportLevelsBtn" class="btn btn-secondary btn-sm" title="Save your custom safety levels to a JSON file">
+                    Export Levels
+                </button>
+                <button id="importLevelsBtn" class="btn btn-secondary btn-sm" title="Load custom safety levels from an exported file">
+                    Import Levels
+                </button>
                 <button id="resetAllBtn" class="btn btn-secondary btn-sm" title="Reset all safety levels">
                     Reset All Levels
                 </button>
@@ -592,6 +2266,7 @@ function getWebviewContent(context: vscode.ExtensionContext, webview: vscode.Web
                 <div class="total-size">
                     <span class="total-label">Total:</span>
                     <span id="totalSize" class="total-value">--</span>
+                    <span id="totalDiskUsage" class="total-disk" title="Space allocated on disk"></span>
                 </div>
             </div>
         </header>
@@ -666,6 +2341,13 @@ function getWebviewContent(context: vscode.ExtensionContext, webview: vscode.Web
                         <span class="legend-item"><span class="dot danger"></span> Danger</span>
                     </div>
                 </div>
+                <div id="scanProgress" class="search-progress hidden">
+                    <div class="progress-bar">
+                        <div id="scanProgressFill" class="progress-fill"></div>
+                    </div>
+                    <span id="scanProgressText" class="progress-text">Scanning...</span>
+                    <button id="cancelScanBtn" class="btn btn-secondary btn-sm">Cancel</button>
+                </div>
                 <div id="directoryTree" class="directory-tree">
                     <div class="loading">Scanning...</div>
                 </div>
@@ -677,6 +2359,9 @@ function getWebviewContent(context: vscode.ExtensionContext, webview: vscode.Web
                     <span id="selectedCount">0</span> items selected
                     (<span id="selectedSize">0 B</span>)
                 </div>
+                <button id="previewBtn" class="btn btn-secondary" title="Dry run: report what would be deleted without touching the disk" disabled>
+                    Preview
+                </button>
                 <button id="deleteBtn" class="btn btn-danger" disabled>
                     <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
                         <path d="M3 6h18M19 6v14a2 2 0 01-2 2H7a2 2 0 01-2-2V6m3 0V4a2 2 0 012-2h4a2 2 0 012 2v2"/>
@@ -700,9 +2385,15 @@ function getWebviewContent(context: vscode.ExtensionContext, webview: vscode.Web
         let currentSafetyEditPath = null;
         let currentSafetyEditDirName = null;
         let currentSafetyOriginalLevel = null;
+        let quarantineItems = [];
+        let scanHistory = { snapshots: [], windowDays: 7, fastestGrowing: [] };
+        let growthByPath = new Map();
+        let policyData = { policies: [], runs: [] };
+        let auditEntries = [];
 
         // DOM Elements
         const totalSizeEl = document.getElementById('totalSize');
+        const totalDiskUsageEl = document.getElementById('totalDiskUsage');
         const summaryCardsEl = document.getElementById('summaryCards');
         const directoryTreeEl = document.getElementById('directoryTree');
         const selectedCountEl = document.getElementById('selectedCount');
@@ -710,6 +2401,8 @@ function getWebviewContent(context: vscode.ExtensionContext, webview: vscode.Web
         const deleteBtnEl = document.getElementById('deleteBtn');
         const refreshBtnEl = document.getElementById('refreshBtn');
         const resetAllBtnEl = document.getElementById('resetAllBtn');
+        const exportLevelsBtnEl = document.getElementById('exportLevelsBtn');
+        const importLevelsBtnEl = document.getElementById('importLevelsBtn');
         const searchInputEl = document.getElementById('searchInput');
         const searchBtnEl = document.getElementById('searchBtn');
         const cancelSearchBtnEl = document.getElementById('cancelSearchBtn');
@@ -733,6 +2426,39 @@ function getWebviewContent(context: vscode.ExtensionContext, webview: vscode.Web
         const closeSafetyModalBtnEl = document.getElementById('closeSafetyModalBtn');
         const resetSafetyBtnEl = document.getElementById('resetSafetyBtn');
         const saveSafetyBtnEl = document.getElementById('saveSafetyBtn');
+        const scanProgressEl = document.getElementById('scanProgress');
+        const scanProgressFillEl = document.getElementById('scanProgressFill');
+        const scanProgressTextEl = document.getElementById('scanProgressText');
+        const cancelScanBtnEl = document.getElementById('cancelScanBtn');
+        const previewBtnEl = document.getElementById('previewBtn');
+        const previewModalEl = document.getElementById('previewModal');
+        const previewBodyEl = document.getElementById('previewBody');
+        const closePreviewModalBtnEl = document.getElementById('closePreviewModalBtn');
+        const exportPreviewBtnEl = document.getElementById('exportPreviewBtn');
+        const previewDeleteBtnEl = document.getElementById('previewDeleteBtn');
+        const undoBtnEl = document.getElementById('undoBtn');
+        const quarantineBtnEl = document.getElementById('quarantineBtn');
+        const quarantineCountEl = document.getElementById('quarantineCount');
+        const quarantineModalEl = document.getElementById('quarantineModal');
+        const quarantineListEl = document.getElementById('quarantineList');
+        const closeQuarantineModalBtnEl = document.getElementById('closeQuarantineModalBtn');
+        const policiesBtnEl = document.getElementById('policiesBtn');
+        const policiesModalEl = document.getElementById('policiesModal');
+        const policiesBodyEl = document.getElementById('policiesBody');
+        const closePoliciesModalBtnEl = document.getElementById('closePoliciesModalBtn');
+        const trendsBtnEl = document.getElementById('trendsBtn');
+        const trendsModalEl = document.getElementById('trendsModal');
+        const trendsBodyEl = document.getElementById('trendsBody');
+        const closeTrendsModalBtnEl = document.getElementById('closeTrendsModalBtn');
+        const clearHistoryBtnEl = document.getElementById('clearHistoryBtn');
+        const exportReportBtnEl = document.getElementById('exportReportBtn');
+        const orphansBtnEl = document.getElementById('orphansBtn');
+        const orphanCountEl = document.getElementById('orphanCount');
+        const auditBtnEl = document.getElementById('auditBtn');
+        const auditModalEl = document.getElementById('auditModal');
+        const auditBodyEl = document.getElementById('auditBody');
+        const closeAuditModalBtnEl = document.getElementById('closeAuditModalBtn');
+        const showAuditOutputBtnEl = document.getElementById('showAuditOutputBtn');
 
         // Event Listeners
         refreshBtnEl.addEventListener('click', () => {
@@ -740,42 +2466,139 @@ function getWebviewContent(context: vscode.ExtensionContext, webview: vscode.Web
             vscode.postMessage({ command: 'refresh' });
         });
 
+        cancelScanBtnEl.addEventListener('click', () => {
+            vscode.postMessage({ command: 'cancelScan' });
+        });
+
+        undoBtnEl.addEventListener('click', () => {
+            vscode.postMessage({ command: 'undoLastCleanup' });
+        });
+
+        quarantineBtnEl.addEventListener('click', () => {
+            renderQuarantine();
+            quarantineModalEl.classList.remove('hidden');
+        });
+
+        closeQuarantineModalBtnEl.addEventListener('click', () => {
+            quarantineModalEl.classList.add('hidden');
+        });
+
+        policiesBtnEl.addEventListener('click', () => {
+            renderPolicies();
+            policiesModalEl.classList.remove('hidden');
+        });
+
+        closePoliciesModalBtnEl.addEventListener('click', () => {
+            policiesModalEl.classList.add('hidden');
+        });
+
+        trendsBtnEl.addEventListener('click', () => {
+            renderTrends();
+            trendsModalEl.classList.remove('hidden');
+        });
+
+        closeTrendsModalBtnEl.addEventListener('click', () => {
+            trendsModalEl.classList.add('hidden');
+        });
+
+        clearHistoryBtnEl.addEventListener('click', () => {
+            vscode.postMessage({ command: 'clearHistory' });
+        });
+
+        exportReportBtnEl.addEventListener('click', () => {
+            vscode.postMessage({ command: 'exportReport' });
+        });
+
+        orphansBtnEl.addEventListener('click', () => {
+            vscode.postMessage({ command: 'cleanOrphanedProjects' });
+        });
+
+        auditBtnEl.addEventListener('click', () => {
+            renderAuditLog();
+            auditModalEl.classList.remove('hidden');
+        });
+
+        closeAuditModalBtnEl.addEventListener('click', () => {
+            auditModalEl.classList.add('hidden');
+        });
+
+        showAuditOutputBtnEl.addEventListener('click', () => {
+            vscode.postMessage({ command: 'showAuditOutput' });
+        });
+
+        exportLevelsBtnEl.addEventListener('click', () => {
+            vscode.postMessage({ command: 'exportSafetyOverrides' });
+        });
+
+        importLevelsBtnEl.addEventListener('click', () => {
+            vscode.postMessage({ command: 'importSafetyOverrides' });
+        });
+
         resetAllBtnEl.addEventListener('click', () => {
             vscode.postMessage({ command: 'resetAllSafetyLevels' });
         });
 
-        deleteBtnEl.addEventListener('click', () => {
-            if (selectedPaths.size > 0) {
-                // Collect safety levels for selected paths
-                const safetyLevels = {};
-                const collectLevels = (dirs) => {
-                    if (!dirs) return;
-                    for (const dir of dirs) {
-                        if (selectedPaths.has(dir.path)) {
-                            // Check if there's a user override first
-                            safetyLevels[dir.path] = safetyOverrides[dir.path] || dir.safetyLevel || 'safe';
-                        }
-                        if (dir.children) collectLevels(dir.children);
+        // Collect effective safety levels for the selected paths
+        function collectSelectedSafetyLevels() {
+            const safetyLevels = {};
+            const collectLevels = (dirs) => {
+                if (!dirs) return;
+                for (const dir of dirs) {
+                    if (selectedPaths.has(dir.path)) {
+                        // Check if there's a user override first
+                        safetyLevels[dir.path] = safetyOverrides[dir.path] || dir.safetyLevel || 'safe';
                     }
-                };
-                if (scanData && scanData.directories) {
-                    collectLevels(scanData.directories);
+                    if (dir.children) collectLevels(dir.children);
                 }
-                // Also check custom directories
-                for (const path of selectedPaths) {
-                    if (!safetyLevels[path]) {
-                        safetyLevels[path] = safetyOverrides[path] || 'safe';
-                    }
+            };
+            if (scanData && scanData.directories) {
+                collectLevels(scanData.directories);
+            }
+            // Also check custom directories
+            collectLevels(customDirectories);
+            for (const path of selectedPaths) {
+                if (!safetyLevels[path]) {
+                    safetyLevels[path] = safetyOverrides[path] || 'safe';
                 }
-                
+            }
+            return safetyLevels;
+        }
+
+        deleteBtnEl.addEventListener('click', () => {
+            if (selectedPaths.size > 0) {
                 vscode.postMessage({ 
                     command: 'delete', 
                     paths: Array.from(selectedPaths),
-                    safetyLevels: safetyLevels
+                    safetyLevels: collectSelectedSafetyLevels()
+                });
+            }
+        });
+
+        previewBtnEl.addEventListener('click', () => {
+            if (selectedPaths.size > 0) {
+                previewBodyEl.innerHTML = '<div class="loading">Analyzing selected items...</div>';
+                previewModalEl.classList.remove('hidden');
+                vscode.postMessage({
+                    command: 'preview',
+                    paths: Array.from(selectedPaths),
+                    safetyLevels: collectSelectedSafetyLevels()
                 });
             }
         });
 
+        closePreviewModalBtnEl.addEventListener('click', () => {
+            previewModalEl.classList.add('hidden');
+        });
+
+        exportPreviewBtnEl.addEventListener('click', () => {
+            vscode.postMessage({ command: 'exportPreview' });
+        });
+
+        previewDeleteBtnEl.addEventListener('click', () => {
+            previewModalEl.classList.add('hidden');
+            deleteBtnEl.click();
+        });
+
         searchBtnEl.addEventListener('click', startSearch);
         searchInputEl.addEventListener('keypress', (e) => {
             if (e.key === 'Enter') startSearch();
@@ -892,6 +2715,260 @@ function getWebviewContent(context: vscode.ExtensionContext, webview: vscode.Web
             currentSafetyOriginalLevel = null;
         }
 
+        function formatDate(iso) {
+            return iso ? new Date(iso).toLocaleString() : '-';
+        }
+
+        function renderAuditLog() {
+            if (auditEntries.length === 0) {
+                auditBodyEl.innerHTML = '<div class="no-results">Nothing has been deleted yet.</div>';
+                return;
+            }
+
+            const rows = auditEntries.map(entry => \`
+                <tr class="\${entry.success ? '' : 'preview-error'}">
+                    <td>\${formatDate(entry.timestamp)}</td>
+                    <td>\${escapeHtml(entry.policy ? entry.trigger + ': ' + entry.policy : entry.trigger)}</td>
+                    <td>\${escapeHtml(entry.action)} (\${escapeHtml(entry.mode)})</td>
+                    <td class="preview-path" title="\${escapeHtml(entry.path)}">\${escapeHtml(entry.path)}</td>
+                    <td>\${escapeHtml(entry.safetyLevel)}\${entry.overridden ? ' (override)' : ''}</td>
+                    <td>\${escapeHtml(entry.success ? entry.freedBytesFormatted : entry.error || 'Failed')}</td>
+                </tr>
+            \`).join('');
+
+            auditBodyEl.innerHTML = \`
+                <table class="trend-table">
+                    <thead>
+                        <tr><th>Time</th><th>Trigger</th><th>Action</th><th>Path</th><th>Level</th><th>Freed</th></tr>
+                    </thead>
+                    <tbody>\${rows}</tbody>
+                </table>
+            \`;
+        }
+
+        function renderPreview(preview) {
+            const counts = preview.levelCounts;
+            const rows = preview.items.map(item => \`
+                <details class="preview-item">
+                    <summary>
+                        <span class="safety-badge \${item.safetyLevel}">\${getSafetyLabel(item.safetyLevel)}</span>
+                        <span class="preview-path">\${escapeHtml(item.path)}</span>
+                        <span class="preview-size">\${formatBytes(item.totalBytes)}</span>
+                    </summary>
+                    <div class="preview-details">
+                        <div><strong>Rule:</strong> \${escapeHtml(item.safetyRule)}</div>
+                        \${item.error ? \`<div class="preview-error">\${escapeHtml(item.error)}</div>\` : ''}
+                        <div><strong>Files:</strong> \${item.fileCount} in \${item.directoryCount} folder(s)</div>
+                        <div><strong>Oldest:</strong> \${formatDate(item.oldestMtime)} · <strong>Newest:</strong> \${formatDate(item.newestMtime)}</div>
+                        \${item.largestFiles.length > 0 ? \`
+                            <div><strong>Largest files:</strong></div>
+                            <ul class="preview-largest">
+                                \${item.largestFiles.map(f => \`<li><span>\${escapeHtml(f.path)}</span> <span>\${formatBytes(f.size)}</span></li>\`).join('')}
+                            </ul>\` : ''}
+                    </div>
+                </details>
+            \`).join('');
+
+            previewBodyEl.innerHTML = \`
+                <div class="preview-summary">
+                    <div><strong>\${preview.items.length}</strong> item(s)</div>
+                    <div><strong>\${preview.totalFiles}</strong> file(s)</div>
+                    <div><strong>\${formatBytes(preview.totalBytes)}</strong> would be removed</div>
+                    <div>🟢 \${counts.safe} · 🟡 \${counts.caution} · 🔴 \${counts.danger}</div>
+                </div>
+                \${rows || '<div class="no-results">Nothing selected.</div>'}
+            \`;
+        }
+
+        function describeRule(rule) {
+            const parts = [];
+            parts.push((rule.levels || ['safe']).join('/') + ' items');
+            if (rule.tools) parts.push('of ' + escapeHtml(rule.tools.join(', ')));
+            if (rule.paths) parts.push('in ' + escapeHtml(rule.paths.join(', ')));
+            if (rule.olderThanDays !== undefined) parts.push(\`older than \${rule.olderThanDays} days\`);
+            if (rule.maxSizeMB !== undefined) parts.push(\`capped at \${rule.maxSizeMB} MB\`);
+            return parts.join(' ');
+        }
+
+        function renderPolicies() {
+            const policyRows = policyData.policies.map(policy => \`
+                <div class="search-result-item">
+                    <div class="result-info">
+                        <span class="result-name">\${escapeHtml(policy.name)} <small>(\${escapeHtml(policy.schedule)}\${policy.approval === 'pending' ? ', not scheduled' : policy.enabled ? '' : ', disabled'})</small>\${policy.source ? \` <span class="policy-badge" title="\${escapeHtml(policy.source)}">team policy</span>\` : ''}</span>
+                        <span class="result-path">\${policy.rules.map(describeRule).join(' · ')}</span>
+                        <span class="result-tool">Last run: \${formatDate(policy.lastRun)} · Next: \${formatDate(policy.nextRun)}</span>
+                    </div>
+                    \${policy.approval ? \`<button class="btn btn-secondary btn-sm approve-preset-btn" data-name="\${escapeHtml(policy.name)}" data-approved="\${policy.approval === 'pending'}" title="Presets from a workspace policy file only run on schedule once you approve them">\${policy.approval === 'pending' ? 'Schedule' : 'Unschedule'}</button>\` : ''}
+                    <button class="btn btn-secondary btn-sm run-policy-btn" data-name="\${escapeHtml(policy.name)}">Run Now</button>
+                </div>
+            \`).join('');
+
+            const runRows = policyData.runs.map(run => \`
+                <details class="preview-item">
+                    <summary>
+                        <span class="preview-path">\${escapeHtml(run.policy)} · \${escapeHtml(run.trigger)} · \${new Date(run.startedAt).toLocaleString()}</span>
+                        <span class="preview-size">\${run.totalFreedFormatted}</span>
+                    </summary>
+                    <div class="preview-details">
+                        \${run.actions.length === 0 ? '<div>Nothing matched.</div>' : ''}
+                        <ul class="preview-largest">
+                            \${run.actions.map(action => \`
+                                <li class="\${action.success ? '' : 'preview-error'}">
+                                    <span>\${escapeHtml(action.action)} \${escapeHtml(action.path)}\${action.error ? ' - ' + escapeHtml(action.error) : ''}</span>
+                                    <span>\${formatBytes(action.freedBytes)}</span>
+                                </li>\`).join('')}
+                        </ul>
+                    </div>
+                </details>
+            \`).join('');
+
+            policiesBodyEl.innerHTML = \`
+                <h4>Policies</h4>
+                \${policyRows || '<div class="no-results">No cleanup policies configured.</div>'}
+                <h4>Recent runs</h4>
+                \${runRows || '<div class="no-results">No automatic cleanup has run yet.</div>'}
+            \`;
+
+            policiesBodyEl.querySelectorAll('.run-policy-btn').forEach(btn => {
+                btn.addEventListener('click', () => {
+                    vscode.postMessage({ command: 'runPolicy', name: btn.dataset.name });
+                });
+            });
+
+            policiesBodyEl.querySelectorAll('.approve-preset-btn').forEach(btn => {
+                btn.addEventListener('click', () => {
+                    vscode.postMessage({ command: 'setPresetApproval', name: btn.dataset.name, approved: btn.dataset.approved === 'true' });
+                });
+            });
+        }
+
+        const TREND_COLORS = ['#4fc3f7', '#81c784', '#ffb74d', '#e57373', '#ba68c8', '#4db6ac', '#f06292', '#a1887f'];
+
+        // Line chart of one value per snapshot for each series
+        function renderTrendChart(snapshots, series) {
+            const width = 800;
+            const height = 220;
+            const pad = 40;
+            const times = snapshots.map(s => Date.parse(s.timestamp));
+            const minTime = Math.min(...times);
+            const timeSpan = Math.max(Math.max(...times) - minTime, 1);
+            const maxValue = Math.max(1, ...series.flatMap(line => line.values.filter(v => v !== undefined)));
+            const x = t => pad + ((t - minTime) / timeSpan) * (width - 2 * pad);
+            const y = v => height - pad - (v / maxValue) * (height - 2 * pad);
+
+            const lines = series.map((line, index) => {
+                const points = line.values
+                    .map((v, i) => v === undefined ? null : \`\${x(times[i]).toFixed(1)},\${y(v).toFixed(1)}\`)
+                    .filter(Boolean)
+                    .join(' ');
+                return \`<polyline points="\${points}" fill="none" stroke="\${TREND_COLORS[index % TREND_COLORS.length]}" stroke-width="2"/>\`;
+            }).join('');
+
+            const legend = series.map((line, index) => \`
+                <span class="trend-legend-item"><span class="dot" style="background:\${TREND_COLORS[index % TREND_COLORS.length]}"></span>\${escapeHtml(line.label)}</span>
+            \`).join('');
+
+            return \`
+                <svg class="trend-chart" viewBox="0 0 \${width} \${height}" preserveAspectRatio="none">
+                    <line x1="\${pad}" y1="\${height - pad}" x2="\${width - pad}" y2="\${height - pad}" class="trend-axis"/>
+                    <text x="\${pad}" y="\${pad - 10}" class="trend-label">\${formatBytes(maxValue)}</text>
+                    <text x="\${pad}" y="\${height - 10}" class="trend-label">\${new Date(minTime).toLocaleDateString()}</text>
+                    <text x="\${width - pad}" y="\${height - 10}" class="trend-label" text-anchor="end">\${new Date(minTime + timeSpan).toLocaleDateString()}</text>
+                    \${lines}
+                </svg>
+                <div class="trend-legend">\${legend}</div>
+            \`;
+        }
+
+        function formatGrowth(entry) {
+            const name = entry.kind === 'directory' ? entry.key.split(/[\\/]/).pop() : entry.key;
+            return \`
+                <div class="search-result-item">
+                    <div class="result-info">
+                        <span class="result-name">\${escapeHtml(name)}</span>
+                        <span class="result-path">\${entry.kind === 'directory' ? escapeHtml(entry.key) : 'Tool total'}</span>
+                    </div>
+                    <span class="result-size">+\${formatBytes(entry.delta)} (\${formatBytes(entry.bytesPerDay)}/day)</span>
+                </div>
+            \`;
+        }
+
+        function renderTrends() {
+            const snapshots = scanHistory.snapshots;
+            if (snapshots.length < 2) {
+                trendsBodyEl.innerHTML = '<div class="no-results">Not enough history yet. Trends appear after scans on different days.</div>';
+                return;
+            }
+
+            const last = snapshots[snapshots.length - 1];
+            const toolSeries = Object.keys(last.tools).map(tool => ({
+                label: tool,
+                values: snapshots.map(s => s.tools[tool])
+            }));
+
+            const directoryRows = Object.keys(last.directories)
+                .map(dirPath => {
+                    const first = snapshots.find(s => s.directories[dirPath] !== undefined);
+                    return { path: dirPath, start: first.directories[dirPath], end: last.directories[dirPath] };
+                })
+                .sort((a, b) => (b.end - b.start) - (a.end - a.start))
+                .map(row => {
+                    const delta = row.end - row.start;
+                    return \`
+                        <tr>
+                            <td class="preview-path" title="\${escapeHtml(row.path)}">\${escapeHtml(row.path)}</td>
+                            <td>\${formatBytes(row.start)}</td>
+                            <td>\${formatBytes(row.end)}</td>
+                            <td class="\${delta > 0 ? 'trend-up' : ''}">\${delta >= 0 ? '+' : '-'}\${formatBytes(Math.abs(delta))}</td>
+                        </tr>
+                    \`;
+                }).join('');
+
+            const fastest = scanHistory.fastestGrowing;
+
+            trendsBodyEl.innerHTML = \`
+                <h4>🔥 Fastest growing (last \${scanHistory.windowDays} days)</h4>
+                \${fastest.length > 0 ? fastest.map(formatGrowth).join('') : '<div class="no-results">Nothing grew in this period.</div>'}
+                <h4>Size per tool</h4>
+                \${renderTrendChart(snapshots, toolSeries)}
+                <h4>Size per directory since \${new Date(snapshots[0].timestamp).toLocaleDateString()}</h4>
+                <table class="trend-table">
+                    <thead><tr><th>Directory</th><th>First</th><th>Latest</th><th>Change</th></tr></thead>
+                    <tbody>\${directoryRows}</tbody>
+                </table>
+            \`;
+        }
+
+        function renderQuarantine() {
+            quarantineListEl.innerHTML = '';
+
+            if (quarantineItems.length === 0) {
+                quarantineListEl.innerHTML = '<div class="no-results">The quarantine is empty.</div>';
+                return;
+            }
+
+            quarantineItems.forEach(entry => {
+                const name = entry.originalPath.split(/[\\/]/).pop();
+                const item = document.createElement('div');
+                item.className = 'search-result-item';
+                item.innerHTML = \`
+                    <div class="result-info">
+                        <span class="result-name">\${escapeHtml(name)}</span>
+                        <span class="result-path">\${escapeHtml(entry.originalPath)}</span>
+                        <span class="result-tool">\${entry.location === 'trash' ? 'Trash' : 'Quarantine'} · \${new Date(entry.deletedAt).toLocaleString()}</span>
+                    </div>
+                    <span class="result-size">\${escapeHtml(entry.sizeFormatted)}</span>
+                    <button class="btn btn-secondary btn-sm restore-btn">Restore</button>
+                \`;
+
+                item.querySelector('.restore-btn').addEventListener('click', () => {
+                    vscode.postMessage({ command: 'restoreQuarantined', ids: [entry.id] });
+                });
+
+                quarantineListEl.appendChild(item);
+            });
+        }
+
         function renderSearchResults() {
             searchResultsListEl.innerHTML = '';
             
@@ -953,6 +3030,7 @@ function getWebviewContent(context: vscode.ExtensionContext, webview: vscode.Web
                 }
             });
             
+            vscode.postMessage({ command: 'addSearchResults', paths: [...modalSelectedPaths] });
             hideModal();
             renderDirectoryTree();
             showToast(\`Added \${modalSelectedPaths.size} directories to the list\`);
@@ -963,10 +3041,34 @@ function getWebviewContent(context: vscode.ExtensionContext, webview: vscode.Web
         window.addEventListener('message', event => {
             const message = event.data;
             switch (message.command) {
+                case 'scanStarted':
+                    scanProgressFillEl.style.width = '0%';
+                    scanProgressTextEl.textContent = 'Scanning...';
+                    scanProgressEl.classList.remove('hidden');
+                    break;
+                case 'scanProgress':
+                    scanProgressFillEl.style.width = message.data.percentage + '%';
+                    scanProgressTextEl.textContent = \`\${message.data.scannedEntries} entries - \${message.data.currentPath}\`;
+                    break;
+                case 'scanPartial':
+                    scanData = message.data;
+                    renderUI();
+                    break;
                 case 'scanResult':
+                    scanProgressEl.classList.add('hidden');
                     scanData = message.data;
                     renderUI();
                     break;
+                case 'scanCancelled':
+                    scanProgressEl.classList.add('hidden');
+                    if (!scanData) {
+                        directoryTreeEl.innerHTML = '<div class="loading">Scan cancelled. Click Refresh to try again.</div>';
+                    }
+                    break;
+                case 'scanError':
+                    scanProgressEl.classList.add('hidden');
+                    alert(message.error);
+                    break;
                 case 'detectedTools':
                     detectedTools = message.data;
                     renderDetectedTools();
@@ -988,6 +3090,45 @@ function getWebviewContent(context: vscode.ExtensionContext, webview: vscode.Web
                     break;
                 case 'deleteCancelled':
                     break;
+                case 'quarantineList':
+                    quarantineItems = message.data;
+                    quarantineCountEl.textContent = quarantineItems.length;
+                    undoBtnEl.disabled = quarantineItems.length === 0;
+                    if (!quarantineModalEl.classList.contains('hidden')) {
+                        renderQuarantine();
+                    }
+                    break;
+                case 'scanHistory':
+                    scanHistory = message.data;
+                    growthByPath = new Map(scanHistory.fastestGrowing
+                        .filter(entry => entry.kind === 'directory')
+                        .map(entry => [entry.key, entry]));
+                    renderDirectoryTree();
+                    if (!trendsModalEl.classList.contains('hidden')) {
+                        renderTrends();
+                    }
+                    break;
+                case 'policyRuns':
+                    policyData = message.data;
+                    if (!policiesModalEl.classList.contains('hidden')) {
+                        renderPolicies();
+                    }
+                    break;
+                case 'auditLog':
+                    auditEntries = message.data;
+                    if (!auditModalEl.classList.contains('hidden')) {
+                        renderAuditLog();
+                    }
+                    break;
+                case 'restoreResult':
+                case 'ageCleanupResult':
+                    break;
+                case 'previewResult':
+                    renderPreview(message.data);
+                    break;
+                case 'previewError':
+                    previewBodyEl.innerHTML = \`<div class="no-results">\${escapeHtml(message.error)}</div>\`;
+                    break;
                 case 'searchProgress':
                     progressFillEl.style.width = message.data.percentage + '%';
                     progressTextEl.textContent = message.data.currentPath;
@@ -1036,6 +3177,13 @@ function getWebviewContent(context: vscode.ExtensionContext, webview: vscode.Web
                 const badge = document.createElement('span');
                 badge.className = 'tool-badge';
                 badge.innerHTML = \`\${tool.toolName} <small>(\${tool.sizeFormatted})</small>\`;
+                if (tool.running) {
+                    const running = document.createElement('span');
+                    running.className = 'tool-running';
+                    running.textContent = '● running';
+                    running.title = 'Running: ' + tool.running + '. Deleting its data now can corrupt its state.';
+                    badge.appendChild(running);
+                }
                 detectedToolsListEl.appendChild(badge);
             });
         }
@@ -1049,9 +3197,11 @@ function getWebviewContent(context: vscode.ExtensionContext, webview: vscode.Web
             allDirs.forEach(dir => {
                 const toolName = dir.toolName || dir.name;
                 if (!toolMap.has(toolName)) {
-                    toolMap.set(toolName, { name: toolName, size: 0, description: dir.description });
+                    toolMap.set(toolName, { name: toolName, size: 0, diskUsage: 0, description: dir.description });
                 }
                 toolMap.get(toolName).size += dir.size;
+                // Search results are not measured on disk, so their apparent size stands in
+                toolMap.get(toolName).diskUsage += dir.diskUsage ?? dir.size;
             });
             
             toolMap.forEach((tool, name) => {
@@ -1059,7 +3209,10 @@ function getWebviewContent(context: vscode.ExtensionContext, webview: vscode.Web
                 card.className = 'summary-card';
                 card.innerHTML = \`
                     <div class="card-name">\${name}</div>
-                    <div class="card-size">\${formatBytes(tool.size)}</div>
+                    <div class="card-sizes">
+                        <span class="card-size" title="Apparent size (sum of file lengths)">\${formatBytes(tool.size)}</span>
+                        <span class="card-disk" title="Space allocated on disk">\${formatBytes(tool.diskUsage)} on disk</span>
+                    </div>
                     <div class="card-desc">\${tool.description || ''}</div>
                 \`;
                 summaryCardsEl.appendChild(card);
@@ -1089,28 +3242,68 @@ function getWebviewContent(context: vscode.ExtensionContext, webview: vscode.Web
             }
             
             const totalSize = (scanData?.totalSize || 0) + customDirectories.reduce((sum, d) => sum + d.size, 0);
+            const totalDiskUsage = (scanData?.totalDiskUsage ?? scanData?.totalSize ?? 0) +
+                customDirectories.reduce((sum, d) => sum + (d.diskUsage ?? d.size), 0);
             totalSizeEl.textContent = formatBytes(totalSize);
+            totalDiskUsageEl.textContent = \`(\${formatBytes(totalDiskUsage)} on disk)\`;
+
+            const orphanCount = countOrphanedProjects(scanData?.directories || []);
+            orphanCountEl.textContent = orphanCount;
+            orphansBtnEl.classList.toggle('hidden', orphanCount === 0);
+        }
+
+        function countOrphanedProjects(dirs) {
+            return dirs.reduce((count, dir) => count + (dir.excluded ? 0 :
+                dir.project?.orphaned ? (hasCleanableContent(dir) ? 1 : 0) : countOrphanedProjects(dir.children || [])), 0);
+        }
+
+        // Whether anything inside is neither danger-level, locked nor excluded (see collectOrphanedProjects)
+        function hasCleanableContent(dir) {
+            if (dir.excluded) {
+                return false;
+            }
+            const children = dir.children || [];
+            if (!dir.lockedBy && getEffectiveSafetyLevel(dir) !== 'danger' && children.length === 0) {
+                return true;
+            }
+            return children.some(hasCleanableContent);
+        }
+
+        function describeProject(project) {
+            const lastActivity = project.lastActivity ? new Date(project.lastActivity).toLocaleDateString() : 'unknown';
+            const title = \`\${project.sessionCount} session(s), last activity \${lastActivity}\` +
+                (project.resolvedFrom === 'guess' ? ' (path guessed from the folder name)' : '');
+            return \`<span class="project-path" title="\${escapeHtml(title)}">\${escapeHtml(project.projectPath)}</span>\` +
+                (project.orphaned ? '<span class="orphan-badge" title="The project folder no longer exists">orphaned</span>' : '');
         }
 
         function createTreeNode(dir, level) {
             const node = document.createElement('div');
-            node.className = 'tree-node';
+            node.className = 'tree-node' + (dir.excluded ? ' excluded' : '');
             node.style.paddingLeft = (level * 20) + 'px';
 
             const hasChildren = dir.children && dir.children.length > 0;
             const isExpanded = dir.isExpanded !== false;
             const effectiveLevel = getEffectiveSafetyLevel(dir);
             const isCustomLevel = safetyOverrides[dir.path] !== undefined;
-            const tooltip = getSafetyTooltip(effectiveLevel);
+            const tooltip = dir.excluded ? dir.description : getSafetyTooltip(effectiveLevel);
+            const canAgeClean = !dir.excluded && !dir.lockedBy && effectiveLevel !== 'danger';
+            const canSuggest = !dir.excluded && !isCustomLevel && dir.safetyRule === '${UNKNOWN_DIRECTORY_RULE}';
+            const growth = growthByPath.get(dir.path);
 
             node.innerHTML = \`
                 <div class="tree-item" data-path="\${dir.path}">
                     <span class="tree-toggle \${hasChildren ? '' : 'hidden'}">\${isExpanded ? '▼' : '▶'}</span>
+                    \${dir.lockedBy ? '<span class="tree-checkbox-placeholder"></span>' : \`
                     <input type="checkbox" class="tree-checkbox" data-path="\${dir.path}" data-size="\${dir.size}" 
-                           \${effectiveLevel === 'danger' ? 'disabled' : ''}>
+                           \${effectiveLevel === 'danger' || dir.excluded ? 'disabled' : ''} \${selectedPaths.has(dir.path) ? 'checked' : ''}>\`}
                     <span class="tree-icon">📂</span>
                     <span class="tree-name">\${dir.name}</span>
-                    <span class="tree-size">\${dir.sizeFormatted}</span>
+                    \${dir.project ? describeProject(dir.project) : ''}
+                    <span class="tree-size" title="\${dir.diskUsageFormatted ? dir.diskUsageFormatted + ' on disk' : ''}">\${dir.excluded ? 'excluded' : dir.sizeFormatted}</span>
+                    \${dir.lockedBy ? \`<span class="lock-badge" title="\${escapeHtml(dir.lockedBy)}. Run 'Unlock Protected Path...' to allow deleting it.">🔒 protected</span>\` : ''}
+                    \${dir.policySource ? \`<span class="policy-badge" title="\${escapeHtml(dir.policySource)}">set by team policy</span>\` : ''}
+                    \${growth ? \`<span class="growth-badge" title="Among the fastest growing in the last \${scanHistory.windowDays} days">📈 +\${formatBytes(growth.delta)}</span>\` : ''}
                     <span class="safety-badge \${effectiveLevel} \${isCustomLevel ? 'custom' : ''}" 
                           data-path="\${dir.path}" 
                           data-name="\${dir.name}"
@@ -1118,11 +3311,14 @@ function getWebviewContent(context: vscode.ExtensionContext, webview: vscode.Web
                           title="\${tooltip}">
                         \${getSafetyLabel(effectiveLevel)}\${isCustomLevel ? ' ⚙' : ''}
                     </span>
+                    \${canSuggest ? '<button class="tree-action suggest-btn" title="Suggest a safety level from the contents">🔍</button>' : ''}
+                    \${canAgeClean ? '<button class="tree-action age-btn" title="Delete only files older than N days">⏱</button>' : ''}
                 </div>
             \`;
 
             const toggle = node.querySelector('.tree-toggle');
-            const checkbox = node.querySelector('.tree-checkbox');
+            // Locked directories have no checkbox
+            const checkbox = node.querySelector(':scope > .tree-item > .tree-checkbox');
             const safetyBadge = node.querySelector('.safety-badge');
 
             // Create children container
@@ -1147,7 +3343,7 @@ function getWebviewContent(context: vscode.ExtensionContext, webview: vscode.Web
             }
 
             // Checkbox handler - with bidirectional cascade
-            checkbox.addEventListener('change', (e) => {
+            checkbox?.addEventListener('change', (e) => {
                 const path = e.target.dataset.path;
                 const isChecked = e.target.checked;
                 
@@ -1188,6 +3384,32 @@ function getWebviewContent(context: vscode.ExtensionContext, webview: vscode.Web
                 showSafetyModal(path, name, level);
             });
 
+            // Age-based partial cleanup
+            const ageBtn = node.querySelector(':scope > .tree-item > .age-btn');
+            if (ageBtn) {
+                ageBtn.addEventListener('click', (e) => {
+                    e.stopPropagation();
+                    vscode.postMessage({
+                        command: 'ageCleanup',
+                        path: dir.path,
+                        dirName: dir.name
+                    });
+                });
+            }
+
+            // Content-based level suggestion for unknown directories
+            const suggestBtn = node.querySelector(':scope > .tree-item > .suggest-btn');
+            if (suggestBtn) {
+                suggestBtn.addEventListener('click', (e) => {
+                    e.stopPropagation();
+                    vscode.postMessage({
+                        command: 'suggestSafetyLevel',
+                        path: dir.path,
+                        dirName: dir.name
+                    });
+                });
+            }
+
             return node;
         }
 
@@ -1284,6 +3506,7 @@ function getWebviewContent(context: vscode.ExtensionContext, webview: vscode.Web
             selectedCountEl.textContent = leafCount;
             selectedSizeEl.textContent = formatBytes(totalSize);
             deleteBtnEl.disabled = selectedPaths.size === 0;
+            previewBtnEl.disabled = selectedPaths.size === 0;
         }
         
         // Check if a path has any selected children
@@ -1303,6 +3526,11 @@ function getWebviewContent(context: vscode.ExtensionContext, webview: vscode.Web
             const i = Math.floor(Math.log(bytes) / Math.log(k));
             return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i];
         }
+
+        // Text from the filesystem or from policy files, made safe to place in HTML
+        function escapeHtml(value) {
+            return String(value ?? '').replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]);
+        }
     </script>
 </body>
 </html>`;
@@ -0,0 +1,170 @@
+import * as os from 'os';
+import * as path from 'path';
+import { SafetyLevel } from './safetyLevels';
+
+/**
+ * Override Transfer
+ * Export of the user's safety level overrides to a JSON file, and import
+ * of such a file on another machine. Paths are stored relative to "~" so
+ * they survive a different home directory; absolute paths under another
+ * user's home are rewritten to the current one on import.
+ */
+
+export type OverrideImportMode = 'merge' | 'replace';
+
+export interface OverrideExport {
+  version: 1;
+  exportedAt: string;
+  // Home directory of the exporting machine
+  home: string;
+  overrides: Record<string, SafetyLevel>;
+}
+
+export interface OverrideChange {
+  path: string;
+  // Level before the import; undefined for a new override
+  from?: SafetyLevel;
+  // Level after the import; undefined when the override is removed
+  to?: SafetyLevel;
+}
+
+export interface ParsedOverrides {
+  overrides: Record<string, SafetyLevel>;
+  // Paths moved from another home directory to the current one
+  rewritten: number;
+  errors: string[];
+}
+
+const LEVELS: SafetyLevel[] = ['safe', 'caution', 'danger'];
+
+// "/Users/name", "/home/name" or "C:/Users/name" at the start of a path
+const HOME_PREFIX = /^(?:[a-zA-Z]:)?\/(?:Users|home)\/[^/]+(?=\/|$)/;
+
+function toPosix(p: string): string {
+  return p.replace(/\\/g, '/');
+}
+
+function joinHome(home: string, rest: string): string {
+  return rest ? path.join(home, ...rest.split('/').filter(Boolean)) : home;
+}
+
+// A path under the home directory as "~/...", other paths unchanged
+function toPortablePath(targetPath: string, home: string): string {
+  const homePosix = toPosix(home);
+  const posixPath = toPosix(targetPath);
+  if (posixPath === homePosix) {
+    return '~';
+  }
+  return posixPath.startsWith(homePosix + '/') ? '~' + posixPath.slice(homePosix.length) : targetPath;
+}
+
+/**
+ * Override map as written to an export file
+ */
+export function createOverrideExport(
+  overrides: Record<string, SafetyLevel>,
+  home: string = os.homedir()
+): OverrideExport {
+  const exported: Record<string, SafetyLevel> = {};
+  for (const [overridePath, level] of Object.entries(overrides)) {
+    exported[toPortablePath(overridePath, home)] = level;
+  }
+  return { version: 1, exportedAt: new Date().toISOString(), home, overrides: exported };
+}
+
+/**
+ * A path from an import file on this machine: "~" paths are expanded, and
+ * paths under the exporting machine's home (or one that looks like a home
+ * directory) are moved to the current home
+ */
+function localizePath(importedPath: string, sourceHome: string | undefined, home: string): { path: string; rewritten: boolean } {
+  const posixPath = toPosix(importedPath);
+  if (posixPath === '~' || posixPath.startsWith('~/')) {
+    return { path: joinHome(home, posixPath.slice(1)), rewritten: false };
+  }
+
+  const homePosix = toPosix(home);
+  if (posixPath === homePosix || posixPath.startsWith(homePosix + '/')) {
+    return { path: importedPath, rewritten: false };
+  }
+
+  const sourcePosix = sourceHome ? toPosix(sourceHome) : HOME_PREFIX.exec(posixPath)?.[0];
+  if (sourcePosix && (posixPath === sourcePosix || posixPath.startsWith(sourcePosix + '/'))) {
+    return { path: joinHome(home, posixPath.slice(sourcePosix.length)), rewritten: true };
+  }
+  return { path: importedPath, rewritten: false };
+}
+
+/**
+ * Read an export file, or a plain { path: level } map, validating every level
+ */
+export function parseOverrideImport(content: string, home: string = os.homedir()): ParsedOverrides {
+  const result: ParsedOverrides = { overrides: {}, rewritten: 0, errors: [] };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    result.errors.push(error instanceof Error ? error.message : 'Invalid JSON');
+    return result;
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    result.errors.push('expected an object of overrides');
+    return result;
+  }
+
+  const raw = parsed as Record<string, unknown>;
+  const isExport = typeof raw.overrides === 'object' && raw.overrides !== null && !Array.isArray(raw.overrides);
+  const entries = (isExport ? raw.overrides : raw) as Record<string, unknown>;
+  const sourceHome = isExport && typeof raw.home === 'string' ? raw.home : undefined;
+
+  for (const [importedPath, level] of Object.entries(entries)) {
+    if (!LEVELS.includes(level as SafetyLevel)) {
+      result.errors.push(`"${importedPath}": level must be one of ${LEVELS.join(', ')}`);
+      continue;
+    }
+    const localized = localizePath(importedPath, sourceHome, home);
+    if (!path.isAbsolute(localized.path)) {
+      result.errors.push(`"${importedPath}": not an absolute path`);
+      continue;
+    }
+    result.overrides[localized.path] = level as SafetyLevel;
+    if (localized.rewritten) {
+      result.rewritten++;
+    }
+  }
+  return result;
+}
+
+/**
+ * The overrides after an import: merged into the current ones (imported
+ * levels win) or replacing them
+ */
+export function applyOverrideImport(
+  current: Record<string, SafetyLevel>,
+  imported: Record<string, SafetyLevel>,
+  mode: OverrideImportMode
+): Record<string, SafetyLevel> {
+  return mode === 'merge' ? { ...current, ...imported } : { ...imported };
+}
+
+/**
+ * What an import would change, sorted by path
+ */
+export function diffOverrides(
+  current: Record<string, SafetyLevel>,
+  next: Record<string, SafetyLevel>
+): OverrideChange[] {
+  const paths = new Set([...Object.keys(current), ...Object.keys(next)]);
+  return [...paths]
+    .filter(p => current[p] !== next[p])
+    .sort()
+    .map(p => ({ path: p, from: current[p], to: next[p] }));
+}
+
+/**
+ * One line of the import preview, e.g. "~/.claude/debug: caution → safe"
+ */
+export function describeOverrideChange(change: OverrideChange, home: string = os.homedir()): string {
+  return `${toPortablePath(change.path, home)}: ${change.from || 'default'} → ${change.to || 'default'}`;
+}
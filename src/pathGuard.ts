@@ -0,0 +1,83 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { getAllSignatures, getSignatureCandidatePaths } from './aiToolSignatures';
+
+/**
+ * Path Guard
+ * Last check before anything is deleted: a path must stay inside a known AI
+ * cache root, both as written and after following symlinks. The home
+ * directory, filesystem roots and their ancestors are never deletable.
+ */
+
+// Follow symlinks where the path exists, otherwise just normalize it
+function resolveReal(targetPath: string): string {
+  try {
+    return fs.realpathSync.native(targetPath);
+  } catch {
+    return path.resolve(targetPath);
+  }
+}
+
+export function isPathInside(childPath: string, parentPath: string): boolean {
+  const relative = path.relative(parentPath, childPath);
+  return relative === '' ||
+    (relative !== '..' && !relative.startsWith('..' + path.sep) && !path.isAbsolute(relative));
+}
+
+/**
+ * The home directory, a filesystem root, or anything containing the home directory
+ */
+export function isProtectedPath(targetPath: string): boolean {
+  const resolved = path.resolve(targetPath);
+  if (path.parse(resolved).root === resolved) {
+    return true;
+  }
+  const home = os.homedir();
+  return isPathInside(home, resolved) || isPathInside(resolveReal(home), resolved);
+}
+
+/**
+ * Directories deletions are confined to: every location a signature points
+ * at, plus extra roots such as search results the user added. Roots that
+ * would expose the whole home directory are dropped.
+ */
+export function getAllowedRoots(extraRoots: string[] = []): string[] {
+  const roots = new Set<string>();
+  for (const signature of getAllSignatures()) {
+    for (const candidate of getSignatureCandidatePaths(signature)) {
+      roots.add(path.resolve(candidate));
+    }
+  }
+  for (const root of extraRoots) {
+    roots.add(path.resolve(root));
+  }
+  return [...roots].filter(root => !isProtectedPath(root));
+}
+
+/**
+ * Why a path may not be deleted, or undefined when it may. Without allowed
+ * roots only relative and protected paths are refused.
+ */
+export function checkDeletablePath(targetPath: string, allowedRoots?: string[]): string | undefined {
+  if (!path.isAbsolute(targetPath)) {
+    return `Refusing to delete a relative path: ${targetPath}`;
+  }
+
+  const resolved = path.resolve(targetPath);
+  const real = resolveReal(resolved);
+  if (isProtectedPath(resolved) || isProtectedPath(real)) {
+    return `Refusing to delete a protected location: ${resolved}`;
+  }
+  if (!allowedRoots) {
+    return undefined;
+  }
+
+  if (!allowedRoots.some(root => isPathInside(resolved, path.resolve(root)))) {
+    return `Refusing to delete ${resolved}: it is not inside a known AI cache directory`;
+  }
+  if (!allowedRoots.some(root => isPathInside(real, resolveReal(root)))) {
+    return `Refusing to delete ${resolved}: it resolves to ${real}, outside the AI cache directories`;
+  }
+  return undefined;
+}
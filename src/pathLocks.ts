@@ -0,0 +1,159 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { hasGlobstar, matchesPathPattern, mayMatchBelow } from './pathMatcher';
+
+/**
+ * Path Locks
+ * Protected locations that are never deleted, whatever their safety level
+ * and whatever the dashboard asks for: credentials and configuration by
+ * default, plus paths the user or a team policy locked. A lock also covers
+ * every directory containing the locked location. Built-in and user locks
+ * are lifted only through the "Unlock Protected Path" command; team policy
+ * locks only by editing the policy file.
+ */
+
+export type LockSource = 'built-in' | 'user' | 'team';
+
+export interface PathLock {
+  // Path pattern (same syntax as excludePatterns); may name a file
+  pattern: string;
+  reason: string;
+  source: LockSource;
+  // Team policy file of a team lock
+  policyFile?: string;
+}
+
+export const BUILT_IN_LOCKS: PathLock[] = [
+  { pattern: '~/.config/github-copilot/hosts.json', reason: 'GitHub Copilot sign-in', source: 'built-in' },
+  { pattern: '~/.config/github-copilot/apps.json', reason: 'GitHub Copilot sign-in', source: 'built-in' },
+  { pattern: '~/.claude/.credentials.json', reason: 'Claude Code credentials', source: 'built-in' },
+  { pattern: '~/.claude/settings.json', reason: 'Claude Code settings', source: 'built-in' },
+  { pattern: '~/.gemini/oauth_creds.json', reason: 'Gemini CLI sign-in', source: 'built-in' },
+  { pattern: '~/.gemini/settings.json', reason: 'Gemini CLI settings', source: 'built-in' },
+  { pattern: '~/.continue/config.json', reason: 'Continue configuration', source: 'built-in' },
+  { pattern: '~/.continue/config.yaml', reason: 'Continue configuration', source: 'built-in' },
+];
+
+// Extension state key of the user's locks and the built-in patterns they unlocked
+export const PATH_LOCKS_KEY = 'pathLocks';
+
+export interface StoredLocks {
+  locked: string[];
+  unlocked: string[];
+}
+
+// The part of VS Code's Memento the stored locks are read from
+export interface LockStore {
+  get<T>(key: string, defaultValue: T): T;
+}
+
+// Paths the user locked, built-in patterns the user unlocked, and locks from team policy files
+let userLocks: string[] = [];
+let unlockedBuiltIns: string[] = [];
+let teamLocks: PathLock[] = [];
+
+export function setUserLocks(locked: string[], unlocked: string[] = []): void {
+  userLocks = [...locked];
+  unlockedBuiltIns = [...unlocked];
+}
+
+export function setTeamLocks(locks: PathLock[]): void {
+  teamLocks = [...locks];
+}
+
+export function getStoredLocks(store: LockStore): StoredLocks {
+  return store.get<StoredLocks>(PATH_LOCKS_KEY, { locked: [], unlocked: [] });
+}
+
+/**
+ * Put the stored locks in effect; needed before anything is deleted
+ */
+export function restoreStoredLocks(store: LockStore): void {
+  const stored = getStoredLocks(store);
+  setUserLocks(stored.locked, stored.unlocked);
+}
+
+/**
+ * Locks in effect: team policy first, then the built-ins the user kept, then the user's own
+ */
+export function getActiveLocks(): PathLock[] {
+  return [
+    ...teamLocks,
+    ...BUILT_IN_LOCKS.filter(lock => !unlockedBuiltIns.includes(lock.pattern)),
+    ...userLocks.map(pattern => ({ pattern, reason: 'Locked by you', source: 'user' as const })),
+  ];
+}
+
+/**
+ * Locks covering a path, judged from their patterns: it matches the locked
+ * pattern, or may contain what it names. A "**" lock (a bare name such as
+ * "hosts.json" is one) could match below any directory, so it covers only
+ * the directories that hold a match (see findLockedEntryBelow).
+ */
+export function findLocks(targetPath: string, locks: PathLock[] = getActiveLocks()): PathLock[] {
+  return locks.filter(lock => matchesPathPattern(targetPath, lock.pattern) || mayMatchBelow(targetPath, lock.pattern));
+}
+
+/**
+ * The first entry below a directory that a "**" lock protects, found by
+ * walking the directory. Symlinks are not followed.
+ */
+export function findLockedEntryBelow(
+  dirPath: string,
+  locks: PathLock[] = getActiveLocks()
+): { path: string; lock: PathLock } | undefined {
+  const globstarLocks = locks.filter(lock => hasGlobstar(lock.pattern));
+  if (globstarLocks.length === 0) {
+    return undefined;
+  }
+
+  const visit = (currentPath: string): { path: string; lock: PathLock } | undefined => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(currentPath, { withFileTypes: true });
+    } catch {
+      return undefined;
+    }
+    for (const entry of entries) {
+      const entryPath = path.join(currentPath, entry.name);
+      const lock = globstarLocks.find(candidate => matchesPathPattern(entryPath, candidate.pattern));
+      if (lock) {
+        return { path: entryPath, lock };
+      }
+      const found = entry.isDirectory() ? visit(entryPath) : undefined;
+      if (found) {
+        return found;
+      }
+    }
+    return undefined;
+  };
+  return visit(dirPath);
+}
+
+export function describeLock(lock: PathLock): string {
+  return lock.source === 'team'
+    ? `${lock.reason} (${lock.pattern}, set by team policy)`
+    : `${lock.reason} (${lock.pattern})`;
+}
+
+/**
+ * Why a path may not be deleted because it is locked, or undefined when it may
+ */
+export function getLockError(targetPath: string, locks: PathLock[] = getActiveLocks()): string | undefined {
+  const lock = findLocks(targetPath, locks)[0];
+  if (lock) {
+    return `Refusing to delete ${targetPath}: protected - ${describeLock(lock)}`;
+  }
+  const below = findLockedEntryBelow(targetPath, locks);
+  return below ? `Refusing to delete ${targetPath}: it holds ${below.path}, protected - ${describeLock(below.lock)}` : undefined;
+}
+
+/**
+ * Why a path may not be removed because it, or a directory containing it,
+ * is locked. Locked locations inside it are not considered; callers that
+ * keep those check them one by one.
+ */
+export function getOwnLockError(targetPath: string, locks: PathLock[] = getActiveLocks()): string | undefined {
+  const lock = locks.find(candidate => matchesPathPattern(targetPath, candidate.pattern));
+  return lock ? `Refusing to delete ${targetPath}: protected - ${describeLock(lock)}` : undefined;
+}
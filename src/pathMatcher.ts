@@ -0,0 +1,192 @@
+import * as path from 'path';
+import * as os from 'os';
+
+/**
+ * Glob matching for filesystem paths.
+ * Supports `*`, `**`, `?`, `[abc]`, `{a,b}` and a leading `~` for the home directory.
+ */
+
+const regExpCache = new Map<string, RegExp>();
+
+// Paths are compared with forward slashes on every platform
+function toPosix(p: string): string {
+  return p.replace(/\\/g, '/');
+}
+
+function isCaseInsensitivePlatform(): boolean {
+  return process.platform === 'darwin' || process.platform === 'win32';
+}
+
+/**
+ * Convert a glob pattern into a regular expression source (without anchors)
+ */
+function globToRegExpSource(pattern: string): string {
+  let source = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        if (pattern[i + 2] === '/') {
+          // "**/" matches zero or more whole segments
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[' && pattern.indexOf(']', i + 2) !== -1) {
+      // A class; "]" right after the opening bracket is part of it
+      const end = pattern.indexOf(']', i + 2);
+      const negated = pattern[i + 1] === '!';
+      const members = pattern.slice(negated ? i + 2 : i + 1, end).replace(/[\\\]^[]/g, '\\$&');
+      source += negated ? '[^/' + members + ']' : '[' + members + ']';
+      i = end;
+    } else if (char === '{') {
+      braceDepth++;
+      source += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      source += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return source;
+}
+
+/**
+ * Compile a glob pattern into an anchored regular expression
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const flags = isCaseInsensitivePlatform() ? 'i' : '';
+  const key = flags + ':' + pattern;
+  let regExp = regExpCache.get(key);
+  if (!regExp) {
+    regExp = new RegExp('^' + globToRegExpSource(pattern) + '$', flags);
+    regExpCache.set(key, regExp);
+  }
+  return regExp;
+}
+
+/**
+ * Turn a literal path into a pattern that matches only that path, for paths
+ * holding glob characters such as "[draft]" or "{a,b}"
+ */
+export function escapeGlob(literalPath: string): string {
+  return literalPath.replace(/[*?[{}]/g, '[$&]');
+}
+
+/**
+ * Express an absolute path relative to the home directory ("~/..."),
+ * or return it unchanged when it lives elsewhere
+ */
+export function toHomeRelative(targetPath: string): string {
+  const home = toPosix(os.homedir());
+  const posixPath = toPosix(targetPath);
+  if (posixPath === home) {
+    return '~';
+  }
+  if (posixPath.startsWith(home + '/')) {
+    return '~' + posixPath.slice(home.length);
+  }
+  return posixPath;
+}
+
+/**
+ * Resolve a user-supplied pattern to an absolute glob:
+ * - "~/x" and absolute patterns are used as-is (after expanding ~)
+ * - patterns without a slash match a path segment anywhere ("node_modules", "*.log")
+ * - other relative patterns are taken relative to the home directory
+ */
+function resolvePattern(pattern: string): string {
+  let resolved = toPosix(pattern.trim());
+  const home = toPosix(os.homedir());
+
+  if (resolved.endsWith('/**')) {
+    resolved = resolved.slice(0, -3);
+  }
+  if (resolved.length > 1 && resolved.endsWith('/')) {
+    resolved = resolved.slice(0, -1);
+  }
+
+  if (resolved === '~' || resolved.startsWith('~/')) {
+    return home + resolved.slice(1);
+  }
+  if (resolved.startsWith('/') || /^[A-Za-z]:\//.test(resolved)) {
+    return resolved;
+  }
+  if (!resolved.includes('/')) {
+    return '**/' + resolved;
+  }
+  return home + '/' + resolved;
+}
+
+/**
+ * Check whether a path, or one of its ancestors, matches a pattern.
+ * The pattern is tested against the absolute path; "~/..." and relative
+ * patterns therefore also match home-relative paths.
+ */
+export function matchesPathPattern(targetPath: string, pattern: string): boolean {
+  if (!pattern || !pattern.trim()) {
+    return false;
+  }
+
+  const resolved = resolvePattern(pattern);
+  const flags = isCaseInsensitivePlatform() ? 'i' : '';
+  const key = 'tree:' + flags + ':' + resolved;
+  let regExp = regExpCache.get(key);
+  if (!regExp) {
+    regExp = new RegExp('^' + globToRegExpSource(resolved) + '(?:/.*)?$', flags);
+    regExpCache.set(key, regExp);
+  }
+
+  return regExp.test(toPosix(path.resolve(targetPath)));
+}
+
+/**
+ * Check whether a pattern could match a path strictly below a directory,
+ * judging only the pattern's segments up to the directory's depth. A "**"
+ * segment before that depth is not followed, so patterns that start with a
+ * globstar never report deeper matches.
+ */
+export function mayMatchBelow(dirPath: string, pattern: string): boolean {
+  if (!pattern || !pattern.trim()) {
+    return false;
+  }
+
+  const patternSegments = resolvePattern(pattern).split('/');
+  const pathSegments = toPosix(path.resolve(dirPath)).split('/');
+  if (patternSegments.length <= pathSegments.length) {
+    return false;
+  }
+  return pathSegments.every((segment, index) =>
+    !patternSegments[index].includes('**') && globToRegExp(patternSegments[index]).test(segment));
+}
+
+/**
+ * Whether a pattern can match at any depth: it uses "**" or is a bare name
+ */
+export function hasGlobstar(pattern: string): boolean {
+  return !!pattern && !!pattern.trim() && resolvePattern(pattern).includes('**');
+}
+
+/**
+ * Return the first pattern that excludes the given path, if any
+ */
+export function findMatchingPattern(targetPath: string, patterns: string[] | undefined): string | undefined {
+  if (!patterns || patterns.length === 0) {
+    return undefined;
+  }
+  return patterns.find(pattern => matchesPathPattern(targetPath, pattern));
+}
@@ -0,0 +1,59 @@
+import * as path from 'path';
+import * as os from 'os';
+
+/**
+ * Platform-specific base directories.
+ * Locations may start with "~" or with an XDG base-directory token such as
+ * "$XDG_CONFIG_HOME", which falls back to the freedesktop default when unset.
+ */
+
+export type SupportedPlatform = 'darwin' | 'linux' | 'win32';
+
+export type XdgDirectory = 'XDG_CONFIG_HOME' | 'XDG_CACHE_HOME' | 'XDG_DATA_HOME' | 'XDG_STATE_HOME';
+
+// Defaults from the XDG Base Directory Specification, relative to the home directory
+const XDG_DEFAULTS = new Map<XdgDirectory, string>([
+  ['XDG_CONFIG_HOME', '.config'],
+  ['XDG_CACHE_HOME', '.cache'],
+  ['XDG_DATA_HOME', path.join('.local', 'share')],
+  ['XDG_STATE_HOME', path.join('.local', 'state')],
+]);
+
+const XDG_TOKEN = /^\$(XDG_CONFIG_HOME|XDG_CACHE_HOME|XDG_DATA_HOME|XDG_STATE_HOME)(?=$|[\\/])/;
+
+// Directories searched for tools that have no signature yet
+const SEARCH_LOCATIONS: Record<SupportedPlatform, string[]> = {
+  darwin: ['~', '~/Library/Application Support', '~/Library/Caches', '~/.config'],
+  linux: ['~', '$XDG_CONFIG_HOME', '$XDG_CACHE_HOME', '$XDG_DATA_HOME', '$XDG_STATE_HOME'],
+  win32: ['~', '~/.config'],
+};
+
+/**
+ * Resolve an XDG base directory. Relative values are ignored, as required
+ * by the specification.
+ */
+export function getXdgDirectory(name: XdgDirectory): string {
+  const value = process.env[name];
+  if (value && path.isAbsolute(value)) {
+    return value;
+  }
+  return path.join(os.homedir(), XDG_DEFAULTS.get(name)!);
+}
+
+/**
+ * Expand a leading "~" or XDG token into an absolute path
+ */
+export function expandPath(p: string): string {
+  if (p.startsWith('~')) {
+    return path.join(os.homedir(), p.slice(1));
+  }
+  const match = XDG_TOKEN.exec(p);
+  if (match) {
+    return path.join(getXdgDirectory(match[1] as XdgDirectory), p.slice(match[0].length));
+  }
+  return p;
+}
+
+export function getSearchLocations(platform: NodeJS.Platform = process.platform): string[] {
+  return SEARCH_LOCATIONS[platform as SupportedPlatform] || SEARCH_LOCATIONS.linux;
+}
@@ -0,0 +1,212 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { AIToolSignature, getAllSignatures, getSignatureCandidatePaths } from './aiToolSignatures';
+import { globToRegExp } from './pathMatcher';
+import { isPathInside } from './pathGuard';
+
+/**
+ * Process Detector
+ * Tells whether an AI tool is running, from its process names and from lock
+ * or socket files it keeps in its data directory, so its data is not deleted
+ * underneath it.
+ */
+
+// What to do when deleting data of a running tool
+export type RunningToolCheck = 'warn' | 'block' | 'off';
+
+export interface RunningProcess {
+  pid: number;
+  name: string;
+  // Command line arguments, when the platform reports them
+  args?: string[];
+}
+
+export interface ToolActivity {
+  toolName: string;
+  processes: RunningProcess[];
+  // Lock or socket files found in the tool's directories
+  lockFiles: string[];
+  // The tool's directories that exist
+  roots: string[];
+}
+
+function parseProcDirectory(procDir: string): RunningProcess[] {
+  const processes: RunningProcess[] = [];
+  let entries: string[];
+  try {
+    entries = fs.readdirSync(procDir);
+  } catch {
+    return processes;
+  }
+
+  for (const entry of entries) {
+    if (!/^\d+$/.test(entry)) {
+      continue;
+    }
+    try {
+      const name = fs.readFileSync(path.join(procDir, entry, 'comm'), 'utf8').trim();
+      let args: string[] = [];
+      try {
+        args = fs.readFileSync(path.join(procDir, entry, 'cmdline'), 'utf8').split('\0').filter(Boolean);
+      } catch {
+        // Kernel threads and other users' processes may hide their command line
+      }
+      processes.push({ pid: parseInt(entry, 10), name, args });
+    } catch {
+      // The process exited while we were reading it
+    }
+  }
+  return processes;
+}
+
+function parsePsOutput(output: string): RunningProcess[] {
+  const processes: RunningProcess[] = [];
+  for (const line of output.split('\n')) {
+    const match = /^\s*(\d+)\s+(.+)$/.exec(line);
+    if (match) {
+      processes.push({ pid: parseInt(match[1], 10), name: match[2].trim() });
+    }
+  }
+  return processes;
+}
+
+function parseTasklistOutput(output: string): RunningProcess[] {
+  const processes: RunningProcess[] = [];
+  for (const line of output.split(/\r?\n/)) {
+    const match = /^"([^"]*)","(\d+)"/.exec(line);
+    if (match) {
+      processes.push({ pid: parseInt(match[2], 10), name: match[1] });
+    }
+  }
+  return processes;
+}
+
+/**
+ * Running processes: read from /proc on Linux, from ps on macOS and from
+ * tasklist on Windows. Returns an empty list when they cannot be listed.
+ */
+export function listProcesses(platform: NodeJS.Platform = process.platform, procDir: string = '/proc'): RunningProcess[] {
+  try {
+    if (platform === 'linux') {
+      return parseProcDirectory(procDir);
+    }
+    if (platform === 'darwin') {
+      return parsePsOutput(execFileSync('ps', ['-axo', 'pid=,comm='], { encoding: 'utf8', timeout: 5000 }));
+    }
+    if (platform === 'win32') {
+      return parseTasklistOutput(execFileSync('tasklist', ['/fo', 'csv', '/nh'], { encoding: 'utf8', timeout: 5000 }));
+    }
+  } catch {
+    // Process listing is best effort
+  }
+  return [];
+}
+
+// Executable name without directory or ".exe", lower-cased
+function normalizeProcessName(name: string): string {
+  return path.basename(name.replace(/\\/g, '/')).replace(/\.exe$/i, '').toLowerCase();
+}
+
+/**
+ * Whether a process is one of the named executables: by its name, or by the
+ * program or script it was started with (e.g. "node /usr/bin/claude")
+ */
+export function matchesProcessName(proc: RunningProcess, names: string[]): boolean {
+  const wanted = new Set(names.map(normalizeProcessName));
+  const candidates = [proc.name, ...(proc.args || []).slice(0, 2)];
+  return candidates.some(candidate => candidate && wanted.has(normalizeProcessName(candidate)));
+}
+
+/**
+ * Lock and socket files of a signature that exist. Entries are relative to
+ * the tool's directories and may use wildcards in their last segment.
+ */
+export function findLockFiles(signature: AIToolSignature, platform: NodeJS.Platform = process.platform): string[] {
+  const found: string[] = [];
+  for (const root of getSignatureCandidatePaths(signature, platform)) {
+    for (const lockFile of signature.lockFiles || []) {
+      const lockPath = path.join(root, lockFile);
+      const name = path.basename(lockPath);
+      if (!/[*?{]/.test(name)) {
+        if (fs.existsSync(lockPath)) {
+          found.push(lockPath);
+        }
+        continue;
+      }
+      try {
+        const pattern = globToRegExp(name);
+        const dir = path.dirname(lockPath);
+        found.push(...fs.readdirSync(dir).filter(entry => pattern.test(entry)).map(entry => path.join(dir, entry)));
+      } catch {
+        // The directory does not exist
+      }
+    }
+  }
+  return found;
+}
+
+/**
+ * Tools that look active: one of their processes is running or one of their
+ * lock files exists. Tools without process names or lock files are never
+ * reported.
+ */
+export function detectToolActivity(
+  signatures: AIToolSignature[] = getAllSignatures(),
+  processes: RunningProcess[] = listProcesses()
+): ToolActivity[] {
+  const active: ToolActivity[] = [];
+  for (const signature of signatures) {
+    const names = signature.processNames || [];
+    const matching = names.length > 0 ? processes.filter(proc => proc.pid !== process.pid && matchesProcessName(proc, names)) : [];
+    const lockFiles = findLockFiles(signature);
+    if (matching.length > 0 || lockFiles.length > 0) {
+      active.push({
+        toolName: signature.name,
+        processes: matching,
+        lockFiles,
+        roots: getSignatureCandidatePaths(signature).filter(root => fs.existsSync(root)),
+      });
+    }
+  }
+  return active;
+}
+
+/**
+ * The active tool owning a path, if any
+ */
+export function findActiveTool(targetPath: string, activity: ToolActivity[]): ToolActivity | undefined {
+  return activity.find(tool => tool.roots.some(root => isPathInside(targetPath, root)));
+}
+
+/**
+ * Active tools owning any of the paths, each listed once
+ */
+export function findActiveTools(paths: string[], activity: ToolActivity[]): ToolActivity[] {
+  return activity.filter(tool => paths.some(p => findActiveTool(p, [tool])));
+}
+
+/**
+ * Short explanation of why a tool counts as running, e.g.
+ * "claude (pid 4242)" or "lock file code.lock"
+ */
+export function describeActivity(tool: ToolActivity): string {
+  const parts = tool.processes.slice(0, 3).map(proc => `${normalizeProcessName(proc.name)} (pid ${proc.pid})`);
+  if (tool.processes.length > 3) {
+    parts.push(`${tool.processes.length - 3} more process(es)`);
+  }
+  if (parts.length === 0 && tool.lockFiles.length > 0) {
+    parts.push(`lock file ${path.basename(tool.lockFiles[0])}`);
+  }
+  return parts.join(', ');
+}
+
+/**
+ * Why a path may not be deleted right now, or undefined when its tool is not running
+ */
+export function getRunningToolError(targetPath: string, activity: ToolActivity[]): string | undefined {
+  const tool = findActiveTool(targetPath, activity);
+  return tool
+    ? `${tool.toolName} is running (${describeActivity(tool)}); close it before deleting its data`
+    : undefined;
+}
@@ -0,0 +1,341 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { getXdgDirectory } from './platformPaths';
+
+/**
+ * Quarantine - recoverable deletion
+ * Deleted items are moved into a holding area (or the freedesktop Trash on Linux)
+ * and tracked in a manifest so they can be restored until they are purged.
+ */
+
+export type DeleteMode = 'permanent' | 'quarantine' | 'trash';
+
+export interface QuarantineEntry {
+  id: string;
+  batchId: string;
+  originalPath: string;
+  storedPath: string;
+  location: 'quarantine' | 'trash';
+  trashInfoPath?: string;
+  deletedAt: string;
+  size: number;
+}
+
+export interface RestoreResult {
+  success: boolean;
+  id: string;
+  path: string;
+  error?: string;
+}
+
+export interface PurgeResult {
+  purgedCount: number;
+  freedBytes: number;
+}
+
+interface QuarantineManifest {
+  version: 1;
+  entries: QuarantineEntry[];
+}
+
+const MANIFEST_FILE = 'manifest.json';
+const ITEMS_DIR = 'items';
+
+function getManifestPath(quarantineDir: string): string {
+  return path.join(quarantineDir, MANIFEST_FILE);
+}
+
+function readManifest(quarantineDir: string): QuarantineManifest {
+  try {
+    const raw = fs.readFileSync(getManifestPath(quarantineDir), 'utf8');
+    const parsed = JSON.parse(raw) as QuarantineManifest;
+    if (Array.isArray(parsed.entries)) {
+      return { version: 1, entries: parsed.entries };
+    }
+  } catch {
+    // Missing or unreadable manifest - start fresh
+  }
+  return { version: 1, entries: [] };
+}
+
+function writeManifest(quarantineDir: string, manifest: QuarantineManifest): void {
+  fs.mkdirSync(quarantineDir, { recursive: true });
+  const manifestPath = getManifestPath(quarantineDir);
+  const tempPath = manifestPath + '.tmp';
+  fs.writeFileSync(tempPath, JSON.stringify(manifest, null, 2));
+  fs.renameSync(tempPath, manifestPath);
+}
+
+// Move a file or directory, copying when source and target are on different devices
+function movePath(source: string, target: string): void {
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  try {
+    fs.renameSync(source, target);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EXDEV') {
+      throw error;
+    }
+    fs.cpSync(source, target, { recursive: true, preserveTimestamps: true });
+    fs.rmSync(source, { recursive: true, force: true });
+  }
+}
+
+export function createBatchId(): string {
+  return `${Date.now()}-${crypto.randomBytes(4).toString('hex')}`;
+}
+
+function getTrashDir(): string {
+  return path.join(getXdgDirectory('XDG_DATA_HOME'), 'Trash');
+}
+
+// The freedesktop Trash is only defined for Linux desktops
+export function isTrashSupported(): boolean {
+  return process.platform === 'linux';
+}
+
+function formatTrashDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+function encodeTrashPath(targetPath: string): string {
+  return targetPath.split('/').map(segment => encodeURIComponent(segment)).join('/');
+}
+
+// Pick a name that is free in both Trash/files and Trash/info
+function getUniqueTrashName(trashDir: string, baseName: string): string {
+  let name = baseName;
+  let counter = 2;
+  while (fs.existsSync(path.join(trashDir, 'files', name)) ||
+    fs.existsSync(path.join(trashDir, 'info', name + '.trashinfo'))) {
+    name = `${baseName}.${counter}`;
+    counter++;
+  }
+  return name;
+}
+
+interface QuarantineOptions {
+  mode: 'quarantine' | 'trash';
+  batchId: string;
+}
+
+// Move a single path aside without touching the manifest
+function moveAside(targetPath: string, quarantineDir: string, size: number, options: QuarantineOptions): QuarantineEntry {
+  const id = crypto.randomBytes(8).toString('hex');
+  const deletedAt = new Date();
+  const useTrash = options.mode === 'trash' && isTrashSupported();
+
+  if (useTrash) {
+    const trashDir = getTrashDir();
+    fs.mkdirSync(path.join(trashDir, 'files'), { recursive: true });
+    fs.mkdirSync(path.join(trashDir, 'info'), { recursive: true });
+
+    const trashName = getUniqueTrashName(trashDir, path.basename(targetPath));
+    const trashInfoPath = path.join(trashDir, 'info', trashName + '.trashinfo');
+    const storedPath = path.join(trashDir, 'files', trashName);
+
+    // The info file is written first, as required by the Trash specification
+    fs.writeFileSync(trashInfoPath,
+      `[Trash Info]\nPath=${encodeTrashPath(path.resolve(targetPath))}\nDeletionDate=${formatTrashDate(deletedAt)}\n`);
+    try {
+      movePath(targetPath, storedPath);
+    } catch (error) {
+      fs.rmSync(trashInfoPath, { force: true });
+      throw error;
+    }
+
+    return {
+      id,
+      batchId: options.batchId,
+      originalPath: targetPath,
+      storedPath,
+      location: 'trash',
+      trashInfoPath,
+      deletedAt: deletedAt.toISOString(),
+      size,
+    };
+  }
+
+  const storedPath = path.join(quarantineDir, ITEMS_DIR, id, path.basename(targetPath));
+  movePath(targetPath, storedPath);
+
+  return {
+    id,
+    batchId: options.batchId,
+    originalPath: targetPath,
+    storedPath,
+    location: 'quarantine',
+    deletedAt: deletedAt.toISOString(),
+    size,
+  };
+}
+
+/**
+ * Move a path out of the way and record it in the manifest.
+ * Falls back to the extension-managed holding area when the Trash is unavailable.
+ */
+export function quarantinePath(
+  targetPath: string,
+  quarantineDir: string,
+  options: QuarantineOptions & { size: number }
+): QuarantineEntry {
+  const entry = moveAside(targetPath, quarantineDir, options.size, options);
+
+  const manifest = readManifest(quarantineDir);
+  manifest.entries.push(entry);
+  writeManifest(quarantineDir, manifest);
+
+  return entry;
+}
+
+/**
+ * Move many paths aside, writing the manifest once.
+ * Failures are reported per path instead of aborting the whole batch.
+ */
+export function quarantinePaths(
+  targets: Array<{ path: string; size: number }>,
+  quarantineDir: string,
+  options: QuarantineOptions
+): { entries: QuarantineEntry[]; errors: Array<{ path: string; error: string }> } {
+  const entries: QuarantineEntry[] = [];
+  const errors: Array<{ path: string; error: string }> = [];
+
+  for (const target of targets) {
+    try {
+      entries.push(moveAside(target.path, quarantineDir, target.size, options));
+    } catch (error) {
+      errors.push({ path: target.path, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  if (entries.length > 0) {
+    const manifest = readManifest(quarantineDir);
+    manifest.entries.push(...entries);
+    writeManifest(quarantineDir, manifest);
+  }
+
+  return { entries, errors };
+}
+
+/**
+ * List quarantined items, newest first
+ */
+export function listQuarantine(quarantineDir: string): QuarantineEntry[] {
+  return readManifest(quarantineDir).entries
+    .slice()
+    .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+}
+
+/**
+ * Get the items removed by the most recent cleanup
+ */
+export function getLastBatch(quarantineDir: string): QuarantineEntry[] {
+  const entries = listQuarantine(quarantineDir);
+  if (entries.length === 0) {
+    return [];
+  }
+  const batchId = entries[0].batchId;
+  return entries.filter(entry => entry.batchId === batchId);
+}
+
+// Remove the per-item holding directory and anything left inside it
+function removeItemDir(quarantineDir: string, entry: QuarantineEntry): void {
+  if (entry.location === 'quarantine') {
+    fs.rmSync(path.join(quarantineDir, ITEMS_DIR, entry.id), { recursive: true, force: true });
+  }
+}
+
+/**
+ * Move items back to their original location.
+ * Items are restored in reverse deletion order so parents come back before children.
+ */
+export function restoreEntries(quarantineDir: string, ids: string[]): RestoreResult[] {
+  const manifest = readManifest(quarantineDir);
+  const wanted = new Set(ids);
+  const toRestore = manifest.entries
+    .filter(entry => wanted.has(entry.id))
+    .sort((a, b) => a.deletedAt.localeCompare(b.deletedAt))
+    .reverse();
+
+  const results: RestoreResult[] = [];
+  const restoredIds = new Set<string>();
+
+  for (const entry of toRestore) {
+    try {
+      if (fs.existsSync(entry.originalPath)) {
+        throw new Error('Original path already exists');
+      }
+      if (!fs.existsSync(entry.storedPath)) {
+        throw new Error('Quarantined copy is missing');
+      }
+
+      movePath(entry.storedPath, entry.originalPath);
+      if (entry.trashInfoPath) {
+        fs.rmSync(entry.trashInfoPath, { force: true });
+      }
+      removeItemDir(quarantineDir, entry);
+
+      restoredIds.add(entry.id);
+      results.push({ success: true, id: entry.id, path: entry.originalPath });
+    } catch (error) {
+      results.push({
+        success: false,
+        id: entry.id,
+        path: entry.originalPath,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  for (const id of ids) {
+    if (!toRestore.some(entry => entry.id === id)) {
+      results.push({ success: false, id, path: '', error: 'Item is not in quarantine' });
+    }
+  }
+
+  manifest.entries = manifest.entries.filter(entry => !restoredIds.has(entry.id));
+  writeManifest(quarantineDir, manifest);
+
+  return results;
+}
+
+/**
+ * Permanently remove quarantined items older than the retention period.
+ * Items sent to the system Trash are left for the desktop to manage and
+ * are only dropped from the manifest.
+ */
+export function purgeExpired(quarantineDir: string, retentionDays: number, now: number = Date.now()): PurgeResult {
+  const manifest = readManifest(quarantineDir);
+  const cutoff = now - retentionDays * 24 * 60 * 60 * 1000;
+  const kept: QuarantineEntry[] = [];
+  let purgedCount = 0;
+  let freedBytes = 0;
+
+  for (const entry of manifest.entries) {
+    if (Date.parse(entry.deletedAt) > cutoff) {
+      kept.push(entry);
+      continue;
+    }
+
+    if (entry.location === 'quarantine') {
+      try {
+        removeItemDir(quarantineDir, entry);
+        freedBytes += entry.size;
+      } catch {
+        // Keep the entry so the purge is retried later
+        kept.push(entry);
+        continue;
+      }
+    }
+    purgedCount++;
+  }
+
+  if (purgedCount > 0) {
+    manifest.entries = kept;
+    writeManifest(quarantineDir, manifest);
+  }
+
+  return { purgedCount, freedBytes };
+}
@@ -0,0 +1,183 @@
+import { CacheDirectory, ScanResult } from './cacheScanner';
+import { DeleteResult, formatSize } from './cacheDeleter';
+import { DeleteMode } from './quarantine';
+import { SafetyLevel } from './safetyLevels';
+
+/**
+ * Report Exporter
+ * Renders a scan tree or a cleanup result as JSON, CSV or Markdown so it can
+ * be attached to tickets or compared between machines.
+ */
+
+export type ReportFormat = 'json' | 'csv' | 'markdown';
+
+export interface ReportContext {
+  generatedAt?: string;
+  host?: string;
+  platform?: string;
+}
+
+export interface ScanReportRow {
+  path: string;
+  name: string;
+  tool: string;
+  // 0 for scanned roots
+  depth: number;
+  size: number;
+  sizeFormatted: string;
+  // Space allocated on disk, when measured
+  diskUsage?: number;
+  // Effective level, after user overrides
+  safetyLevel: SafetyLevel;
+  overridden: boolean;
+  rule: string;
+  description: string;
+  excluded: boolean;
+}
+
+export interface CleanupReport {
+  timestamp: string;
+  mode: DeleteMode;
+  totalFreed: number;
+  successCount: number;
+  failCount: number;
+  results: DeleteResult[];
+}
+
+export const REPORT_EXTENSIONS: Record<ReportFormat, string> = { json: 'json', csv: 'csv', markdown: 'md' };
+
+/**
+ * Flatten a scan tree into one row per directory, parents before children
+ */
+export function flattenScan(result: ScanResult, overrides: Record<string, SafetyLevel> = {}): ScanReportRow[] {
+  const rows: ScanReportRow[] = [];
+
+  const visit = (dir: CacheDirectory, tool: string, depth: number) => {
+    rows.push({
+      path: dir.path,
+      name: dir.name,
+      tool,
+      depth,
+      size: dir.size,
+      sizeFormatted: dir.sizeFormatted,
+      diskUsage: dir.diskUsage,
+      safetyLevel: overrides[dir.path] || dir.safetyLevel,
+      overridden: dir.path in overrides,
+      rule: dir.path in overrides ? 'User override' : (dir.safetyRule || ''),
+      description: dir.description,
+      excluded: dir.excluded === true,
+    });
+    dir.children?.forEach(child => visit(child, tool, depth + 1));
+  };
+
+  for (const root of result.directories) {
+    visit(root, root.toolName || root.name, 0);
+  }
+  return rows;
+}
+
+export function createCleanupReport(
+  result: { results: DeleteResult[]; totalFreed: number; successCount: number; failCount: number },
+  mode: DeleteMode,
+  now: number = Date.now()
+): CleanupReport {
+  return {
+    timestamp: new Date(now).toISOString(),
+    mode,
+    totalFreed: result.totalFreed,
+    successCount: result.successCount,
+    failCount: result.failCount,
+    results: result.results,
+  };
+}
+
+function escapeCsv(value: string | number | boolean): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(header: string[], rows: Array<Array<string | number | boolean>>): string {
+  return [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\n') + '\n';
+}
+
+function escapeMarkdown(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function toMarkdownTable(header: string[], rows: string[][]): string {
+  return [
+    `| ${header.join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.map(escapeMarkdown).join(' | ')} |`),
+  ].join('\n') + '\n';
+}
+
+function describeContext(context: ReportContext): string {
+  return [
+    context.generatedAt && `Generated ${context.generatedAt}`,
+    context.host && `on ${context.host}`,
+    context.platform && `(${context.platform})`,
+  ].filter(Boolean).join(' ');
+}
+
+export function formatScanReport(
+  result: ScanResult,
+  format: ReportFormat,
+  overrides: Record<string, SafetyLevel> = {},
+  context: ReportContext = {}
+): string {
+  const rows = flattenScan(result, overrides);
+
+  if (format === 'json') {
+    return JSON.stringify({
+      ...context,
+      totalSize: result.totalSize,
+      totalDiskUsage: result.totalDiskUsage,
+      directories: rows,
+    }, null, 2) + '\n';
+  }
+
+  if (format === 'csv') {
+    return toCsv(
+      ['path', 'tool', 'depth', 'size', 'diskUsage', 'safetyLevel', 'overridden', 'rule', 'description', 'excluded'],
+      rows.map(row => [
+        row.path, row.tool, row.depth, row.size, row.diskUsage ?? '', row.safetyLevel,
+        row.overridden, row.rule, row.description, row.excluded,
+      ])
+    );
+  }
+
+  const intro = describeContext(context);
+  return `# AI Cache Report\n\n${intro ? intro + '\n\n' : ''}**Total:** ${result.totalSizeFormatted}\n\n` + toMarkdownTable(
+    ['Directory', 'Tool', 'Size', 'Level', 'Rule', 'Description'],
+    rows.map(row => [
+      `${'&nbsp;&nbsp;'.repeat(row.depth)}\`${row.path}\``,
+      row.tool,
+      row.excluded ? 'excluded' : row.sizeFormatted,
+      row.overridden ? `${row.safetyLevel} (override)` : row.safetyLevel,
+      row.rule,
+      row.description,
+    ])
+  );
+}
+
+export function formatCleanupReport(report: CleanupReport, format: ReportFormat, context: ReportContext = {}): string {
+  if (format === 'json') {
+    return JSON.stringify({ ...context, ...report }, null, 2) + '\n';
+  }
+
+  if (format === 'csv') {
+    return toCsv(
+      ['path', 'success', 'freedBytes', 'error', 'quarantineId'],
+      report.results.map(r => [r.path, r.success, r.freedBytes, r.error || '', r.quarantineId || ''])
+    );
+  }
+
+  const intro = describeContext(context);
+  return `# AI Cache Cleanup Report\n\n${intro ? intro + '\n\n' : ''}` +
+    `Cleanup at ${report.timestamp} (${report.mode}): ${report.successCount} removed, ${report.failCount} failed, ` +
+    `${formatSize(report.totalFreed)} freed\n\n` + toMarkdownTable(
+      ['Path', 'Result', 'Freed', 'Error'],
+      report.results.map(r => [`\`${r.path}\``, r.success ? 'removed' : 'failed', formatSize(r.freedBytes), r.error || ''])
+    );
+}
@@ -0,0 +1,141 @@
+import { SafetyLevel } from './safetyLevels';
+import { matchesPathPattern, mayMatchBelow } from './pathMatcher';
+
+/**
+ * Safety Rules
+ * Ordered glob rules that classify directories by where they are rather
+ * than by their name alone. The first matching rule wins; a rule also
+ * covers everything below the directories it matches. User rules come
+ * before the built-in ones, and both take precedence over the directory
+ * lists in the tool signatures.
+ */
+
+export interface SafetyRule {
+  // Path glob (pathMatcher syntax); "~/" patterns are relative to the home directory
+  pattern: string;
+  level: SafetyLevel;
+  // Why the rule exists, shown next to the classification
+  reason: string;
+  // Only directories of these tools; every tool when omitted
+  tools?: string[];
+  // Team policy file the rule came from; rules from settings have none
+  source?: string;
+}
+
+export const BUILT_IN_SAFETY_RULES: SafetyRule[] = [
+  {
+    pattern: '~/.claude/projects/*/memory',
+    level: 'danger',
+    reason: 'Project memory curated in Claude Code sessions - not regenerated',
+    tools: ['Claude Code']
+  }
+];
+
+const LEVELS: SafetyLevel[] = ['safe', 'caution', 'danger'];
+
+// User-defined rules, evaluated before the built-ins
+let userRules: SafetyRule[] = [];
+
+export function setSafetyRules(rules: SafetyRule[]): void {
+  userRules = [...rules];
+}
+
+export function getSafetyRules(): SafetyRule[] {
+  return [...userRules, ...BUILT_IN_SAFETY_RULES];
+}
+
+/**
+ * Validate one user-supplied rule
+ */
+export function validateSafetyRule(value: unknown, label: string = 'rule'): { rule?: SafetyRule; errors: string[] } {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { errors: [`${label}: must be an object`] };
+  }
+
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.pattern !== 'string' || raw.pattern.trim() === '') {
+    return { errors: [`${label}: "pattern" must be a non-empty string`] };
+  }
+
+  const pattern = raw.pattern.trim();
+  const errors: string[] = [];
+
+  if (!LEVELS.includes(raw.level as SafetyLevel)) {
+    errors.push(`${label} "${pattern}": "level" must be one of ${LEVELS.join(', ')}`);
+  }
+  if (raw.reason !== undefined && typeof raw.reason !== 'string') {
+    errors.push(`${label} "${pattern}": "reason" must be a string`);
+  }
+  if (raw.tools !== undefined &&
+    (!Array.isArray(raw.tools) || raw.tools.some(tool => typeof tool !== 'string' || tool.trim() === ''))) {
+    errors.push(`${label} "${pattern}": "tools" must be an array of tool names`);
+  }
+  for (const key of Object.keys(raw).filter(key => !['pattern', 'level', 'reason', 'tools'].includes(key))) {
+    errors.push(`${label} "${pattern}": unknown property "${key}"`);
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+  return {
+    rule: {
+      pattern,
+      level: raw.level as SafetyLevel,
+      reason: (raw.reason as string | undefined)?.trim() || 'User rule',
+      tools: (raw.tools as string[] | undefined)?.map(tool => tool.trim()),
+    },
+    errors,
+  };
+}
+
+/**
+ * Validate the safetyRules setting, skipping invalid rules
+ */
+export function validateSafetyRules(entries: unknown[], label: string = 'safetyRules'): { rules: SafetyRule[]; errors: string[] } {
+  const rules: SafetyRule[] = [];
+  const errors: string[] = [];
+  entries.forEach((entry, index) => {
+    const result = validateSafetyRule(entry, `${label}[${index}]`);
+    if (result.rule) {
+      rules.push(result.rule);
+    }
+    errors.push(...result.errors);
+  });
+  return { rules, errors };
+}
+
+function appliesToTool(rule: SafetyRule, toolName: string | undefined): boolean {
+  return !rule.tools || (toolName !== undefined && rule.tools.includes(toolName));
+}
+
+/**
+ * The first rule matching a directory (or one of its ancestors)
+ */
+export function findSafetyRule(
+  targetPath: string,
+  toolName?: string,
+  rules: SafetyRule[] = getSafetyRules()
+): SafetyRule | undefined {
+  return rules.find(rule => appliesToTool(rule, toolName) && matchesPathPattern(targetPath, rule.pattern));
+}
+
+/**
+ * Whether a rule targets something below a directory, so the scanner
+ * should look deeper than it normally would
+ */
+export function hasRulesBelow(
+  dirPath: string,
+  toolName?: string,
+  rules: SafetyRule[] = getSafetyRules()
+): boolean {
+  return rules.some(rule => appliesToTool(rule, toolName) && mayMatchBelow(dirPath, rule.pattern));
+}
+
+/**
+ * How a rule is reported in CacheDirectory.safetyRule
+ */
+export function describeSafetyRule(rule: SafetyRule): string {
+  return rule.source
+    ? `Set by team policy (${rule.source}) "${rule.pattern}": ${rule.reason}`
+    : `Rule "${rule.pattern}": ${rule.reason}`;
+}
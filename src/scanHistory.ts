@@ -0,0 +1,177 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CacheDirectory, ScanResult } from './cacheScanner';
+
+/**
+ * Scan History
+ * Keeps a compact record of directory sizes after each scan so growth can be
+ * charted over time.
+ */
+
+export interface ScanSnapshot {
+  timestamp: string;
+  totalSize: number;
+  // Total size per tool
+  tools: Record<string, number>;
+  // Size per scanned root and first-level directory, keyed by path
+  directories: Record<string, number>;
+}
+
+export interface GrowthEntry {
+  key: string;
+  kind: 'tool' | 'directory';
+  startSize: number;
+  endSize: number;
+  delta: number;
+  // Average growth in bytes per day over the window
+  bytesPerDay: number;
+}
+
+export interface HistoryOptions {
+  retentionDays: number;
+  // Scans closer together than this replace the latest snapshot
+  minIntervalMs?: number;
+  now?: number;
+}
+
+interface HistoryFile {
+  version: 1;
+  snapshots: ScanSnapshot[];
+}
+
+const HISTORY_FILE = 'scan-history.json';
+const DEFAULT_MIN_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function getHistoryPath(storageDir: string): string {
+  return path.join(storageDir, HISTORY_FILE);
+}
+
+/**
+ * Reduce a scan result to the sizes worth tracking.
+ * Excluded directories are skipped since they are not measured.
+ */
+export function createSnapshot(result: ScanResult, now: number = Date.now()): ScanSnapshot {
+  const snapshot: ScanSnapshot = {
+    timestamp: new Date(now).toISOString(),
+    totalSize: result.totalSize,
+    tools: {},
+    directories: {},
+  };
+
+  const record = (dir: CacheDirectory) => {
+    if (!dir.excluded) {
+      snapshot.directories[dir.path] = dir.size;
+    }
+  };
+
+  for (const root of result.directories) {
+    if (root.excluded) {
+      continue;
+    }
+    const toolName = root.toolName || root.name;
+    snapshot.tools[toolName] = (snapshot.tools[toolName] || 0) + root.size;
+    record(root);
+    root.children?.forEach(record);
+  }
+
+  return snapshot;
+}
+
+export function loadHistory(storageDir: string): ScanSnapshot[] {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(getHistoryPath(storageDir), 'utf8')) as HistoryFile;
+    if (Array.isArray(parsed.snapshots)) {
+      return parsed.snapshots;
+    }
+  } catch {
+    // Missing or unreadable history - start fresh
+  }
+  return [];
+}
+
+function saveHistory(storageDir: string, snapshots: ScanSnapshot[]): void {
+  fs.mkdirSync(storageDir, { recursive: true });
+  const historyPath = getHistoryPath(storageDir);
+  const tempPath = historyPath + '.tmp';
+  const history: HistoryFile = { version: 1, snapshots };
+  fs.writeFileSync(tempPath, JSON.stringify(history));
+  fs.renameSync(tempPath, historyPath);
+}
+
+/**
+ * Append a snapshot of the scan to the history, dropping snapshots older
+ * than the retention period. Returns the updated history, oldest first.
+ */
+export function recordSnapshot(storageDir: string, result: ScanResult, options: HistoryOptions): ScanSnapshot[] {
+  const now = options.now ?? Date.now();
+  const minInterval = options.minIntervalMs ?? DEFAULT_MIN_INTERVAL_MS;
+  const cutoff = now - options.retentionDays * DAY_MS;
+
+  const snapshots = loadHistory(storageDir).filter(s => Date.parse(s.timestamp) >= cutoff);
+  const latest = snapshots[snapshots.length - 1];
+  if (latest && now - Date.parse(latest.timestamp) < minInterval) {
+    snapshots.pop();
+  }
+  snapshots.push(createSnapshot(result, now));
+
+  saveHistory(storageDir, snapshots);
+  return snapshots;
+}
+
+export function clearHistory(storageDir: string): void {
+  fs.rmSync(getHistoryPath(storageDir), { force: true });
+}
+
+function compareSeries(
+  kind: GrowthEntry['kind'],
+  first: Record<string, number>,
+  last: Record<string, number>,
+  days: number
+): GrowthEntry[] {
+  return Object.keys(last)
+    .filter(key => key in first)
+    .map(key => {
+      const delta = last[key] - first[key];
+      return {
+        key,
+        kind,
+        startSize: first[key],
+        endSize: last[key],
+        delta,
+        bytesPerDay: days > 0 ? delta / days : 0,
+      };
+    });
+}
+
+/**
+ * Compare the oldest snapshot inside the window with the newest one and
+ * return the tools and directories that grew the most, largest growth first.
+ */
+export function getFastestGrowing(
+  snapshots: ScanSnapshot[],
+  options: { windowDays?: number; limit?: number; now?: number } = {}
+): GrowthEntry[] {
+  if (snapshots.length < 2) {
+    return [];
+  }
+
+  const now = options.now ?? Date.now();
+  const windowStart = options.windowDays !== undefined ? now - options.windowDays * DAY_MS : -Infinity;
+  const inWindow = snapshots.filter(s => Date.parse(s.timestamp) >= windowStart);
+  if (inWindow.length < 2) {
+    return [];
+  }
+
+  const first = inWindow[0];
+  const last = inWindow[inWindow.length - 1];
+  const days = (Date.parse(last.timestamp) - Date.parse(first.timestamp)) / DAY_MS;
+
+  return [
+    ...compareSeries('tool', first.tools, last.tools, days),
+    ...compareSeries('directory', first.directories, last.directories, days),
+  ]
+    .filter(entry => entry.delta > 0)
+    .sort((a, b) => b.delta - a.delta)
+    .slice(0, options.limit ?? 10);
+}
@@ -0,0 +1,99 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SafetyLevel } from './safetyLevels';
+
+/**
+ * Shared Settings
+ * The settings and stored choices that decide what may be deleted, copied
+ * by the extension into its global storage so the command-line tool, which
+ * cannot read VS Code's settings or state, classifies and protects
+ * directories the same way.
+ */
+
+export const SHARED_SETTINGS_FILE = 'shared-settings.json';
+
+export interface SharedSettings {
+  version: 1;
+  updatedAt: string;
+  defaultSafetyLevel: SafetyLevel;
+  excludePatterns: string[];
+  safetyOverrides: Record<string, SafetyLevel>;
+  // Raw setting values; readers validate them as the extension does
+  safetyRules: unknown[];
+  customSignatures: unknown[];
+  signatureFiles: string[];
+  // Paths the user locked and built-in locks the user lifted
+  lockedPaths: string[];
+  unlockedPaths: string[];
+}
+
+const LEVELS: SafetyLevel[] = ['safe', 'caution', 'danger'];
+
+export function getSharedSettingsPath(storageDir: string): string {
+  return path.join(storageDir, SHARED_SETTINGS_FILE);
+}
+
+/**
+ * Write the settings, replacing the file in one step so a reader never sees
+ * half of it
+ */
+export function writeSharedSettings(storageDir: string, settings: Omit<SharedSettings, 'version' | 'updatedAt'>): void {
+  const content: SharedSettings = { version: 1, updatedAt: new Date().toISOString(), ...settings };
+  const filePath = getSharedSettingsPath(storageDir);
+  fs.mkdirSync(storageDir, { recursive: true });
+  fs.writeFileSync(filePath + '.tmp', JSON.stringify(content, null, 2));
+  fs.renameSync(filePath + '.tmp', filePath);
+}
+
+function stringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+/**
+ * Read the settings the extension wrote. A missing file gives no settings
+ * and no error; malformed fields fall back to their defaults.
+ */
+export function readSharedSettings(storageDir: string): { settings?: SharedSettings; errors: string[] } {
+  const filePath = getSharedSettingsPath(storageDir);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { errors: [] };
+    }
+    return { errors: [`${filePath}: ${error instanceof Error ? error.message : 'cannot be read'}`] };
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return { errors: [`${filePath}: expected an object`] };
+  }
+
+  const raw = parsed as Record<string, unknown>;
+  const errors: string[] = [];
+  const safetyOverrides: Record<string, SafetyLevel> = {};
+  if (typeof raw.safetyOverrides === 'object' && raw.safetyOverrides !== null) {
+    for (const [overridePath, level] of Object.entries(raw.safetyOverrides)) {
+      if (LEVELS.includes(level as SafetyLevel)) {
+        safetyOverrides[overridePath] = level as SafetyLevel;
+      } else {
+        errors.push(`${filePath}: "${overridePath}": level must be one of ${LEVELS.join(', ')}`);
+      }
+    }
+  }
+
+  return {
+    settings: {
+      version: 1,
+      updatedAt: typeof raw.updatedAt === 'string' ? raw.updatedAt : '',
+      defaultSafetyLevel: LEVELS.includes(raw.defaultSafetyLevel as SafetyLevel) ? raw.defaultSafetyLevel as SafetyLevel : 'caution',
+      excludePatterns: stringArray(raw.excludePatterns),
+      safetyOverrides,
+      safetyRules: Array.isArray(raw.safetyRules) ? raw.safetyRules : [],
+      customSignatures: Array.isArray(raw.customSignatures) ? raw.customSignatures : [],
+      signatureFiles: stringArray(raw.signatureFiles),
+      lockedPaths: stringArray(raw.lockedPaths),
+      unlockedPaths: stringArray(raw.unlockedPaths)
+    },
+    errors
+  };
+}
@@ -0,0 +1,208 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Size Calculator
+ * Measures directories without following symlinks below the starting
+ * directory, so linked project or model folders are not counted and link
+ * cycles cannot recurse. Hardlinked files are counted once per measurement.
+ */
+
+export interface DiskUsage {
+  // Sum of file lengths
+  apparentSize: number;
+  // Space actually allocated on disk (allocated blocks)
+  diskUsage: number;
+}
+
+export interface SizeWalkOptions {
+  // Entries to skip entirely
+  exclude?: (entryPath: string) => boolean;
+  // Called for every entry visited; may throw to abort the walk
+  onEntry?: (entryPath: string) => void;
+  // Wraps each filesystem call, e.g. to bound concurrency
+  limit?: <T>(task: () => Promise<T>) => Promise<T>;
+}
+
+// Directories and multiply-linked files already counted in one measurement
+interface WalkState {
+  seenDirectories: Set<string>;
+  seenFiles: Set<string>;
+}
+
+export const EMPTY_USAGE: DiskUsage = { apparentSize: 0, diskUsage: 0 };
+
+function inodeKey(stats: fs.Stats): string {
+  return `${stats.dev}:${stats.ino}`;
+}
+
+// Block counts are not reported on Windows, where the file length is the best estimate
+function getAllocatedBytes(stats: fs.Stats): number {
+  return process.platform !== 'win32' && typeof stats.blocks === 'number' ? stats.blocks * 512 : stats.size;
+}
+
+// Usage of a single non-directory entry, or nothing when it is another link to a counted file
+function measureEntry(stats: fs.Stats, state: WalkState): DiskUsage {
+  if (stats.nlink > 1) {
+    const key = inodeKey(stats);
+    if (state.seenFiles.has(key)) {
+      return EMPTY_USAGE;
+    }
+    state.seenFiles.add(key);
+  }
+  return { apparentSize: stats.size, diskUsage: getAllocatedBytes(stats) };
+}
+
+export function addUsage(a: DiskUsage, b: DiskUsage): DiskUsage {
+  return { apparentSize: a.apparentSize + b.apparentSize, diskUsage: a.diskUsage + b.diskUsage };
+}
+
+function walkSync(dirPath: string, options: SizeWalkOptions, state: WalkState): DiskUsage {
+  let usage = EMPTY_USAGE;
+  let entries: string[];
+  try {
+    entries = fs.readdirSync(dirPath);
+  } catch {
+    // Skip directories we can't access
+    return usage;
+  }
+
+  for (const entry of entries) {
+    const entryPath = path.join(dirPath, entry);
+    if (options.exclude?.(entryPath)) {
+      continue;
+    }
+    options.onEntry?.(entryPath);
+
+    let stats: fs.Stats;
+    try {
+      stats = fs.lstatSync(entryPath);
+    } catch {
+      // Skip entries we can't access
+      continue;
+    }
+
+    if (!stats.isDirectory()) {
+      usage = addUsage(usage, measureEntry(stats, state));
+    } else if (!state.seenDirectories.has(inodeKey(stats))) {
+      state.seenDirectories.add(inodeKey(stats));
+      usage = addUsage(usage, walkSync(entryPath, options, state));
+    }
+  }
+  return usage;
+}
+
+// Directories read at the same time by one asynchronous walk
+const WALK_WORKERS = 8;
+
+// Entries of one directory measured at the same time
+const STAT_BATCH = 64;
+
+/**
+ * Walk with a fixed number of workers sharing an explicit stack of the
+ * directories still to read, so memory grows with the directories waiting
+ * rather than with the whole tree
+ */
+function walk(dirPath: string, options: SizeWalkOptions, state: WalkState): Promise<DiskUsage> {
+  const limit = options.limit || (<T>(task: () => Promise<T>) => task());
+  const pending: string[] = [dirPath];
+  let usage = EMPTY_USAGE;
+
+  const readDirectory = async (currentPath: string): Promise<void> => {
+    let entries: string[];
+    try {
+      entries = await limit(() => fs.promises.readdir(currentPath));
+    } catch {
+      // Skip directories we can't access
+      return;
+    }
+
+    for (let start = 0; start < entries.length; start += STAT_BATCH) {
+      await Promise.all(entries.slice(start, start + STAT_BATCH).map(async entry => {
+        const entryPath = path.join(currentPath, entry);
+        if (options.exclude?.(entryPath)) {
+          return;
+        }
+        options.onEntry?.(entryPath);
+
+        let stats: fs.Stats;
+        try {
+          stats = await limit(() => fs.promises.lstat(entryPath));
+        } catch {
+          // Skip entries we can't access
+          return;
+        }
+
+        if (!stats.isDirectory()) {
+          usage = addUsage(usage, measureEntry(stats, state));
+        } else if (!state.seenDirectories.has(inodeKey(stats))) {
+          state.seenDirectories.add(inodeKey(stats));
+          pending.push(entryPath);
+        }
+      }));
+    }
+  };
+
+  return new Promise((resolve, reject) => {
+    let running = 0;
+    let failed = false;
+
+    const next = (): void => {
+      if (failed) {
+        return;
+      }
+      if (running === 0 && pending.length === 0) {
+        resolve(usage);
+        return;
+      }
+      while (running < WALK_WORKERS && pending.length > 0) {
+        running++;
+        readDirectory(pending.pop()!).then(
+          () => {
+            running--;
+            next();
+          },
+          error => {
+            // onEntry aborted the walk
+            failed = true;
+            reject(error);
+          }
+        );
+      }
+    };
+    next();
+  });
+}
+
+function createWalkState(rootStats: fs.Stats | undefined): WalkState {
+  const state: WalkState = { seenDirectories: new Set(), seenFiles: new Set() };
+  if (rootStats) {
+    state.seenDirectories.add(inodeKey(rootStats));
+  }
+  return state;
+}
+
+/**
+ * Measure everything below a directory. The directory itself may be a
+ * symlink (e.g. a dotfiles-managed ~/.claude); links inside it are counted
+ * as links and never followed.
+ */
+export function getDiskUsageSync(dirPath: string, options: SizeWalkOptions = {}): DiskUsage {
+  let rootStats: fs.Stats | undefined;
+  try {
+    rootStats = fs.statSync(dirPath);
+  } catch {
+    return EMPTY_USAGE;
+  }
+  return walkSync(dirPath, options, createWalkState(rootStats));
+}
+
+export async function getDiskUsage(dirPath: string, options: SizeWalkOptions = {}): Promise<DiskUsage> {
+  let rootStats: fs.Stats | undefined;
+  try {
+    rootStats = await fs.promises.stat(dirPath);
+  } catch {
+    return EMPTY_USAGE;
+  }
+  return walk(dirPath, options, createWalkState(rootStats));
+}
@@ -0,0 +1,114 @@
+import { ScanResult } from './cacheScanner';
+
+/**
+ * Size Thresholds
+ * Decides when the total cache size, or the size of a single tool,
+ * deserves the user's attention.
+ */
+
+export type ThresholdLevel = 'normal' | 'warning' | 'critical';
+
+export interface SizeLimits {
+  warningBytes?: number;
+  criticalBytes?: number;
+}
+
+export interface ThresholdConfig {
+  total: SizeLimits;
+  // Limits per tool, keyed by signature name
+  tools: Record<string, SizeLimits>;
+}
+
+export interface ThresholdBreach {
+  scope: 'total' | 'tool';
+  name: string;
+  size: number;
+  limit: number;
+  level: 'warning' | 'critical';
+}
+
+export interface ThresholdEvaluation {
+  level: ThresholdLevel;
+  breaches: ThresholdBreach[];
+  toolSizes: Record<string, number>;
+}
+
+const LEVEL_ORDER: Record<ThresholdLevel, number> = { normal: 0, warning: 1, critical: 2 };
+
+export function megabytesToBytes(megabytes: number): number {
+  return megabytes * 1024 * 1024;
+}
+
+/**
+ * Sum scanned root sizes per tool, ignoring excluded roots
+ */
+export function getToolSizes(result: ScanResult): Record<string, number> {
+  const sizes: Record<string, number> = {};
+  for (const dir of result.directories) {
+    if (dir.excluded) {
+      continue;
+    }
+    const toolName = dir.toolName || dir.name;
+    sizes[toolName] = (sizes[toolName] || 0) + dir.size;
+  }
+  return sizes;
+}
+
+/**
+ * Tools with their scanned size, largest first
+ */
+export function getToolSizesBySize(result: ScanResult): Array<{ toolName: string; size: number }> {
+  return Object.entries(getToolSizes(result))
+    .map(([toolName, size]) => ({ toolName, size }))
+    .sort((a, b) => b.size - a.size);
+}
+
+// A limit of 0 (or none) disables the check
+function checkLimits(scope: ThresholdBreach['scope'], name: string, size: number, limits: SizeLimits): ThresholdBreach | undefined {
+  if (limits.criticalBytes && size >= limits.criticalBytes) {
+    return { scope, name, size, limit: limits.criticalBytes, level: 'critical' };
+  }
+  if (limits.warningBytes && size >= limits.warningBytes) {
+    return { scope, name, size, limit: limits.warningBytes, level: 'warning' };
+  }
+  return undefined;
+}
+
+/**
+ * Compare a scan against the configured limits.
+ * The overall level is the most severe breach.
+ */
+export function evaluateThresholds(result: ScanResult, config: ThresholdConfig): ThresholdEvaluation {
+  const toolSizes = getToolSizes(result);
+  const breaches: ThresholdBreach[] = [];
+
+  const totalBreach = checkLimits('total', 'Total', result.totalSize, config.total);
+  if (totalBreach) {
+    breaches.push(totalBreach);
+  }
+
+  for (const [toolName, limits] of Object.entries(config.tools)) {
+    const breach = checkLimits('tool', toolName, toolSizes[toolName] || 0, limits);
+    if (breach) {
+      breaches.push(breach);
+    }
+  }
+
+  const level = breaches.reduce<ThresholdLevel>(
+    (worst, breach) => LEVEL_ORDER[breach.level] > LEVEL_ORDER[worst] ? breach.level : worst,
+    'normal'
+  );
+
+  return { level, breaches, toolSizes };
+}
+
+/**
+ * Breaches that were not already reported at the same or a higher level,
+ * so a notification is only shown when something gets worse
+ */
+export function getNewBreaches(previous: ThresholdBreach[], current: ThresholdBreach[]): ThresholdBreach[] {
+  return current.filter(breach => !previous.some(old =>
+    old.scope === breach.scope &&
+    old.name === breach.name &&
+    LEVEL_ORDER[old.level] >= LEVEL_ORDER[breach.level]));
+}
@@ -0,0 +1,196 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SafetyRule, validateSafetyRule } from './safetyRules';
+import { CleanupPolicy, validatePolicy } from './cleanupPolicies';
+import { PathLock } from './pathLocks';
+
+/**
+ * Team Policy
+ * Safety decisions shared through a policy file: one checked into a
+ * repository (.ai-cache-cleaner.json at the workspace root) and one in the
+ * home directory. Each may hold safety rules, protected paths that are never
+ * deleted, and cleanup presets in the cleanupPolicies format. Their rules
+ * come after the user's own and before the built-in ones; presets from a
+ * workspace are only scheduled once the user approves them.
+ */
+
+export const POLICY_FILE_NAME = '.ai-cache-cleaner.json';
+
+export interface ProtectedPath {
+  // Path pattern (same syntax as excludePatterns)
+  pattern: string;
+  // Policy file it came from
+  source: string;
+}
+
+export interface TeamPolicy {
+  // Policy files that were read, most specific first
+  sources: string[];
+  safetyRules: SafetyRule[];
+  // Locked: never deleted, whatever their safety level (see pathLocks)
+  protectedPaths: ProtectedPath[];
+  cleanupPresets: CleanupPolicy[];
+}
+
+const POLICY_FIELDS = ['$schema', 'safetyRules', 'protectedPaths', 'cleanupPresets'];
+
+export function createEmptyPolicy(): TeamPolicy {
+  return { sources: [], safetyRules: [], protectedPaths: [], cleanupPresets: [] };
+}
+
+/**
+ * Policy files to read: the workspace folders' files first, then the
+ * user-level file in the home directory
+ */
+export function getPolicyFilePaths(workspaceFolders: string[], home: string = os.homedir()): string[] {
+  const files = [...workspaceFolders, home].map(folder => path.join(folder, POLICY_FILE_NAME));
+  return Array.from(new Set(files));
+}
+
+/**
+ * Read and validate one policy file. A missing file is not an error.
+ */
+export function loadPolicyFile(filePath: string): { policy?: TeamPolicy; errors: string[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { errors: [] };
+    }
+    return { errors: [`${filePath}: ${error instanceof Error ? error.message : 'cannot be read'}`] };
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return { errors: [`${filePath}: expected an object`] };
+  }
+
+  const raw = parsed as Record<string, unknown>;
+  const policy = createEmptyPolicy();
+  policy.sources.push(filePath);
+  const errors: string[] = [];
+
+  for (const key of Object.keys(raw).filter(key => !POLICY_FIELDS.includes(key))) {
+    errors.push(`${filePath}: unknown property "${key}"`);
+  }
+
+  if (raw.safetyRules !== undefined && !Array.isArray(raw.safetyRules)) {
+    errors.push(`${filePath}: "safetyRules" must be an array`);
+  }
+  (Array.isArray(raw.safetyRules) ? raw.safetyRules : []).forEach((entry, index) => {
+    const result = validateSafetyRule(entry, `${filePath} safetyRules[${index}]`);
+    if (result.rule) {
+      policy.safetyRules.push({ ...result.rule, source: filePath });
+    }
+    errors.push(...result.errors);
+  });
+
+  if (raw.protectedPaths !== undefined && !Array.isArray(raw.protectedPaths)) {
+    errors.push(`${filePath}: "protectedPaths" must be an array`);
+  }
+  (Array.isArray(raw.protectedPaths) ? raw.protectedPaths : []).forEach((entry, index) => {
+    if (typeof entry === 'string' && entry.trim() !== '') {
+      policy.protectedPaths.push({ pattern: entry.trim(), source: filePath });
+    } else {
+      errors.push(`${filePath} protectedPaths[${index}]: must be a non-empty string`);
+    }
+  });
+
+  if (raw.cleanupPresets !== undefined && !Array.isArray(raw.cleanupPresets)) {
+    errors.push(`${filePath}: "cleanupPresets" must be an array`);
+  }
+  (Array.isArray(raw.cleanupPresets) ? raw.cleanupPresets : []).forEach((entry, index) => {
+    const result = validatePolicy(entry, `${filePath} cleanupPresets[${index}]`);
+    if (result.policy) {
+      policy.cleanupPresets.push({ ...result.policy, source: filePath });
+    }
+    errors.push(...result.errors);
+  });
+
+  return { policy, errors };
+}
+
+/**
+ * Combine policy files, most specific first: rules keep that order so the
+ * first match still wins, protected paths are pooled, and a preset name
+ * defined twice is taken from the first file
+ */
+export function mergePolicies(policies: TeamPolicy[]): TeamPolicy {
+  const merged = createEmptyPolicy();
+  for (const policy of policies) {
+    merged.sources.push(...policy.sources);
+    merged.safetyRules.push(...policy.safetyRules);
+    merged.protectedPaths.push(
+      ...policy.protectedPaths.filter(entry => !merged.protectedPaths.some(other => other.pattern === entry.pattern))
+    );
+    merged.cleanupPresets.push(
+      ...policy.cleanupPresets.filter(preset => !merged.cleanupPresets.some(other => other.name === preset.name))
+    );
+  }
+  return merged;
+}
+
+/**
+ * Read every policy file that exists and merge them
+ */
+export function loadTeamPolicy(filePaths: string[]): { policy: TeamPolicy; errors: string[] } {
+  const policies: TeamPolicy[] = [];
+  const errors: string[] = [];
+  for (const filePath of filePaths) {
+    const result = loadPolicyFile(filePath);
+    if (result.policy) {
+      policies.push(result.policy);
+    }
+    errors.push(...result.errors);
+  }
+  return { policy: mergePolicies(policies), errors };
+}
+
+/**
+ * Locks for a policy's protected paths
+ */
+export function getPolicyLocks(policy: TeamPolicy): PathLock[] {
+  return policy.protectedPaths.map(({ pattern, source }) => ({
+    pattern,
+    reason: 'Protected by team policy',
+    source: 'team' as const,
+    policyFile: source,
+  }));
+}
+
+/**
+ * What the user approves when scheduling a workspace preset: its file, name,
+ * schedule and rules. Editing any of them asks for approval again.
+ */
+export function getPresetApprovalKey(preset: CleanupPolicy): string {
+  return JSON.stringify([preset.source, preset.name, preset.schedule, preset.rules]);
+}
+
+/**
+ * The cleanup policies to run: the user's own from the settings, then the
+ * presets whose name none of them uses. A policy file cannot change what a
+ * policy the user set up deletes. Presets of the home directory's file are
+ * scheduled as they are; those of any other file stay disabled until the
+ * user approves them.
+ */
+export function mergeCleanupPresets(
+  policies: CleanupPolicy[],
+  presets: CleanupPolicy[],
+  approvedPresets: string[] = [],
+  home: string = os.homedir()
+): CleanupPolicy[] {
+  const homeFile = path.join(home, POLICY_FILE_NAME);
+  return [
+    ...policies,
+    ...presets
+      .filter(preset => !policies.some(policy => policy.name === preset.name))
+      .map((preset): CleanupPolicy => {
+        if (preset.source === homeFile) {
+          return preset;
+        }
+        return approvedPresets.includes(getPresetApprovalKey(preset))
+          ? { ...preset, approval: 'approved' }
+          : { ...preset, enabled: false, approval: 'pending' };
+      })
+  ];
+}
@@ -13,23 +13,99 @@ const vscode = {
 };
 
 // Import modules to test
-import { scanAllCaches, CacheDirectory } from '../../cacheScanner';
-import { deleteDirectory, deleteMultiple, formatSize } from '../../cacheDeleter';
+import {
+  scanAllCaches,
+  updateScanOptions,
+  collectDirectoriesAtLevel,
+  collectOrphanedProjects,
+  collectToolDirectories,
+  applyPathLocks,
+  UNKNOWN_DIRECTORY_RULE,
+  CacheDirectory,
+  ScanCancelledError,
+  ScanProgress,
+  ScanResult
+} from '../../cacheScanner';
+import { deleteDirectory, deleteMultiple, deleteOlderThan, trimToSize, formatSize } from '../../cacheDeleter';
 import {
   AI_TOOL_SIGNATURES,
   detectKnownAITools,
   searchDirectoriesSync,
+  getAllSignatures,
+  getSafetyLevelFromSignature,
+  classifyDirectory,
+  getSignatureCandidatePaths,
+  setCustomSignatures,
+  validateSignature,
+  loadSignatureFile,
   AIToolSignature
 } from '../../aiToolSignatures';
+import { previewCleanup, getTopLevelPaths } from '../../cleanupPreview';
+import { createSnapshot, recordSnapshot, loadHistory, getFastestGrowing } from '../../scanHistory';
+import {
+  validatePolicy,
+  isPolicyDue,
+  selectRuleTargets,
+  runPolicy,
+  appendPolicyRun,
+  loadPolicyRuns,
+  CleanupPolicy
+} from '../../cleanupPolicies';
+import { evaluateThresholds, getNewBreaches, getToolSizesBySize, megabytesToBytes } from '../../sizeThresholds';
+import { listQuarantine, getLastBatch, restoreEntries, purgeExpired } from '../../quarantine';
+import { escapeGlob, matchesPathPattern, findMatchingPattern, mayMatchBelow, toHomeRelative } from '../../pathMatcher';
+import { SafetyRule, findSafetyRule, hasRulesBelow, setSafetyRules, validateSafetyRule } from '../../safetyRules';
+import { POLICY_FILE_NAME, getPolicyFilePaths, getPolicyLocks, getPresetApprovalKey, loadTeamPolicy, mergeCleanupPresets } from '../../teamPolicy';
+import {
+  BUILT_IN_LOCKS,
+  PATH_LOCKS_KEY,
+  findLockedEntryBelow,
+  findLocks,
+  getActiveLocks,
+  getLockError,
+  restoreStoredLocks,
+  setTeamLocks,
+  setUserLocks
+} from '../../pathLocks';
+import {
+  applyOverrideImport,
+  createOverrideExport,
+  describeOverrideChange,
+  diffOverrides,
+  parseOverrideImport
+} from '../../overrideTransfer';
+import { classifyContents, sampleDirectory, summarizeExtensions } from '../../contentClassifier';
+import { describeTreeNode, getVisibleChildren } from '../../cacheTreeNodes';
+import { expandPath, getXdgDirectory } from '../../platformPaths';
 import {
+  flattenScan,
+  formatScanReport,
+  formatCleanupReport,
+  createCleanupReport
+} from '../../reportExporter';
+import { appendAuditEntries, readAuditLog, formatAuditEntry, getAuditLogPath, AuditEntry } from '../../auditLog';
+import { checkDeletablePath, getAllowedRoots, isProtectedPath } from '../../pathGuard';
+import { getDiskUsage, getDiskUsageSync } from '../../sizeCalculator';
+import { encodeProjectPath, decodeProjectFolder, describeClaudeProject, isClaudeProjectsDir } from '../../claudeProjects';
+import {
+  listProcesses,
+  matchesProcessName,
+  detectToolActivity,
+  getRunningToolError,
+  ToolActivity
+} from '../../processDetector';
+import { parseCliArgs, getCleanTargets, getDefaultQuarantineDir, applySharedSettings, CliUsageError } from '../../cli';
+import { readSharedSettings, writeSharedSettings } from '../../sharedSettings';
+import {
+  SafetyLevel,
   SAFETY_DEFINITIONS,
   getSafetyTooltip,
   getLevelChangeWarning
 } from '../../safetyLevels';
 
 suite('Cache Scanner Tests', () => {
-  test('scanAllCaches returns valid structure', () => {
-    const result = scanAllCaches();
+  test('scanAllCaches returns valid structure', async () => {
+    const result = await scanAllCaches();
 
     assert.ok(result, 'Result should not be null');
     assert.ok(typeof result.totalSize === 'number', 'totalSize should be a number');
@@ -37,9 +113,9 @@ suite('Cache Scanner Tests', () => {
     assert.ok(Array.isArray(result.directories), 'directories should be an array');
   });
 
-  test('scanAllCaches detects .claude directory if exists', () => {
+  test('scanAllCaches detects .claude directory if exists', async () => {
     const claudeDir = path.join(os.homedir(), '.claude');
-    const result = scanAllCaches();
+    const result = await scanAllCaches();
 
     if (fs.existsSync(claudeDir)) {
       const found = result.directories.some((d: CacheDirectory) => d.name === '.claude');
@@ -47,9 +123,9 @@ suite('Cache Scanner Tests', () => {
     }
   });
 
-  test('scanAllCaches detects .gemini directory if exists', () => {
+  test('scanAllCaches detects .gemini directory if exists', async () => {
     const geminiDir = path.join(os.homedir(), '.gemini');
-    const result = scanAllCaches();
+    const result = await scanAllCaches();
 
     if (fs.existsSync(geminiDir)) {
       const found = result.directories.some((d: CacheDirectory) => d.name === '.gemini');
@@ -58,6 +134,732 @@ suite('Cache Scanner Tests', () => {
   });
 });
 
+suite('Async Scan Engine Tests', () => {
+  const fakeHome = path.join(os.tmpdir(), 'ai-cache-cleaner-home');
+  let originalHome: string | undefined;
+
+  setup(() => {
+    originalHome = process.env.HOME;
+    process.env.HOME = fakeHome;
+    fs.mkdirSync(path.join(fakeHome, '.claude', 'debug'), { recursive: true });
+    fs.mkdirSync(path.join(fakeHome, '.gemini', 'antigravity', 'brain'), { recursive: true });
+    fs.writeFileSync(path.join(fakeHome, '.claude', 'debug', 'log.txt'), 'x'.repeat(100));
+    fs.writeFileSync(path.join(fakeHome, '.gemini', 'antigravity', 'brain', 'plan.md'), 'x'.repeat(50));
+  });
+
+  teardown(() => {
+    process.env.HOME = originalHome;
+    fs.rmSync(fakeHome, { recursive: true, force: true });
+  });
+
+  test('scanAllCaches computes sizes asynchronously', async () => {
+    const result = await scanAllCaches();
+    const claude = result.directories.find((d: CacheDirectory) => d.name === '.claude');
+
+    assert.ok(claude, '.claude should be scanned');
+    assert.strictEqual(claude.size, 100);
+    assert.strictEqual(result.totalSize, 150);
+  });
+
+  test('scanAllCaches streams partial results and progress', async () => {
+    const partials: ScanResult[] = [];
+    const progress: ScanProgress[] = [];
+
+    await scanAllCaches({
+      onPartialResult: partial => partials.push(partial),
+      onProgress: p => progress.push(p)
+    });
+
+    assert.strictEqual(partials.length, 2, 'Should emit one partial result per root');
+    assert.strictEqual(partials[0].directories.length, 1);
+    assert.ok(progress.length > 0, 'Should report progress');
+    assert.strictEqual(progress[progress.length - 1].percentage, 100);
+  });
+
+  test('scanAllCaches rejects when cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await assert.rejects(scanAllCaches({ signal: controller.signal }), ScanCancelledError);
+  });
+
+  test('scanAllCaches skips excluded directories in tree and totals', async () => {
+    updateScanOptions({ excludePatterns: ['~/.claude/debug'] });
+    try {
+      const result = await scanAllCaches();
+      const claude = result.directories.find((d: CacheDirectory) => d.name === '.claude');
+
+      assert.ok(claude, '.claude should still be scanned');
+      assert.strictEqual(claude.size, 0);
+      assert.ok(!claude.children?.some((d: CacheDirectory) => d.name === 'debug'), 'debug should be hidden');
+      assert.strictEqual(result.totalSize, 50);
+    } finally {
+      updateScanOptions({});
+    }
+  });
+
+  test('scanAllCaches builds the tree for every detected tool', async () => {
+    fs.mkdirSync(path.join(fakeHome, '.cursor', 'Cache', 'blobs'), { recursive: true });
+    fs.mkdirSync(path.join(fakeHome, '.cursor', 'extensions'), { recursive: true });
+
+    const result = await scanAllCaches();
+    const cursor = result.directories.find((d: CacheDirectory) => d.name === '.cursor');
+    const cache = cursor?.children?.find((d: CacheDirectory) => d.name === 'Cache');
+    const extensions = cursor?.children?.find((d: CacheDirectory) => d.name === 'extensions');
+
+    assert.ok(cursor, '.cursor should be scanned');
+    assert.strictEqual(cursor.toolName, 'Cursor');
+    assert.strictEqual(cache?.safetyLevel, 'safe');
+    assert.strictEqual(cache?.safetyRule, 'Cursor signature (safeDirectories: "Cache")');
+    assert.strictEqual(cache?.children?.[0].safetyLevel, 'safe', 'Unlisted children inherit from listed parents');
+    assert.strictEqual(extensions?.safetyLevel, 'danger');
+    assert.strictEqual(cursor.safetyLevel, 'danger');
+  });
+
+  test('scanAllCaches classifies directories per tool', async () => {
+    // "cache" is safe for Claude Code but unknown to the Gemini signature
+    fs.mkdirSync(path.join(fakeHome, '.claude', 'cache'), { recursive: true });
+    fs.mkdirSync(path.join(fakeHome, '.gemini', 'cache'), { recursive: true });
+
+    const result = await scanAllCaches();
+    const claude = result.directories.find((d: CacheDirectory) => d.name === '.claude');
+    const gemini = result.directories.find((d: CacheDirectory) => d.name === '.gemini');
+
+    assert.strictEqual(claude?.children?.find((d: CacheDirectory) => d.name === 'cache')?.safetyLevel, 'safe');
+    assert.strictEqual(gemini?.children?.find((d: CacheDirectory) => d.name === 'cache')?.safetyRule,
+      'Default level for unknown directories');
+  });
+
+  test('scanAllCaches applies safety rules below the usual depth', async () => {
+    const project = path.join(fakeHome, '.claude', 'projects', '-work-app');
+    fs.mkdirSync(path.join(project, 'memory'), { recursive: true });
+    setSafetyRules([{ pattern: '~/.claude/debug', level: 'safe', reason: 'Debug logs' }]);
+    try {
+      const result = await scanAllCaches();
+      const claude = result.directories.find((d: CacheDirectory) => d.name === '.claude');
+      const projects = claude?.children?.find((d: CacheDirectory) => d.name === 'projects');
+      const folder = projects?.children?.find((d: CacheDirectory) => d.name === '-work-app');
+      const memory = folder?.children?.find((d: CacheDirectory) => d.name === 'memory');
+
+      assert.strictEqual(claude?.children?.find((d: CacheDirectory) => d.name === 'debug')?.safetyRule,
+        'Rule "~/.claude/debug": Debug logs');
+      assert.strictEqual(memory?.safetyLevel, 'danger');
+      assert.ok(memory?.safetyRule?.startsWith('Rule "~/.claude/projects/*/memory"'));
+      assert.strictEqual(folder?.safetyLevel, 'danger', 'The project folder inherits from its memory');
+    } finally {
+      setSafetyRules([]);
+    }
+  });
+
+  test('scanAllCaches shows excluded directories when requested', async () => {
+    updateScanOptions({ excludePatterns: ['debug'], showExcluded: true });
+    try {
+      const result = await scanAllCaches();
+      const claude = result.directories.find((d: CacheDirectory) => d.name === '.claude');
+      const debug = claude?.children?.find((d: CacheDirectory) => d.name === 'debug');
+
+      assert.ok(debug, 'debug should be listed');
+      assert.strictEqual(debug.excluded, true);
+      assert.strictEqual(debug.excludedBy, 'debug');
+      assert.strictEqual(debug.size, 0);
+    } finally {
+      updateScanOptions({});
+    }
+  });
+});
+
+suite('Platform Paths Tests', () => {
+  const fakeHome = path.join(os.tmpdir(), 'ai-cache-cleaner-xdg-home');
+  const xdgNames = ['XDG_CONFIG_HOME', 'XDG_CACHE_HOME', 'XDG_DATA_HOME', 'XDG_STATE_HOME'];
+  let originalHome: string | undefined;
+  let originalXdg: Record<string, string | undefined>;
+
+  setup(() => {
+    originalHome = process.env.HOME;
+    originalXdg = {};
+    for (const name of xdgNames) {
+      originalXdg[name] = process.env[name];
+      delete process.env[name];
+    }
+    process.env.HOME = fakeHome;
+    fs.mkdirSync(fakeHome, { recursive: true });
+  });
+
+  teardown(() => {
+    process.env.HOME = originalHome;
+    for (const name of xdgNames) {
+      if (originalXdg[name] === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = originalXdg[name];
+      }
+    }
+    fs.rmSync(fakeHome, { recursive: true, force: true });
+  });
+
+  test('XDG directories fall back to the freedesktop defaults', () => {
+    assert.strictEqual(getXdgDirectory('XDG_CONFIG_HOME'), path.join(fakeHome, '.config'));
+    assert.strictEqual(getXdgDirectory('XDG_CACHE_HOME'), path.join(fakeHome, '.cache'));
+    assert.strictEqual(getXdgDirectory('XDG_DATA_HOME'), path.join(fakeHome, '.local', 'share'));
+    assert.strictEqual(getXdgDirectory('XDG_STATE_HOME'), path.join(fakeHome, '.local', 'state'));
+  });
+
+  test('XDG variables are honoured when absolute', () => {
+    process.env.XDG_CONFIG_HOME = path.join(fakeHome, 'cfg');
+    process.env.XDG_CACHE_HOME = 'relative/cache';
+
+    assert.strictEqual(expandPath('$XDG_CONFIG_HOME/Cursor'), path.join(fakeHome, 'cfg', 'Cursor'));
+    assert.strictEqual(expandPath('$XDG_CACHE_HOME'), path.join(fakeHome, '.cache'));
+    assert.strictEqual(expandPath('~/.claude'), path.join(fakeHome, '.claude'));
+  });
+
+  test('signature locations depend on the platform', () => {
+    const cursor = AI_TOOL_SIGNATURES.find((s: AIToolSignature) => s.name === 'Cursor')!;
+    const linuxPaths = getSignatureCandidatePaths(cursor, 'linux');
+    const darwinPaths = getSignatureCandidatePaths(cursor, 'darwin');
+
+    assert.ok(linuxPaths.includes(path.join(fakeHome, '.config', 'Cursor')));
+    assert.ok(!linuxPaths.some(p => p.includes('Library')), 'No macOS paths on Linux');
+    assert.ok(darwinPaths.includes(path.join(fakeHome, 'Library', 'Application Support', 'Cursor')));
+    assert.ok(!darwinPaths.includes(path.join(fakeHome, '.config', 'Cursor')));
+  });
+
+  test('scanAllCaches finds tools in the default XDG layout', async function () {
+    if (process.platform !== 'linux') {
+      this.skip();
+    }
+    fs.mkdirSync(path.join(fakeHome, '.config', 'Cursor', 'CachedData'), { recursive: true });
+    fs.mkdirSync(path.join(fakeHome, '.config', 'github-copilot', 'logs'), { recursive: true });
+    fs.mkdirSync(path.join(fakeHome, '.cache', 'claude-cli-nodejs'), { recursive: true });
+
+    const result = await scanAllCaches();
+    const tools = result.directories.map((d: CacheDirectory) => `${d.toolName}:${d.path}`);
+
+    assert.ok(tools.includes(`Cursor:${path.join(fakeHome, '.config', 'Cursor')}`));
+    assert.ok(tools.includes(`GitHub Copilot:${path.join(fakeHome, '.config', 'github-copilot')}`));
+    assert.ok(tools.includes(`Claude Code:${path.join(fakeHome, '.cache', 'claude-cli-nodejs')}`));
+    assert.strictEqual(result.directories.length, 3, 'Each directory is scanned once');
+  });
+
+  test('scanAllCaches follows custom XDG directories', async function () {
+    if (process.platform !== 'linux') {
+      this.skip();
+    }
+    process.env.XDG_CONFIG_HOME = path.join(fakeHome, 'xdg', 'config');
+    process.env.XDG_DATA_HOME = path.join(fakeHome, 'xdg', 'data');
+    fs.mkdirSync(path.join(fakeHome, 'xdg', 'config', 'Windsurf'), { recursive: true });
+    fs.mkdirSync(path.join(fakeHome, 'xdg', 'data', 'TabNine'), { recursive: true });
+    // Ignored: the default location is not used once the variable is set
+    fs.mkdirSync(path.join(fakeHome, '.config', 'Cursor'), { recursive: true });
+
+    const result = await scanAllCaches();
+    const names = result.directories.map((d: CacheDirectory) => d.toolName).sort();
+
+    assert.deepStrictEqual(names, ['Tabnine', 'Windsurf']);
+  });
+
+  test('custom signatures accept platform locations', () => {
+    const result = validateSignature({
+      name: 'My Assistant',
+      patterns: ['my-assistant'],
+      platformLocations: { linux: ['$XDG_STATE_HOME'] }
+    });
+
+    assert.deepStrictEqual(result.errors, []);
+    assert.ok(validateSignature({ name: 'X', patterns: ['x'], platformLocations: { beos: ['~'] } }).errors.length > 0);
+  });
+});
+
+suite('Path Matcher Tests', () => {
+  const home = os.homedir();
+
+  test('matches home-relative patterns and their descendants', () => {
+    assert.ok(matchesPathPattern(path.join(home, '.claude', 'projects'), '~/.claude/projects'));
+    assert.ok(matchesPathPattern(path.join(home, '.claude', 'projects', 'a', 'b'), '~/.claude/projects'));
+    assert.ok(matchesPathPattern(path.join(home, '.claude', 'projects'), '.claude/projects'));
+    assert.ok(!matchesPathPattern(path.join(home, '.claude', 'plans'), '~/.claude/projects'));
+  });
+
+  test('matches bare names against any path segment', () => {
+    assert.ok(matchesPathPattern(path.join(home, 'a', 'node_modules', 'b'), 'node_modules'));
+    assert.ok(matchesPathPattern(path.join(home, 'logs', 'x.log'), '*.log'));
+    assert.ok(!matchesPathPattern(path.join(home, 'node_modules_backup'), 'node_modules'));
+  });
+
+  test('supports globstar, wildcards and braces', () => {
+    assert.ok(matchesPathPattern(path.join(home, '.claude', 'projects', 'p1', 'memory'), '~/.claude/projects/*/memory'));
+    assert.ok(matchesPathPattern(path.join(home, '.gemini', 'antigravity', 'brain'), '~/**/brain'));
+    assert.ok(matchesPathPattern(path.join(home, '.cache', 'x'), '~/.{cache,config}'));
+    assert.ok(!matchesPathPattern(path.join(home, '.claude', 'projects', 'p1', 'x', 'memory'), '~/.claude/projects/*/memory'));
+  });
+
+  test('findMatchingPattern returns the first matching pattern', () => {
+    const target = path.join(home, '.claude', 'debug');
+    assert.strictEqual(findMatchingPattern(target, ['cache', 'debug', '~/.claude']), 'debug');
+    assert.strictEqual(findMatchingPattern(target, []), undefined);
+  });
+
+  test('toHomeRelative rewrites paths under the home directory', () => {
+    assert.strictEqual(toHomeRelative(path.join(home, '.claude')), '~/.claude');
+    assert.strictEqual(toHomeRelative(home), '~');
+  });
+});
+
+suite('Safety Rules Tests', () => {
+  const home = os.homedir();
+  const rules: SafetyRule[] = [
+    { pattern: '~/.claude/projects/*/memory', level: 'danger', reason: 'Memory', tools: ['Claude Code'] },
+    { pattern: '~/.claude/projects', level: 'caution', reason: 'Sessions' },
+    { pattern: '*.tmp', level: 'safe', reason: 'Temporary files' },
+  ];
+
+  test('findSafetyRule returns the first matching rule', () => {
+    const memory = path.join(home, '.claude', 'projects', 'p1', 'memory', 'notes');
+    assert.strictEqual(findSafetyRule(memory, 'Claude Code', rules)?.reason, 'Memory');
+    assert.strictEqual(findSafetyRule(path.join(home, '.claude', 'projects', 'p1'), 'Claude Code', rules)?.reason, 'Sessions');
+    assert.strictEqual(findSafetyRule(path.join(home, 'a', 'b.tmp'), undefined, rules)?.level, 'safe');
+    assert.strictEqual(findSafetyRule(path.join(home, '.claude', 'debug'), 'Claude Code', rules), undefined);
+  });
+
+  test('rules scoped to tools only apply to those tools', () => {
+    const memory = path.join(home, '.claude', 'projects', 'p1', 'memory');
+    assert.strictEqual(findSafetyRule(memory, 'Cursor', rules)?.reason, 'Sessions');
+    assert.strictEqual(findSafetyRule(memory, undefined, rules)?.reason, 'Sessions');
+  });
+
+  test('hasRulesBelow finds rules targeting deeper directories', () => {
+    assert.ok(hasRulesBelow(path.join(home, '.claude', 'projects', 'p1'), 'Claude Code', rules));
+    assert.ok(!hasRulesBelow(path.join(home, '.claude', 'projects', 'p1'), 'Cursor', rules));
+    assert.ok(!hasRulesBelow(path.join(home, '.claude', 'projects', 'p1', 'memory'), 'Claude Code', rules));
+    assert.ok(mayMatchBelow(path.join(home, '.claude'), '~/.claude/projects/*/memory'));
+    assert.ok(!mayMatchBelow(path.join(home, '.gemini'), '~/.claude/projects/*/memory'));
+    assert.ok(!mayMatchBelow(home, 'memory'), 'Bare names are never followed down');
+  });
+
+  test('validateSafetyRule reports invalid rules', () => {
+    const valid = validateSafetyRule({ pattern: ' ~/.cache/x ', level: 'safe', tools: ['Cursor'] });
+    assert.deepStrictEqual(valid.rule, { pattern: '~/.cache/x', level: 'safe', reason: 'User rule', tools: ['Cursor'] });
+    assert.deepStrictEqual(validateSafetyRule('x', 'safetyRules[0]').errors, ['safetyRules[0]: must be an object']);
+    assert.strictEqual(validateSafetyRule({ level: 'safe' }).rule, undefined);
+
+    const invalid = validateSafetyRule({ pattern: 'x', level: 'unsafe', tools: 'Cursor', extra: 1 });
+    assert.strictEqual(invalid.rule, undefined);
+    assert.strictEqual(invalid.errors.length, 3);
+  });
+});
+
+suite('Team Policy Tests', () => {
+  const testDir = path.join(os.tmpdir(), 'ai-cache-cleaner-policy-test');
+  const workspace = path.join(testDir, 'repo');
+  const home = path.join(testDir, 'home');
+
+  setup(() => {
+    fs.mkdirSync(workspace, { recursive: true });
+    fs.mkdirSync(home, { recursive: true });
+  });
+
+  teardown(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test('loadTeamPolicy merges workspace and home files, workspace first', () => {
+    fs.writeFileSync(path.join(workspace, POLICY_FILE_NAME), JSON.stringify({
+      safetyRules: [{ pattern: 'debug', level: 'safe', reason: 'Team decision' }],
+      protectedPaths: ['~/.claude/skills'],
+      cleanupPresets: [{ name: 'weekly', schedule: 'weekly', rules: [{ olderThanDays: 14 }] }]
+    }));
+    fs.writeFileSync(path.join(home, POLICY_FILE_NAME), JSON.stringify({
+      safetyRules: [{ pattern: 'debug', level: 'caution' }],
+      protectedPaths: ['~/.claude/skills', '~/.claude/agents'],
+      cleanupPresets: [{ name: 'weekly', schedule: 'daily', rules: [{ olderThanDays: 1 }] }]
+    }));
+
+    const { policy, errors } = loadTeamPolicy(getPolicyFilePaths([workspace], home));
+    const workspaceFile = path.join(workspace, POLICY_FILE_NAME);
+
+    assert.deepStrictEqual(errors, []);
+    assert.deepStrictEqual(policy.sources, [workspaceFile, path.join(home, POLICY_FILE_NAME)]);
+    assert.deepStrictEqual(policy.protectedPaths.map(entry => entry.pattern), ['~/.claude/skills', '~/.claude/agents']);
+    assert.strictEqual(policy.cleanupPresets.length, 1);
+    assert.strictEqual(policy.cleanupPresets[0].schedule, 'weekly');
+    assert.strictEqual(policy.cleanupPresets[0].source, workspaceFile);
+
+    const rule = findSafetyRule(path.join(os.homedir(), '.claude', 'debug'), 'Claude Code', policy.safetyRules);
+    assert.strictEqual(rule?.level, 'safe');
+    assert.strictEqual(rule?.source, workspaceFile);
+  });
+
+  test('protected paths become team locks', () => {
+    fs.writeFileSync(path.join(home, POLICY_FILE_NAME), JSON.stringify({ protectedPaths: ['~/.claude/skills'] }));
+
+    const { policy } = loadTeamPolicy(getPolicyFilePaths([], home));
+    const locks = findLocks(path.join(os.homedir(), '.claude', 'skills', 'x'), getPolicyLocks(policy));
+    assert.strictEqual(locks.length, 1);
+    assert.strictEqual(locks[0].source, 'team');
+    assert.strictEqual(locks[0].policyFile, path.join(home, POLICY_FILE_NAME));
+  });
+
+  test('loadTeamPolicy reports invalid files and entries', () => {
+    fs.writeFileSync(path.join(workspace, POLICY_FILE_NAME), JSON.stringify({
+      safetyRules: [{ pattern: 'cache', level: 'unknown' }],
+      protectedPaths: [''],
+      cleanupPresets: {},
+      extra: true
+    }));
+    fs.writeFileSync(path.join(home, POLICY_FILE_NAME), '{ not json');
+
+    const { policy, errors } = loadTeamPolicy(getPolicyFilePaths([workspace], home));
+    assert.strictEqual(errors.length, 5);
+    assert.deepStrictEqual(policy.safetyRules, []);
+    assert.deepStrictEqual(loadTeamPolicy([path.join(testDir, 'missing.json')]).errors, []);
+  });
+
+  test('settings policies win over presets of the same name', () => {
+    const own: CleanupPolicy = { name: 'weekly', schedule: 'weekly', enabled: true, rules: [{ olderThanDays: 30 }] };
+    const presets: CleanupPolicy[] = [
+      { name: 'weekly', schedule: 'daily', enabled: true, rules: [{ levels: ['caution'] }], source: 'repo' },
+      { name: 'logs', schedule: 'daily', enabled: true, rules: [{ paths: ['logs'] }], source: 'repo' }
+    ];
+
+    const merged = mergeCleanupPresets([own], presets);
+    assert.deepStrictEqual(merged.map(policy => `${policy.name}:${policy.source || 'settings'}`), ['weekly:settings', 'logs:repo']);
+  });
+
+  test('workspace presets are scheduled only once approved', () => {
+    const homeFile = path.join(home, POLICY_FILE_NAME);
+    const repoPreset: CleanupPolicy = { name: 'repo', schedule: 'daily', enabled: true, rules: [{ levels: ['caution'] }], source: 'repo' };
+    const homePreset: CleanupPolicy = { name: 'home', schedule: 'daily', enabled: true, rules: [{ olderThanDays: 7 }], source: homeFile };
+
+    const pending = mergeCleanupPresets([], [repoPreset, homePreset], [], home);
+    assert.strictEqual(pending[0].approval, 'pending');
+    assert.strictEqual(isPolicyDue(pending[0], undefined), false);
+    assert.strictEqual(pending[1].approval, undefined);
+    assert.strictEqual(isPolicyDue(pending[1], undefined), true);
+
+    const approved = mergeCleanupPresets([], [repoPreset], [getPresetApprovalKey(repoPreset)], home);
+    assert.strictEqual(approved[0].approval, 'approved');
+    assert.strictEqual(isPolicyDue(approved[0], undefined), true);
+
+    const edited = { ...repoPreset, rules: [{ levels: ['safe', 'caution'] as Array<'safe' | 'caution'> }] };
+    assert.strictEqual(mergeCleanupPresets([], [edited], [getPresetApprovalKey(repoPreset)], home)[0].approval, 'pending');
+  });
+});
+
+suite('Path Locks Tests', () => {
+  const testDir = path.join(os.tmpdir(), 'ai-cache-cleaner-locks-test');
+  const home = os.homedir();
+
+  setup(() => {
+    fs.mkdirSync(testDir, { recursive: true });
+  });
+
+  teardown(() => {
+    setUserLocks([]);
+    setTeamLocks([]);
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test('built-in locks cover credentials and the directories containing them', () => {
+    const copilot = path.join(home, '.config', 'github-copilot');
+    assert.strictEqual(findLocks(path.join(copilot, 'hosts.json'))[0]?.reason, 'GitHub Copilot sign-in');
+    assert.strictEqual(findLocks(copilot).length, 2);
+    assert.deepStrictEqual(findLocks(path.join(copilot, 'intellij')), []);
+  });
+
+  test('unlocked built-ins and user locks change the active locks', () => {
+    setUserLocks([path.join(testDir, 'keep')], ['~/.config/github-copilot/hosts.json']);
+
+    const active = getActiveLocks();
+    assert.strictEqual(active.length, BUILT_IN_LOCKS.length);
+    assert.ok(!active.some(lock => lock.pattern === '~/.config/github-copilot/hosts.json'));
+    assert.strictEqual(active[active.length - 1].source, 'user');
+  });
+
+  test('stored locks are restored from extension state', async () => {
+    const lockedDir = path.join(testDir, 'keep');
+    fs.mkdirSync(lockedDir, { recursive: true });
+    const state = new Map<string, unknown>([[PATH_LOCKS_KEY, { locked: [lockedDir], unlocked: [] }]]);
+    const store = { get: <T>(key: string, defaultValue: T): T => (state.has(key) ? state.get(key) as T : defaultValue) };
+
+    restoreStoredLocks(store);
+    assert.ok(getLockError(lockedDir));
+    const result = await deleteDirectory(lockedDir);
+    assert.strictEqual(result.success, false);
+    assert.ok(fs.existsSync(lockedDir));
+
+    restoreStoredLocks({ get: <T>(_key: string, defaultValue: T): T => defaultValue });
+    assert.strictEqual(getLockError(lockedDir), undefined);
+  });
+
+  test('deleter refuses locked paths and their parents', async () => {
+    const lockedDir = path.join(testDir, 'cache', 'skills');
+    fs.mkdirSync(lockedDir, { recursive: true });
+    setTeamLocks([{ pattern: lockedDir, reason: 'Protected by team policy', source: 'team', policyFile: 'policy.json' }]);
+
+    assert.ok(getLockError(path.join(lockedDir, 'a'))?.includes('set by team policy'));
+    assert.strictEqual(getLockError(path.join(testDir, 'other')), undefined);
+
+    const result = await deleteDirectory(path.join(testDir, 'cache'));
+    assert.strictEqual(result.success, false);
+    assert.ok(result.error?.includes('protected'));
+    assert.ok(fs.existsSync(lockedDir));
+  });
+
+  test('globstar locks cover only the directories that hold a match', async () => {
+    const keys = path.join(testDir, 'keys', 'nested');
+    const logs = path.join(testDir, 'logs');
+    fs.mkdirSync(keys, { recursive: true });
+    fs.mkdirSync(logs, { recursive: true });
+    fs.writeFileSync(path.join(keys, 'server.pem'), 'x');
+    fs.writeFileSync(path.join(logs, 'app.log'), 'x');
+    setTeamLocks([{ pattern: '*.pem', reason: 'Protected by team policy', source: 'team', policyFile: 'policy.json' }]);
+
+    assert.deepStrictEqual(findLocks(testDir), [], 'A bare name does not lock every directory');
+    assert.strictEqual(findLockedEntryBelow(logs), undefined);
+    assert.strictEqual(findLockedEntryBelow(testDir)?.path, path.join(keys, 'server.pem'));
+    assert.ok(getLockError(path.join(testDir, 'keys'))?.includes('server.pem'));
+
+    assert.strictEqual((await deleteDirectory(logs)).success, true);
+    assert.strictEqual((await deleteDirectory(path.join(testDir, 'keys'))).success, false);
+    assert.ok(fs.existsSync(path.join(keys, 'server.pem')));
+  });
+
+  test('age and size cleanup keep locked files inside the directory', async () => {
+    const cacheDir = path.join(testDir, 'cache');
+    const old = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+    for (const name of ['hosts.json', 'old.log', 'nested/hosts.json']) {
+      fs.mkdirSync(path.dirname(path.join(cacheDir, name)), { recursive: true });
+      fs.writeFileSync(path.join(cacheDir, name), 'x'.repeat(10));
+      fs.utimesSync(path.join(cacheDir, name), old, old);
+    }
+    setUserLocks(['hosts.json']);
+
+    const aged = await deleteOlderThan(cacheDir, { olderThanDays: 7 });
+    assert.strictEqual(aged.success, true);
+    assert.strictEqual(aged.deletedFiles, 1);
+    assert.strictEqual(aged.keptFiles, 2);
+    assert.ok(fs.existsSync(path.join(cacheDir, 'nested', 'hosts.json')));
+
+    const trimmed = await trimToSize(cacheDir, { maxBytes: 0 });
+    assert.strictEqual(trimmed.deletedFiles, 0);
+    assert.ok(fs.existsSync(path.join(cacheDir, 'hosts.json')));
+
+    const deleted = await deleteDirectory(cacheDir);
+    assert.strictEqual(deleted.success, false);
+    assert.ok(fs.existsSync(cacheDir));
+
+    setUserLocks([cacheDir]);
+    const locked = await deleteOlderThan(cacheDir, { olderThanDays: 0 });
+    assert.strictEqual(locked.success, false);
+    assert.ok(locked.error?.includes('protected'));
+  });
+
+  test('a locked path with glob characters covers only itself', async () => {
+    const bracketed = path.join(testDir, '[draft] notes');
+    const lookalike = path.join(testDir, 'd notes');
+    const starred = path.join(testDir, 'a*{b,c}');
+    for (const dir of [bracketed, lookalike, starred, path.join(testDir, 'axb')]) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    setUserLocks([escapeGlob(bracketed), escapeGlob(starred)]);
+
+    assert.ok(getLockError(bracketed));
+    assert.ok(getLockError(path.join(bracketed, 'todo.md')));
+    assert.strictEqual(getLockError(lookalike), undefined);
+    assert.ok(getLockError(starred));
+    assert.strictEqual(getLockError(path.join(testDir, 'axb')), undefined);
+    assert.ok(matchesPathPattern(lookalike, bracketed), 'Unescaped, the brackets are a class');
+
+    assert.strictEqual((await deleteDirectory(lookalike)).success, true);
+    assert.strictEqual((await deleteDirectory(bracketed)).success, false);
+  });
+
+  test('applyPathLocks marks locked directories and their ancestors', () => {
+    const root = path.join(testDir, 'tool');
+    const makeNode = (dirPath: string, children: CacheDirectory[] = []): CacheDirectory => ({
+      path: dirPath, name: path.basename(dirPath), size: 0, sizeFormatted: '0 B', safetyLevel: 'safe', description: '', children
+    });
+    const tree = [makeNode(root, [makeNode(path.join(root, 'a'), [makeNode(path.join(root, 'a', 'tokens'))]), makeNode(path.join(root, 'b'))])];
+    setUserLocks([path.join(root, 'a', 'tokens')]);
+
+    applyPathLocks(tree);
+    assert.ok(tree[0].lockedBy, 'Ancestors of a locked directory are locked');
+    assert.ok(tree[0].children?.[0].lockedBy);
+    assert.strictEqual(tree[0].children?.[1].lockedBy, undefined);
+    assert.deepStrictEqual(collectDirectoriesAtLevel(tree, 'safe').map(dir => dir.name), ['b']);
+  });
+});
+
+suite('Content Classifier Tests', () => {
+  const testDir = path.join(os.tmpdir(), 'ai-cache-cleaner-classifier-test');
+
+  const writeFiles = (files: Record<string, string>) => {
+    for (const [name, content] of Object.entries(files)) {
+      fs.mkdirSync(path.dirname(path.join(testDir, name)), { recursive: true });
+      fs.writeFileSync(path.join(testDir, name), content);
+    }
+  };
+
+  setup(() => {
+    fs.mkdirSync(testDir, { recursive: true });
+  });
+
+  teardown(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test('credential-like files propose danger, listed first', async () => {
+    writeFiles(Object.fromEntries([['auth/oauth_token.json', '{}'], ['data/history.jsonl', '{}'], ['app.log', 'x']]));
+
+    const suggestion = classifyContents(await sampleDirectory(testDir));
+    assert.strictEqual(suggestion?.level, 'danger');
+    assert.ok(suggestion?.reasons[0].includes(path.join('auth', 'oauth_token.json')));
+    assert.ok(suggestion?.reasons.some(reason => reason.includes('transcripts')));
+  });
+
+  test('SQLite databases are recognized by their header and propose caution', async () => {
+    writeFiles(Object.fromEntries([['index/store', 'SQLite format 3\0' + 'x'.repeat(100)], ['index/notes', 'plain text']]));
+
+    const sample = await sampleDirectory(testDir);
+    assert.deepStrictEqual(sample.databases, [path.join('index', 'store')]);
+    assert.strictEqual(classifyContents(sample)?.level, 'caution');
+  });
+
+  test('top-level configuration files propose caution, nested JSON does not', async () => {
+    writeFiles(Object.fromEntries([['settings.json', '{}'], ['blobs/ab/cd.json', '{}']]));
+
+    const sample = await sampleDirectory(testDir);
+    assert.deepStrictEqual(sample.configFiles, ['settings.json']);
+    assert.strictEqual(classifyContents(sample)?.level, 'caution');
+  });
+
+  test('mostly logs and media propose safe and count rotated logs', async () => {
+    writeFiles(Object.fromEntries([
+      ['main.log', 'x'], ['main.log.1', 'x'], ['main-2024-01-31.log', 'x'], ['shots/a.png', 'x'], ['readme.txt', 'x']
+    ]));
+
+    const sample = await sampleDirectory(testDir);
+    assert.strictEqual(sample.logFiles, 3);
+    assert.strictEqual(sample.rotatedLogs, 2);
+    const suggestion = classifyContents(sample);
+    assert.strictEqual(suggestion?.level, 'safe');
+    assert.ok(suggestion?.reasons[0].includes('2 of them left by log rotation'));
+  });
+
+  test('only a truly empty directory is proposed as safe for holding no files', async () => {
+    assert.strictEqual(classifyContents(await sampleDirectory(testDir))?.level, 'safe');
+
+    fs.mkdirSync(path.join(testDir, 'a', 'b', 'c'), { recursive: true });
+    const shallow = await sampleDirectory(testDir, { maxFiles: 500, maxDepth: 1 });
+    assert.strictEqual(shallow.fileCount, 0);
+    assert.strictEqual(shallow.skippedDirectories, 1);
+    assert.strictEqual(classifyContents(shallow), undefined, 'Folders past the depth limit may hold files');
+
+    const unreadable = await sampleDirectory(path.join(testDir, 'missing'));
+    assert.strictEqual(unreadable.unreadableDirectories, 1);
+    assert.strictEqual(classifyContents(unreadable), undefined);
+  });
+
+  test('a directory holding only symlinks is not proposed as safe', async () => {
+    const target = fs.mkdtempSync(path.join(os.tmpdir(), 'ai-cache-cleaner-link-target-'));
+    try {
+      fs.writeFileSync(path.join(target, 'a.log'), 'x');
+      fs.symlinkSync(target, path.join(testDir, 'linked-folder'), 'dir');
+      fs.symlinkSync(path.join(target, 'a.log'), path.join(testDir, 'linked.log'));
+
+      const sample = await sampleDirectory(testDir);
+      assert.strictEqual(sample.fileCount, 0);
+      assert.strictEqual(sample.skippedEntries, 2);
+      assert.strictEqual(classifyContents(sample), undefined);
+
+      fs.writeFileSync(path.join(testDir, 'real.log'), 'x');
+      assert.strictEqual(classifyContents(await sampleDirectory(testDir)), undefined, 'Logs next to symlinks are not enough');
+    } finally {
+      fs.rmSync(target, { recursive: true, force: true });
+    }
+  });
+
+  test('logs seen before the file limit do not propose safe', async () => {
+    writeFiles(Object.fromEntries([['a.log', 'x'], ['b.log', 'x'], ['c.log', 'x'], ['d.log', 'x']]));
+
+    const limited = await sampleDirectory(testDir, { maxFiles: 3, maxDepth: 4 });
+    assert.strictEqual(limited.truncated, true);
+    assert.strictEqual(classifyContents(limited), undefined);
+  });
+
+  test('mixed contents give no suggestion, and sampling stops at the file limit', async () => {
+    writeFiles(Object.fromEntries([['a.bin', 'x'], ['b.bin', 'x'], ['c.txt', 'x'], ['d.log', 'x']]));
+
+    assert.strictEqual(classifyContents(await sampleDirectory(testDir)), undefined);
+    const limited = await sampleDirectory(testDir, { maxFiles: 2, maxDepth: 4 });
+    assert.strictEqual(limited.fileCount, 2);
+    assert.strictEqual(limited.truncated, true);
+    assert.ok(summarizeExtensions(await sampleDirectory(testDir)).startsWith('2 .bin, 1 '));
+  });
+});
+
+suite('Override Transfer Tests', () => {
+  const home = path.join(path.sep, 'home', 'bob');
+  const debugPath = path.join(home, '.claude', 'debug');
+  const optPath = path.join(path.sep, 'opt', 'cache');
+
+  test('createOverrideExport stores paths relative to the home directory', () => {
+    const exported = createOverrideExport({ [debugPath]: 'safe', [optPath]: 'caution' }, home);
+
+    assert.strictEqual(exported.version, 1);
+    assert.strictEqual(exported.home, home);
+    assert.deepStrictEqual(exported.overrides, { ['~/.claude/debug']: 'safe', [optPath]: 'caution' });
+  });
+
+  test('parseOverrideImport moves paths from another home directory', () => {
+    const content = JSON.stringify({
+      version: 1,
+      home: '/Users/alice',
+      overrides: { ['~/.claude/debug']: 'safe', ['/Users/alice/.cursor/Cache']: 'safe', [optPath]: 'caution' }
+    });
+
+    const parsed = parseOverrideImport(content, home);
+    assert.deepStrictEqual(parsed.errors, []);
+    assert.strictEqual(parsed.rewritten, 1);
+    assert.deepStrictEqual(parsed.overrides, {
+      [debugPath]: 'safe',
+      [path.join(home, '.cursor', 'Cache')]: 'safe',
+      [optPath]: 'caution'
+    });
+
+    // Plain maps without a "home" field fall back to recognizing home-like prefixes
+    const plain = parseOverrideImport(JSON.stringify({ ['/home/carol/.gemini/tmp']: 'safe' }), home);
+    assert.deepStrictEqual(plain.overrides, { [path.join(home, '.gemini', 'tmp')]: 'safe' });
+  });
+
+  test('parseOverrideImport rejects invalid levels and files', () => {
+    const overrides = { ['~/a']: 'unsafe', relative: 'safe', ['~/b']: 'danger' };
+    const parsed = parseOverrideImport(JSON.stringify({ overrides }), home);
+    assert.strictEqual(parsed.errors.length, 2);
+    assert.deepStrictEqual(Object.keys(parsed.overrides), [path.join(home, 'b')]);
+    assert.strictEqual(parseOverrideImport('[1]', home).errors.length, 1);
+    assert.strictEqual(parseOverrideImport('{', home).errors.length, 1);
+  });
+
+  test('merge and replace report what would change', () => {
+    const [a, b, c] = ['/a', '/b', '/c'];
+    const current: Record<string, SafetyLevel> = { [a]: 'safe', [b]: 'caution' };
+    const imported: Record<string, SafetyLevel> = { [b]: 'danger', [c]: 'safe' };
+
+    const merged = applyOverrideImport(current, imported, 'merge');
+    assert.deepStrictEqual(merged, { [a]: 'safe', [b]: 'danger', [c]: 'safe' });
+    assert.deepStrictEqual(diffOverrides(current, merged), [
+      { path: b, from: 'caution', to: 'danger' },
+      { path: c, from: undefined, to: 'safe' }
+    ]);
+
+    const replaced = applyOverrideImport(current, imported, 'replace');
+    const changes = diffOverrides(current, replaced);
+    assert.strictEqual(changes.length, 3);
+    assert.strictEqual(describeOverrideChange(changes[0], home), '/a: safe → default');
+  });
+});
+
 suite('Cache Deleter Tests', () => {
   const testDir = path.join(os.tmpdir(), 'ai-cache-cleaner-test');
 
@@ -113,39 +915,1160 @@ suite('Cache Deleter Tests', () => {
   });
 });
 
-suite('AI Tool Signatures Tests', () => {
-  test('AI_TOOL_SIGNATURES contains expected tools', () => {
-    const toolNames = AI_TOOL_SIGNATURES.map((s: AIToolSignature) => s.name);
+suite('Size Calculator Tests', () => {
+  const testDir = path.join(os.tmpdir(), 'ai-cache-cleaner-size-test');
+  const cacheDir = path.join(testDir, 'cache');
+  const linkedDir = path.join(testDir, 'linked-project');
 
-    assert.ok(toolNames.includes('Claude Code'), 'Should include Claude Code');
-    assert.ok(toolNames.includes('Gemini/Antigravity'), 'Should include Gemini');
-    assert.ok(toolNames.includes('Cursor'), 'Should include Cursor');
-    assert.ok(toolNames.includes('GitHub Copilot'), 'Should include GitHub Copilot');
+  setup(() => {
+    fs.mkdirSync(path.join(cacheDir, 'nested'), { recursive: true });
+    fs.mkdirSync(linkedDir, { recursive: true });
+    fs.writeFileSync(path.join(cacheDir, 'a.bin'), Buffer.alloc(1000));
+    fs.writeFileSync(path.join(cacheDir, 'nested', 'b.bin'), Buffer.alloc(500));
+    fs.writeFileSync(path.join(linkedDir, 'big.bin'), Buffer.alloc(10000));
   });
 
-  test('Each signature has required fields', () => {
-    for (const sig of AI_TOOL_SIGNATURES) {
-      assert.ok(sig.name, `${sig.name} should have name`);
-      assert.ok(sig.patterns.length > 0, `${sig.name} should have patterns`);
-      assert.ok(sig.locations.length > 0, `${sig.name} should have locations`);
-      assert.ok(Array.isArray(sig.safeDirectories), `${sig.name} should have safeDirectories`);
-    }
+  teardown(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
   });
 
-  test('detectKnownAITools returns array', () => {
-    const result = detectKnownAITools();
-    assert.ok(Array.isArray(result), 'Should return an array');
+  test('symlinked directories below the root are not followed', async () => {
+    fs.symlinkSync(linkedDir, path.join(cacheDir, 'project'), 'dir');
+
+    const usage = await getDiskUsage(cacheDir);
+    assert.ok(usage.apparentSize >= 1500);
+    assert.ok(usage.apparentSize < 10000);
+    assert.strictEqual(getDiskUsageSync(cacheDir).apparentSize, usage.apparentSize);
   });
 
-  test('searchDirectoriesSync returns array for valid query', () => {
-    const result = searchDirectoriesSync('test');
-    assert.ok(Array.isArray(result), 'Should return an array');
+  test('symlink cycles terminate', async () => {
+    fs.symlinkSync(cacheDir, path.join(cacheDir, 'nested', 'loop'), 'dir');
+
+    const usage = await getDiskUsage(cacheDir);
+    assert.ok(usage.apparentSize >= 1500);
+    assert.ok(usage.apparentSize < 3000);
   });
 
-  test('searchDirectoriesSync returns empty for unlikely query', () => {
-    const result = searchDirectoriesSync('xxxxxxxxxxxunlikelyxxxxxxxxxx');
-    assert.ok(Array.isArray(result), 'Should return an array');
-    assert.strictEqual(result.length, 0, 'Should be empty for unlikely query');
+  test('a symlinked root is measured through the link', async () => {
+    const link = path.join(testDir, 'root-link');
+    fs.symlinkSync(linkedDir, link, 'dir');
+
+    assert.strictEqual((await getDiskUsage(link)).apparentSize, 10000);
+  });
+
+  test('hardlinked files are counted once', async () => {
+    fs.linkSync(path.join(cacheDir, 'a.bin'), path.join(cacheDir, 'nested', 'a-copy.bin'));
+
+    const usage = await getDiskUsage(cacheDir);
+    assert.strictEqual(usage.apparentSize, 1500);
+    assert.strictEqual(getDiskUsageSync(cacheDir).apparentSize, 1500);
+  });
+
+  test('reports on-disk usage next to the apparent size', async () => {
+    const usage = await getDiskUsage(cacheDir);
+
+    assert.strictEqual(usage.apparentSize, 1500);
+    assert.strictEqual(typeof usage.diskUsage, 'number');
+    assert.ok(usage.diskUsage >= 0);
+  });
+
+  test('wide and deep trees are measured fully, and onEntry can abort the walk', async () => {
+    let deep = path.join(cacheDir, 'deep');
+    for (let level = 0; level < 20; level++) {
+      deep = path.join(deep, `level-${level}`);
+    }
+    fs.mkdirSync(deep, { recursive: true });
+    for (let i = 0; i < 150; i++) {
+      fs.writeFileSync(path.join(i % 2 === 0 ? cacheDir : deep, `file-${i}.bin`), Buffer.alloc(10));
+    }
+
+    assert.strictEqual((await getDiskUsage(cacheDir)).apparentSize, 3000);
+    assert.strictEqual(getDiskUsageSync(cacheDir).apparentSize, 3000);
+    await assert.rejects(getDiskUsage(cacheDir, {
+      onEntry: entryPath => {
+        if (entryPath.endsWith('file-1.bin')) {
+          throw new Error('aborted');
+        }
+      }
+    }), /aborted/);
+  });
+
+  test('missing directories measure as empty', async () => {
+    const usage = await getDiskUsage(path.join(testDir, 'missing'));
+    assert.deepStrictEqual(usage, { apparentSize: 0, diskUsage: 0 });
+  });
+});
+
+suite('Path Guard Tests', () => {
+  const testDir = path.join(os.tmpdir(), 'ai-cache-cleaner-guard-test');
+  const cacheRoot = path.join(testDir, '.ai-tool');
+  const outside = path.join(testDir, 'documents');
+
+  setup(() => {
+    fs.mkdirSync(path.join(cacheRoot, 'cache'), { recursive: true });
+    fs.mkdirSync(outside, { recursive: true });
+    fs.writeFileSync(path.join(outside, 'notes.txt'), 'keep me');
+    fs.symlinkSync(outside, path.join(cacheRoot, 'escape'), 'dir');
+  });
+
+  teardown(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test('protected locations are always refused', () => {
+    assert.ok(isProtectedPath(os.homedir()));
+    assert.ok(isProtectedPath(path.parse(os.homedir()).root));
+    assert.ok(checkDeletablePath(os.homedir()));
+    assert.ok(checkDeletablePath('.claude/debug'));
+    assert.strictEqual(checkDeletablePath(path.join(cacheRoot, 'cache')), undefined);
+  });
+
+  test('paths must stay inside an allowed root', () => {
+    const roots = [cacheRoot];
+
+    assert.strictEqual(checkDeletablePath(path.join(cacheRoot, 'cache'), roots), undefined);
+    assert.strictEqual(checkDeletablePath(cacheRoot, roots), undefined);
+    assert.match(checkDeletablePath(outside, roots) || '', /not inside a known AI cache directory/);
+    assert.match(checkDeletablePath(path.join(cacheRoot, '..', 'documents'), roots) || '', /not inside/);
+    assert.match(checkDeletablePath(path.join(cacheRoot, 'escape'), roots) || '', /resolves to/);
+  });
+
+  test('refused deletions are reported in the DeleteResult', async () => {
+    const result = await deleteDirectory(outside, { allowedRoots: [cacheRoot] });
+
+    assert.strictEqual(result.success, false);
+    assert.match(result.error || '', /not inside a known AI cache directory/);
+    assert.ok(fs.existsSync(path.join(outside, 'notes.txt')));
+  });
+
+  test('getAllowedRoots covers signatures and extra roots', () => {
+    const roots = getAllowedRoots([outside]);
+
+    assert.ok(roots.includes(path.join(os.homedir(), '.claude')));
+    assert.ok(roots.includes(outside));
+    assert.ok(!roots.includes(os.homedir()));
+  });
+});
+
+suite('Claude Projects Tests', () => {
+  const testDir = path.join(os.tmpdir(), 'ai-cache-cleaner-projects-test');
+  const workspace = path.join(testDir, 'work', 'my-app');
+  const projectsDir = path.join(testDir, '.claude', 'projects');
+
+  setup(() => {
+    fs.mkdirSync(workspace, { recursive: true });
+    // A decoy that matches the start of the encoded name but leads nowhere
+    fs.mkdirSync(path.join(testDir, 'work', 'my'), { recursive: true });
+    fs.mkdirSync(projectsDir, { recursive: true });
+  });
+
+  teardown(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test('encodeProjectPath replaces everything but letters and digits', () => {
+    assert.strictEqual(encodeProjectPath('/Users/me/.config/my_app'), '-Users-me--config-my-app');
+    assert.ok(isClaudeProjectsDir(projectsDir));
+    assert.ok(!isClaudeProjectsDir(path.join(testDir, 'projects')));
+  });
+
+  test('decodeProjectFolder resolves ambiguous names against the filesystem', async () => {
+    assert.strictEqual(await decodeProjectFolder(encodeProjectPath(workspace)), workspace);
+    assert.strictEqual(await decodeProjectFolder(encodeProjectPath(path.join(testDir, 'work', 'gone'))), undefined);
+  });
+
+  test('describeClaudeProject prefers the cwd recorded in sessions', async () => {
+    const folder = path.join(projectsDir, encodeProjectPath(workspace));
+    fs.mkdirSync(folder);
+    fs.writeFileSync(path.join(folder, 'session.jsonl'),
+      JSON.stringify({ type: 'summary' }) + '\n' + JSON.stringify({ type: 'user', cwd: workspace }) + '\n');
+
+    const project = await describeClaudeProject(folder);
+    assert.strictEqual(project.projectPath, workspace);
+    assert.strictEqual(project.resolvedFrom, 'session');
+    assert.strictEqual(project.orphaned, false);
+    assert.strictEqual(project.sessionCount, 1);
+    assert.ok(project.lastActivity);
+  });
+
+  test('projects whose folder is gone are orphaned', async () => {
+    const gone = path.join(testDir, 'work', 'deleted-project');
+    const folder = path.join(projectsDir, encodeProjectPath(gone));
+    fs.mkdirSync(folder);
+    fs.writeFileSync(path.join(folder, 'session.jsonl'), JSON.stringify({ cwd: gone }) + '\n');
+    const unknown = path.join(projectsDir, encodeProjectPath(path.join(testDir, 'nowhere')));
+    fs.mkdirSync(unknown);
+
+    const orphan = await describeClaudeProject(folder);
+    assert.strictEqual(orphan.projectPath, gone);
+    assert.strictEqual(orphan.orphaned, true);
+
+    const guessed = await describeClaudeProject(unknown);
+    assert.strictEqual(guessed.resolvedFrom, 'guess');
+    assert.strictEqual(guessed.orphaned, false, 'A guessed path may just be on an unmounted volume');
+  });
+
+  test('a session cwd that does not encode to the folder name never makes an orphan', async () => {
+    const folder = path.join(projectsDir, encodeProjectPath(workspace));
+    fs.mkdirSync(folder);
+    const deletedSubdirectory = path.join(workspace, 'packages', 'removed');
+    fs.writeFileSync(path.join(folder, 'session.jsonl'), JSON.stringify({ cwd: deletedSubdirectory }) + '\n');
+
+    const project = await describeClaudeProject(folder);
+    assert.strictEqual(project.projectPath, workspace);
+    assert.strictEqual(project.resolvedFrom, 'filesystem');
+    assert.strictEqual(project.orphaned, false);
+
+    fs.rmSync(workspace, { recursive: true, force: true });
+    const undecodable = await describeClaudeProject(folder);
+    assert.strictEqual(undecodable.projectPath, deletedSubdirectory);
+    assert.strictEqual(undecodable.orphaned, false);
+  });
+
+  test('collectOrphanedProjects finds orphans anywhere in the tree', () => {
+    const makeDir = (name: string, orphaned?: boolean): CacheDirectory => ({
+      path: path.join(projectsDir, name), name, size: 10, sizeFormatted: '10 B', safetyLevel: 'caution', description: '',
+      project: orphaned === undefined ? undefined : { projectPath: '/' + name, resolvedFrom: 'session', orphaned, sessionCount: 1 }
+    });
+    const tree: CacheDirectory[] = [{
+      ...makeDir('.claude'),
+      children: [{ ...makeDir('projects'), children: [makeDir('-a', true), makeDir('-b', false), { ...makeDir('-c', true), excluded: true }] }]
+    }];
+
+    assert.deepStrictEqual(collectOrphanedProjects(tree).map(dir => dir.name), ['-a']);
+  });
+
+  test('collectOrphanedProjects leaves danger-level data in orphaned projects', () => {
+    const makeDir = (name: string, safetyLevel: 'safe' | 'caution' | 'danger', children?: CacheDirectory[]): CacheDirectory => ({
+      path: path.join(projectsDir, name), name, size: 10, sizeFormatted: '10 B', safetyLevel, description: '', children
+    });
+    const orphan = (name: string, children?: CacheDirectory[]): CacheDirectory => ({
+      ...makeDir(name, 'caution', children),
+      project: { projectPath: '/' + name, resolvedFrom: 'session', orphaned: true, sessionCount: 1 }
+    });
+    const tree = [
+      orphan('-a', [makeDir(path.join('-a', 'session'), 'caution'), makeDir(path.join('-a', 'memory'), 'danger')]),
+      orphan('-b'),
+      orphan('-c')
+    ];
+
+    assert.deepStrictEqual(
+      collectOrphanedProjects(tree, { [path.join(projectsDir, '-c')]: 'danger' }).map(dir => dir.name),
+      [path.join('-a', 'session'), '-b']
+    );
+  });
+});
+
+suite('Process Detector Tests', () => {
+  const testDir = path.join(os.tmpdir(), 'ai-cache-cleaner-process-test');
+  const procDir = path.join(testDir, 'proc');
+  const toolRoot = path.join(testDir, '.my-assistant');
+  const signature = {
+    name: 'My Assistant',
+    patterns: ['.my-assistant'],
+    locations: [testDir],
+    safeDirectories: ['cache'],
+    cautionDirectories: [],
+    dangerDirectories: [],
+    processNames: ['my-assistant'],
+    lockFiles: ['*.lock']
+  };
+
+  const addProcess = (pid: number, comm: string, args: string[]) => {
+    fs.mkdirSync(path.join(procDir, String(pid)), { recursive: true });
+    fs.writeFileSync(path.join(procDir, String(pid), 'comm'), comm + '\n');
+    fs.writeFileSync(path.join(procDir, String(pid), 'cmdline'), args.join('\0') + '\0');
+  };
+
+  setup(() => {
+    fs.mkdirSync(path.join(toolRoot, 'cache'), { recursive: true });
+    fs.mkdirSync(path.join(procDir, 'self'), { recursive: true });
+  });
+
+  teardown(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test('listProcesses reads names and command lines from /proc', () => {
+    addProcess(4242, 'node', ['node', '/usr/local/bin/my-assistant', '--resume']);
+    addProcess(4343, 'bash', ['-bash']);
+
+    const processes = listProcesses('linux', procDir).sort((a, b) => a.pid - b.pid);
+    assert.deepStrictEqual(processes.map(p => p.pid), [4242, 4343]);
+    assert.strictEqual(processes[0].name, 'node');
+    assert.deepStrictEqual(processes[0].args, ['node', '/usr/local/bin/my-assistant', '--resume']);
+    assert.deepStrictEqual(listProcesses('linux', path.join(testDir, 'missing')), []);
+  });
+
+  test('matchesProcessName checks the name, program and script', () => {
+    assert.ok(matchesProcessName({ pid: 1, name: 'claude' }, ['claude']));
+    assert.ok(matchesProcessName({ pid: 1, name: 'Cursor.exe' }, ['cursor']));
+    assert.ok(matchesProcessName({ pid: 1, name: 'node', args: ['node', '/usr/bin/claude'] }, ['claude']));
+    assert.ok(!matchesProcessName({ pid: 1, name: 'node', args: ['node', 'server.js', 'claude'] }, ['claude']));
+    assert.ok(!matchesProcessName({ pid: 1, name: 'claude-helper' }, ['claude']));
+  });
+
+  test('detectToolActivity reports running processes and lock files', () => {
+    assert.deepStrictEqual(detectToolActivity([signature], []), []);
+
+    const running = detectToolActivity([signature], [{ pid: 4242, name: 'my-assistant' }]);
+    assert.strictEqual(running.length, 1);
+    assert.strictEqual(running[0].toolName, 'My Assistant');
+    assert.deepStrictEqual(running[0].roots, [toolRoot]);
+
+    fs.writeFileSync(path.join(toolRoot, 'session.lock'), '');
+    const locked = detectToolActivity([signature], []);
+    assert.deepStrictEqual(locked[0].lockFiles, [path.join(toolRoot, 'session.lock')]);
+  });
+
+  test('deletions of a running tool\'s data are refused when blocking', async () => {
+    const activity: ToolActivity[] = [{
+      toolName: 'My Assistant',
+      processes: [{ pid: 4242, name: 'my-assistant' }],
+      lockFiles: [],
+      roots: [toolRoot]
+    }];
+    const cacheDir = path.join(toolRoot, 'cache');
+
+    assert.match(getRunningToolError(cacheDir, activity) || '', /My Assistant is running \(my-assistant \(pid 4242\)\)/);
+    assert.strictEqual(getRunningToolError(path.join(testDir, 'other'), activity), undefined);
+
+    const blocked = await deleteMultiple([cacheDir], { blockRunningTools: true, activeTools: activity });
+    assert.strictEqual(blocked.failCount, 1);
+    assert.ok(fs.existsSync(cacheDir));
+
+    const allowed = await deleteMultiple([cacheDir], { activeTools: activity });
+    assert.strictEqual(allowed.successCount, 1);
+    assert.ok(!fs.existsSync(cacheDir));
+  });
+});
+
+suite('Age-based Cleanup Tests', () => {
+  const testDir = path.join(os.tmpdir(), 'ai-cache-cleaner-age-test');
+  const dayMs = 24 * 60 * 60 * 1000;
+
+  const writeAged = (relativePath: string, size: number, ageDays: number) => {
+    const filePath = path.join(testDir, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, 'x'.repeat(size));
+    const time = new Date(Date.now() - ageDays * dayMs);
+    fs.utimesSync(filePath, time, time);
+  };
+
+  setup(() => {
+    writeAged('debug/old.log', 100, 30);
+    writeAged('debug/new.log', 10, 1);
+    writeAged('debug/archive/older.log', 50, 60);
+  });
+
+  teardown(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test('deleteOlderThan removes only old files and reports freed bytes', async () => {
+    const result = await deleteOlderThan(path.join(testDir, 'debug'), { olderThanDays: 7 });
+
+    assert.strictEqual(result.success, true);
+    assert.strictEqual(result.deletedFiles, 2);
+    assert.strictEqual(result.keptFiles, 1);
+    assert.strictEqual(result.freedBytes, 150);
+    assert.ok(fs.existsSync(path.join(testDir, 'debug', 'new.log')), 'Recent file should be kept');
+    assert.ok(!fs.existsSync(path.join(testDir, 'debug', 'old.log')), 'Old file should be deleted');
+  });
+
+  test('deleteOlderThan removes directories left empty', async () => {
+    const result = await deleteOlderThan(path.join(testDir, 'debug'), { olderThanDays: 7 });
+
+    assert.strictEqual(result.removedDirectories, 1);
+    assert.ok(!fs.existsSync(path.join(testDir, 'debug', 'archive')), 'Empty directory should be removed');
+    assert.ok(fs.existsSync(path.join(testDir, 'debug')), 'Selected directory should be kept');
+  });
+
+  test('deleteOlderThan can quarantine old files', async () => {
+    const quarantineDir = path.join(testDir, 'storage');
+    const result = await deleteOlderThan(path.join(testDir, 'debug'), { olderThanDays: 7 }, { mode: 'quarantine', quarantineDir });
+
+    assert.strictEqual(result.deletedFiles, 2);
+    assert.strictEqual(listQuarantine(quarantineDir).length, 2);
+  });
+
+  test('deleteOlderThan fails for missing directories', async () => {
+    const result = await deleteOlderThan('/non/existent', { olderThanDays: 7 });
+    assert.strictEqual(result.success, false);
+    assert.ok(result.error);
+  });
+
+  test('trimToSize removes the oldest files until the cap is met', async () => {
+    const result = await trimToSize(path.join(testDir, 'debug'), { maxBytes: 110 });
+
+    assert.strictEqual(result.deletedFiles, 1);
+    assert.strictEqual(result.freedBytes, 50);
+    assert.ok(!fs.existsSync(path.join(testDir, 'debug', 'archive')), 'Oldest file goes first');
+    assert.ok(fs.existsSync(path.join(testDir, 'debug', 'old.log')));
+  });
+});
+
+suite('Cleanup Policy Tests', () => {
+  const testDir = path.join(os.tmpdir(), 'ai-cache-cleaner-policy-test');
+  const dayMs = 24 * 60 * 60 * 1000;
+  const root = path.join(testDir, '.claude');
+
+  function makeDir(name: string, safetyLevel: 'safe' | 'caution' | 'danger', children?: CacheDirectory[]): CacheDirectory {
+    return { path: path.join(root, name), name, size: 0, sizeFormatted: '', safetyLevel, description: '', children };
+  }
+
+  const scan: ScanResult = {
+    totalSize: 0,
+    totalSizeFormatted: '',
+    directories: [{
+      path: root, name: '.claude', size: 0, sizeFormatted: '', safetyLevel: 'danger', description: '',
+      toolName: 'Claude Code',
+      children: [makeDir('debug', 'safe'), makeDir('todos', 'caution'), makeDir('plugins', 'danger')]
+    }]
+  };
+
+  const writeAged = (relativePath: string, size: number, ageDays: number) => {
+    const filePath = path.join(root, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, 'x'.repeat(size));
+    const time = new Date(Date.now() - ageDays * dayMs);
+    fs.utimesSync(filePath, time, time);
+  };
+
+  setup(() => {
+    writeAged('debug/old.log', 100, 30);
+    writeAged('debug/new.log', 10, 1);
+    writeAged('todos/a.json', 20, 30);
+    writeAged('plugins/p.js', 30, 30);
+  });
+
+  teardown(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test('validatePolicy accepts a complete policy', () => {
+    const result = validatePolicy({
+      name: 'weekly',
+      schedule: 'weekly',
+      rules: [{ olderThanDays: 14 }, { paths: ['~/.claude/debug'], maxSizeMB: 200 }]
+    });
+
+    assert.deepStrictEqual(result.errors, []);
+    assert.strictEqual(result.policy?.enabled, true);
+  });
+
+  test('validatePolicy rejects danger levels and bad schedules', () => {
+    const result = validatePolicy({ name: 'bad', schedule: 'hourly', rules: [{ levels: ['danger'] }] });
+
+    assert.strictEqual(result.policy, undefined);
+    assert.strictEqual(result.errors.length, 2);
+  });
+
+  test('isPolicyDue follows the schedule', () => {
+    const policy: CleanupPolicy = { name: 'weekly', schedule: 'weekly', rules: [{}] };
+    const now = Date.parse('2025-01-15T00:00:00Z');
+
+    assert.strictEqual(isPolicyDue(policy, undefined, now), true);
+    assert.strictEqual(isPolicyDue(policy, '2025-01-10T00:00:00Z', now), false);
+    assert.strictEqual(isPolicyDue(policy, '2025-01-08T00:00:00Z', now), true);
+    assert.strictEqual(isPolicyDue({ ...policy, enabled: false }, undefined, now), false);
+  });
+
+  test('selectRuleTargets never selects danger items', () => {
+    const targets = selectRuleTargets(scan, { levels: ['safe', 'caution'] });
+    const byPath = selectRuleTargets(scan, { paths: ['plugins'] });
+
+    assert.deepStrictEqual(targets.map(d => d.name), ['debug', 'todos']);
+    assert.deepStrictEqual(byPath, []);
+  });
+
+  test('runPolicy deletes aged files in selected directories', async () => {
+    const policy: CleanupPolicy = { name: 'weekly', schedule: 'weekly', rules: [{ olderThanDays: 14 }] };
+    const run = await runPolicy(policy, scan, { trigger: 'scheduled' });
+
+    assert.strictEqual(run.totalFreed, 100);
+    assert.deepStrictEqual(run.actions.map(a => a.action), ['olderThan']);
+    assert.strictEqual(run.actions[0].safetyLevel, 'safe');
+    assert.ok(fs.existsSync(path.join(root, 'debug', 'new.log')));
+    assert.ok(fs.existsSync(path.join(root, 'todos', 'a.json')), 'Caution items are kept by default');
+    assert.ok(fs.existsSync(path.join(root, 'plugins', 'p.js')));
+  });
+
+  test('runPolicy logs runs newest first', async () => {
+    const storageDir = path.join(testDir, 'storage');
+    const policy: CleanupPolicy = { name: 'cap', schedule: 'daily', rules: [{ paths: ['debug'], maxSizeMB: 0 }] };
+    const run = await runPolicy(policy, scan);
+    appendPolicyRun(storageDir, { ...run, policy: 'first' });
+    appendPolicyRun(storageDir, run);
+
+    assert.strictEqual(run.totalFreed, 110);
+    assert.deepStrictEqual(loadPolicyRuns(storageDir).map(r => r.policy), ['cap', 'first']);
+  });
+});
+
+suite('CLI Tests', () => {
+  const root = path.join(os.tmpdir(), 'ai-cache-cleaner-cli-test', '.claude');
+
+  function makeDir(name: string, safetyLevel: 'safe' | 'caution' | 'danger'): CacheDirectory {
+    return { path: path.join(root, name), name, size: 10, sizeFormatted: '10 B', safetyLevel, description: '' };
+  }
+
+  const scan: ScanResult = {
+    totalSize: 30,
+    totalSizeFormatted: '30 B',
+    directories: [{
+      path: root, name: '.claude', size: 30, sizeFormatted: '30 B', safetyLevel: 'danger', description: '',
+      toolName: 'Claude Code',
+      children: [makeDir('debug', 'safe'), makeDir('todos', 'caution'), makeDir('plugins', 'danger')]
+    }]
+  };
+
+  test('parseCliArgs applies defaults', () => {
+    const options = parseCliArgs(['clean', '--dry-run', '--exclude', '**/debug', '--exclude', '**/todos']);
+
+    assert.strictEqual(options.command, 'clean');
+    assert.strictEqual(options.dryRun, true);
+    assert.strictEqual(options.yes, false);
+    assert.strictEqual(options.mode, 'quarantine');
+    assert.deepStrictEqual(options.exclude, ['**/debug', '**/todos']);
+    assert.strictEqual(options.ignoreRunning, false);
+    assert.deepStrictEqual(options.policyFiles, []);
+    assert.deepStrictEqual(parseCliArgs(['list', '--policy', 'team.json']).policyFiles, [path.resolve('team.json')]);
+    assert.strictEqual(parseCliArgs(['clean', '--ignore-running']).ignoreRunning, true);
+    assert.strictEqual(parseCliArgs([]).command, 'help');
+  });
+
+  test('parseCliArgs rejects invalid input', () => {
+    assert.throws(() => parseCliArgs(['purge']), CliUsageError);
+    assert.throws(() => parseCliArgs(['list', '--level', 'high']), CliUsageError);
+    assert.throws(() => parseCliArgs(['clean', '--mode', 'shred']), CliUsageError);
+    assert.throws(() => parseCliArgs(['clean', '--level', 'danger']), /dashboard/);
+    assert.throws(() => parseCliArgs(['scan', '--force']), CliUsageError);
+  });
+
+  test('getCleanTargets stops at the requested level', () => {
+    assert.deepStrictEqual(getCleanTargets(scan).map(d => d.name), ['debug']);
+    assert.deepStrictEqual(getCleanTargets(scan, 'caution').map(d => d.name), ['debug', 'todos']);
+  });
+
+  test('getCleanTargets follows the safety levels set in the extension', () => {
+    const overrides = new Map<string, SafetyLevel>([[path.join(root, 'debug'), 'danger'], [path.join(root, 'todos'), 'safe']]);
+
+    assert.deepStrictEqual(getCleanTargets(scan, 'safe', Object.fromEntries(overrides)).map(d => d.name), ['todos']);
+  });
+
+  test('shared settings round-trip and apply rules and locks', () => {
+    const storageDir = path.join(os.tmpdir(), 'ai-cache-cleaner-shared-settings-test');
+    const lockedPath = path.join(root, 'keep');
+    try {
+      writeSharedSettings(storageDir, {
+        defaultSafetyLevel: 'danger',
+        excludePatterns: [],
+        safetyOverrides: Object.fromEntries([[path.join(root, 'debug'), 'danger']]),
+        safetyRules: [{ pattern: path.join(root, 'todos'), level: 'danger' }, { pattern: '' }],
+        customSignatures: [],
+        signatureFiles: [],
+        lockedPaths: [lockedPath],
+        unlockedPaths: []
+      });
+
+      const { settings, errors } = readSharedSettings(storageDir);
+      assert.deepStrictEqual(errors, []);
+      assert.strictEqual(settings?.safetyOverrides[path.join(root, 'debug')], 'danger');
+      assert.deepStrictEqual(readSharedSettings(path.join(storageDir, 'missing')), { errors: [] });
+
+      const teamRule: SafetyRule = { pattern: path.join(root, 'todos'), level: 'safe', reason: 'Team decision', source: 'policy.json' };
+      const problems = applySharedSettings(settings, [teamRule], []);
+      assert.strictEqual(problems.length, 1);
+      assert.strictEqual(findSafetyRule(path.join(root, 'todos'))?.level, 'danger', 'The user\'s rules come before team rules');
+      assert.ok(getLockError(lockedPath));
+    } finally {
+      applySharedSettings(undefined, [], []);
+      updateScanOptions({});
+      fs.rmSync(storageDir, { recursive: true, force: true });
+    }
+  });
+
+  test('getDefaultQuarantineDir points at the extension storage', () => {
+    const dir = getDefaultQuarantineDir('darwin');
+
+    assert.ok(dir.startsWith(path.join(os.homedir(), 'Library', 'Application Support', 'Code')));
+    assert.ok(dir.endsWith(path.join('globalStorage', 'lidegejinghk.ai-cache-cleaner', 'quarantine')));
+  });
+});
+
+suite('Report Exporter Tests', () => {
+  const root = path.join(os.tmpdir(), 'ai-cache-cleaner-report-test', '.claude');
+  const scan: ScanResult = {
+    totalSize: 30,
+    totalSizeFormatted: '30 B',
+    directories: [{
+      path: root, name: '.claude', size: 30, sizeFormatted: '30 B', safetyLevel: 'caution', description: 'Claude Code',
+      toolName: 'Claude Code', safetyRule: 'Inherited',
+      children: [
+        { path: path.join(root, 'debug'), name: 'debug', size: 10, sizeFormatted: '10 B', safetyLevel: 'safe', description: 'Logs, "verbose"' },
+        { path: path.join(root, 'a|b'), name: 'a|b', size: 20, sizeFormatted: '20 B', safetyLevel: 'caution', description: '' }
+      ]
+    }]
+  };
+
+  test('flattenScan applies overrides and depth', () => {
+    const rows = flattenScan(scan, Object.fromEntries([[path.join(root, 'debug'), 'danger' as SafetyLevel]]));
+
+    assert.deepStrictEqual(rows.map(r => r.depth), [0, 1, 1]);
+    assert.strictEqual(rows[1].safetyLevel, 'danger');
+    assert.strictEqual(rows[1].overridden, true);
+    assert.strictEqual(rows[1].rule, 'User override');
+    assert.strictEqual(rows[2].tool, 'Claude Code');
+  });
+
+  test('CSV and Markdown output escape special characters', () => {
+    const csv = formatScanReport(scan, 'csv').trim().split('\n');
+    const markdown = formatScanReport(scan, 'markdown');
+
+    assert.strictEqual(csv.length, 4);
+    assert.ok(csv[2].endsWith(',"Logs, ""verbose""",false'));
+    assert.ok(markdown.includes('a\\|b'));
+    assert.ok(markdown.includes('**Total:** 30 B'));
+  });
+
+  test('formatCleanupReport includes errors', () => {
+    const report = createCleanupReport({
+      results: [
+        { path: '/tmp/a', success: true, freedBytes: 2048 },
+        { path: '/tmp/b', success: false, freedBytes: 0, error: 'Path does not exist' }
+      ],
+      totalFreed: 2048,
+      successCount: 1,
+      failCount: 1
+    }, 'quarantine', Date.parse('2025-01-01T00:00:00Z'));
+
+    const json = JSON.parse(formatCleanupReport(report, 'json', { host: 'dev-box' }));
+    assert.strictEqual(json.host, 'dev-box');
+    assert.strictEqual(json.results[1].error, 'Path does not exist');
+    assert.ok(formatCleanupReport(report, 'csv').includes('/tmp/b,false,0,Path does not exist,'));
+    assert.ok(formatCleanupReport(report, 'markdown').includes('1 removed, 1 failed, 2 KB freed'));
+  });
+});
+
+suite('Audit Log Tests', () => {
+  const storageDir = path.join(os.tmpdir(), 'ai-cache-cleaner-audit-test');
+
+  const entry = (name: string, success = true): AuditEntry => ({
+    timestamp: '2025-01-01T00:00:00.000Z',
+    path: `/cache/${name}`,
+    safetyLevel: 'safe',
+    overridden: false,
+    action: 'delete',
+    mode: 'quarantine',
+    trigger: 'manual',
+    success,
+    freedBytes: success ? 100 : 0,
+    error: success ? undefined : 'Permission denied'
+  });
+
+  teardown(() => {
+    fs.rmSync(storageDir, { recursive: true, force: true });
+  });
+
+  test('entries are appended and read newest first', () => {
+    appendAuditEntries(storageDir, [entry('a'), entry('b')]);
+    appendAuditEntries(storageDir, [entry('c')]);
+
+    assert.deepStrictEqual(readAuditLog(storageDir).map(e => e.path), ['/cache/c', '/cache/b', '/cache/a']);
+    assert.deepStrictEqual(readAuditLog(storageDir, 1).map(e => e.path), ['/cache/c']);
+  });
+
+  test('damaged lines are skipped', () => {
+    appendAuditEntries(storageDir, [entry('a')]);
+    fs.appendFileSync(getAuditLogPath(storageDir), '{"timestamp": "2025-01-0');
+
+    assert.strictEqual(readAuditLog(storageDir).length, 1);
+    assert.deepStrictEqual(readAuditLog(path.join(storageDir, 'missing')), []);
+  });
+
+  test('formatAuditEntry describes failures and policies', () => {
+    const line = formatAuditEntry({ ...entry('a', false), trigger: 'policy', policy: 'weekly', overridden: true });
+
+    assert.ok(line.includes('[safe, override]'));
+    assert.ok(line.includes('by policy "weekly"'));
+    assert.ok(line.endsWith('FAILED: Permission denied'));
+  });
+});
+
+suite('Scan History Tests', () => {
+  const storageDir = path.join(os.tmpdir(), 'ai-cache-cleaner-history-test');
+  const day = 24 * 60 * 60 * 1000;
+  const start = Date.parse('2025-01-01T00:00:00Z');
+
+  function makeResult(projectsSize: number, debugSize: number): ScanResult {
+    const children: CacheDirectory[] = [
+      { path: '/h/.claude/projects', name: 'projects', size: projectsSize, sizeFormatted: '', safetyLevel: 'caution', description: '' },
+      { path: '/h/.claude/debug', name: 'debug', size: debugSize, sizeFormatted: '', safetyLevel: 'safe', description: '' },
+      { path: '/h/.claude/ide', name: 'ide', size: 0, sizeFormatted: '', safetyLevel: 'danger', description: '', excluded: true }
+    ];
+    const total = projectsSize + debugSize;
+    return {
+      totalSize: total,
+      totalSizeFormatted: '',
+      directories: [{
+        path: '/h/.claude', name: '.claude', size: total, sizeFormatted: '', safetyLevel: 'caution',
+        description: '', toolName: 'Claude Code', children
+      }]
+    };
+  }
+
+  teardown(() => {
+    fs.rmSync(storageDir, { recursive: true, force: true });
+  });
+
+  test('createSnapshot records tools and first-level directories', () => {
+    const snapshot = createSnapshot(makeResult(300, 100), start);
+
+    assert.deepStrictEqual(Object.entries(snapshot.tools), [['Claude Code', 400]]);
+    assert.deepStrictEqual(Object.entries(snapshot.directories), [
+      ['/h/.claude', 400],
+      ['/h/.claude/projects', 300],
+      ['/h/.claude/debug', 100]
+    ]);
+  });
+
+  test('recordSnapshot persists history and applies retention', () => {
+    recordSnapshot(storageDir, makeResult(100, 100), { retentionDays: 30, now: start });
+    recordSnapshot(storageDir, makeResult(200, 100), { retentionDays: 30, now: start + 10 * day });
+    const history = recordSnapshot(storageDir, makeResult(300, 100), { retentionDays: 30, now: start + 35 * day });
+
+    assert.strictEqual(history.length, 2, 'Snapshots older than 30 days are dropped');
+    assert.deepStrictEqual(loadHistory(storageDir), history);
+  });
+
+  test('recordSnapshot replaces snapshots taken in quick succession', () => {
+    recordSnapshot(storageDir, makeResult(100, 100), { retentionDays: 30, now: start });
+    const history = recordSnapshot(storageDir, makeResult(150, 100), { retentionDays: 30, now: start + 60 * 1000 });
+
+    assert.strictEqual(history.length, 1);
+    assert.strictEqual(history[0].directories['/h/.claude/projects'], 150);
+  });
+
+  test('getFastestGrowing ranks growth within the window', () => {
+    const snapshots = [
+      createSnapshot(makeResult(100, 100), start),
+      createSnapshot(makeResult(150, 500), start + 20 * day),
+      createSnapshot(makeResult(850, 400), start + 27 * day)
+    ];
+
+    const growth = getFastestGrowing(snapshots, { windowDays: 7, now: start + 27 * day });
+
+    assert.deepStrictEqual(growth.map(g => g.key), ['/h/.claude/projects', 'Claude Code', '/h/.claude']);
+    assert.strictEqual(growth[0].delta, 700);
+    assert.strictEqual(growth[0].bytesPerDay, 100);
+    assert.deepStrictEqual(getFastestGrowing(snapshots.slice(0, 1)), []);
+  });
+});
+
+suite('Size Threshold Tests', () => {
+  function makeDir(name: string, size: number, safetyLevel: 'safe' | 'caution' | 'danger', extra: Partial<CacheDirectory> = {}): CacheDirectory {
+    return { path: '/h/' + name, name, size, sizeFormatted: '', safetyLevel, description: '', ...extra };
+  }
+
+  const result: ScanResult = {
+    totalSize: megabytesToBytes(600),
+    totalSizeFormatted: '600 MB',
+    directories: [
+      makeDir('.claude', megabytesToBytes(400), 'caution', { toolName: 'Claude Code' }),
+      makeDir('.cursor', megabytesToBytes(150), 'safe', { toolName: 'Cursor' }),
+      makeDir('Cursor', megabytesToBytes(50), 'safe', { toolName: 'Cursor' })
+    ]
+  };
+
+  test('evaluateThresholds reports total and per-tool breaches', () => {
+    const evaluation = evaluateThresholds(result, {
+      total: { warningBytes: megabytesToBytes(500), criticalBytes: megabytesToBytes(1000) },
+      tools: Object.fromEntries([['cursor', {}], ['Cursor', { criticalBytes: megabytesToBytes(200) }]])
+    });
+
+    assert.strictEqual(evaluation.level, 'critical');
+    assert.deepStrictEqual(evaluation.breaches.map(b => `${b.name}:${b.level}`), ['Total:warning', 'Cursor:critical']);
+    assert.strictEqual(evaluation.toolSizes['Cursor'], megabytesToBytes(200));
+  });
+
+  test('evaluateThresholds ignores disabled limits', () => {
+    const evaluation = evaluateThresholds(result, { total: { warningBytes: 0 }, tools: {} });
+
+    assert.strictEqual(evaluation.level, 'normal');
+    assert.deepStrictEqual(evaluation.breaches, []);
+  });
+
+  test('getNewBreaches only reports breaches that got worse', () => {
+    const warning = { scope: 'total' as const, name: 'Total', size: 1, limit: 1, level: 'warning' as const };
+    const critical = { ...warning, level: 'critical' as const };
+
+    assert.deepStrictEqual(getNewBreaches([], [warning]), [warning]);
+    assert.deepStrictEqual(getNewBreaches([warning], [warning]), []);
+    assert.deepStrictEqual(getNewBreaches([warning], [critical]), [critical]);
+    assert.deepStrictEqual(getNewBreaches([critical], [warning]), []);
+  });
+
+  test('collectDirectoriesAtLevel returns whole safe subtrees only', () => {
+    const tree = [
+      makeDir('.claude', 0, 'caution', {
+        children: [
+          makeDir('.claude/debug', 0, 'safe'),
+          makeDir('.claude/cache', 0, 'safe', { children: [makeDir('.claude/cache/keep', 0, 'safe', { excluded: true })] }),
+          makeDir('.claude/todos', 0, 'caution')
+        ]
+      }),
+      makeDir('.cursor', 0, 'safe')
+    ];
+
+    const overrides = new Map<string, SafetyLevel>([['/h/.claude/todos', 'safe'], ['/h/.cursor', 'danger']]);
+    const safe = collectDirectoriesAtLevel(tree, 'safe', Object.fromEntries(overrides));
+
+    assert.deepStrictEqual(safe.map(d => d.name), ['.claude/debug', '.claude/todos']);
+  });
+});
+
+suite('Command Palette Tests', () => {
+  function makeDir(name: string, size: number, extra: Partial<CacheDirectory> = {}): CacheDirectory {
+    return { path: '/h/' + name, name, size, sizeFormatted: '', safetyLevel: 'safe', description: '', ...extra };
+  }
+
+  const directories = [
+    makeDir('.cursor', 300, {
+      toolName: 'Cursor',
+      children: [makeDir('.cursor/logs', 100), makeDir('.cursor/extensions', 200), makeDir('.cursor/skip', 50, { excluded: true })]
+    }),
+    makeDir('Cursor', 40, { toolName: 'Cursor' }),
+    makeDir('.claude', 500, { toolName: 'Claude Code', children: [makeDir('.claude/debug', 500)] }),
+    makeDir('.codeium', 900, { toolName: 'Codeium', excluded: true })
+  ];
+
+  test('getToolSizesBySize lists tools largest first, without excluded roots', () => {
+    const result: ScanResult = { totalSize: 840, totalSizeFormatted: '', directories };
+
+    assert.deepStrictEqual(getToolSizesBySize(result), [
+      { toolName: 'Claude Code', size: 500 },
+      { toolName: 'Cursor', size: 340 }
+    ]);
+  });
+
+  test('collectToolDirectories offers the children of every root of a tool, largest first', () => {
+    assert.deepStrictEqual(
+      collectToolDirectories(directories, 'Cursor').map(dir => dir.name),
+      ['.cursor/extensions', '.cursor/logs', 'Cursor']
+    );
+    assert.deepStrictEqual(collectToolDirectories(directories, 'Codeium'), []);
+  });
+});
+
+suite('Cache Tree Tests', () => {
+  function makeDir(name: string, extra: Partial<CacheDirectory> = {}): CacheDirectory {
+    return { path: '/h/' + name, name, size: 0, sizeFormatted: '1 KB', safetyLevel: 'safe', description: '', ...extra };
+  }
+
+  test('roots show their tool and nodes with only excluded children do not expand', () => {
+    const root = makeDir('.cursor', { toolName: 'Cursor', children: [makeDir('.cursor/skip', { excluded: true })] });
+
+    const node = describeTreeNode(root, {}, true);
+    assert.strictEqual(node.description, '1 KB · Cursor');
+    assert.strictEqual(node.hasChildren, false);
+    assert.strictEqual(describeTreeNode(root, {}, false).description, '1 KB');
+    assert.deepStrictEqual(getVisibleChildren([root, makeDir('gone', { excluded: true })]), [root]);
+  });
+
+  test('context values group directories for the tree menus', () => {
+    const dir = makeDir('.claude/debug', { safetyRule: UNKNOWN_DIRECTORY_RULE, safetyLevel: 'caution' });
+
+    assert.strictEqual(describeTreeNode(dir, {}, false).contextValue, 'cacheDirectory.caution.unknown');
+    const overridden = describeTreeNode(dir, Object.fromEntries([[dir.path, 'safe']]), false);
+    assert.strictEqual(overridden.contextValue, 'cacheDirectory.safe.overridden');
+    assert.strictEqual(overridden.level, 'safe');
+
+    const locked = describeTreeNode({ ...dir, safetyRule: undefined, lockedBy: 'Claude Code settings' }, {}, false);
+    assert.strictEqual(locked.contextValue, 'lockedDirectory.caution');
+    assert.strictEqual(locked.icon, 'lock');
+  });
+
+  test('Claude Code projects show their workspace and whether it is gone', () => {
+    const dir = makeDir('.claude/projects/-work-app', {
+      project: { projectPath: '/work/app', resolvedFrom: 'session', orphaned: true, sessionCount: 1 }
+    });
+
+    assert.strictEqual(describeTreeNode(dir, {}, false).description, '1 KB · /work/app (orphaned)');
+  });
+});
+
+suite('Quarantine Tests', () => {
+  const testDir = path.join(os.tmpdir(), 'ai-cache-cleaner-quarantine-test');
+  const quarantineDir = path.join(testDir, 'storage');
+  let originalDataHome: string | undefined;
+
+  setup(() => {
+    originalDataHome = process.env.XDG_DATA_HOME;
+    process.env.XDG_DATA_HOME = path.join(testDir, 'share');
+    fs.mkdirSync(path.join(testDir, 'cache', 'todos'), { recursive: true });
+    fs.writeFileSync(path.join(testDir, 'cache', 'todos', 'a.json'), '{}');
+  });
+
+  teardown(() => {
+    if (originalDataHome === undefined) {
+      delete process.env.XDG_DATA_HOME;
+    } else {
+      process.env.XDG_DATA_HOME = originalDataHome;
+    }
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test('quarantine mode moves items aside and records them', async () => {
+    const target = path.join(testDir, 'cache', 'todos');
+    const result = await deleteMultiple([target], { mode: 'quarantine', quarantineDir });
+
+    assert.strictEqual(result.successCount, 1);
+    assert.ok(!fs.existsSync(target), 'Original should be gone');
+
+    const entries = listQuarantine(quarantineDir);
+    assert.strictEqual(entries.length, 1);
+    assert.strictEqual(entries[0].originalPath, target);
+    assert.strictEqual(entries[0].batchId, result.batchId);
+    assert.ok(fs.existsSync(path.join(entries[0].storedPath, 'a.json')));
+  });
+
+  test('undoing the last batch restores the original files', async () => {
+    const target = path.join(testDir, 'cache', 'todos');
+    await deleteMultiple([target], { mode: 'quarantine', quarantineDir });
+
+    const batch = getLastBatch(quarantineDir);
+    const results = restoreEntries(quarantineDir, batch.map(e => e.id));
+
+    assert.ok(results.every(r => r.success));
+    assert.ok(fs.existsSync(path.join(target, 'a.json')), 'File should be restored');
+    assert.strictEqual(listQuarantine(quarantineDir).length, 0);
+  });
+
+  test('restore refuses to overwrite an existing path', async () => {
+    const target = path.join(testDir, 'cache', 'todos');
+    await deleteMultiple([target], { mode: 'quarantine', quarantineDir });
+    fs.mkdirSync(target);
+
+    const results = restoreEntries(quarantineDir, listQuarantine(quarantineDir).map(e => e.id));
+
+    assert.strictEqual(results[0].success, false);
+    assert.strictEqual(listQuarantine(quarantineDir).length, 1, 'Entry should stay in quarantine');
+  });
+
+  test('purgeExpired removes items older than the retention period', async () => {
+    const target = path.join(testDir, 'cache', 'todos');
+    await deleteMultiple([target], { mode: 'quarantine', quarantineDir });
+    const [entry] = listQuarantine(quarantineDir);
+
+    assert.strictEqual(purgeExpired(quarantineDir, 7).purgedCount, 0);
+
+    const eightDaysLater = Date.now() + 8 * 24 * 60 * 60 * 1000;
+    const purge = purgeExpired(quarantineDir, 7, eightDaysLater);
+
+    assert.strictEqual(purge.purgedCount, 1);
+    assert.ok(!fs.existsSync(entry.storedPath), 'Quarantined copy should be purged');
+    assert.strictEqual(listQuarantine(quarantineDir).length, 0);
+  });
+
+  test('trash mode writes a freedesktop trashinfo file on Linux', async function () {
+    if (process.platform !== 'linux') {
+      this.skip();
+    }
+    const target = path.join(testDir, 'cache', 'todos');
+    await deleteMultiple([target], { mode: 'trash', quarantineDir });
+
+    const [entry] = listQuarantine(quarantineDir);
+    assert.strictEqual(entry.location, 'trash');
+    assert.ok(entry.trashInfoPath && fs.readFileSync(entry.trashInfoPath, 'utf8').includes(`Path=${target}`));
+
+    restoreEntries(quarantineDir, [entry.id]);
+    assert.ok(fs.existsSync(path.join(target, 'a.json')));
+    assert.ok(!fs.existsSync(entry.trashInfoPath!), 'trashinfo should be removed on restore');
+  });
+});
+
+suite('Cleanup Preview Tests', () => {
+  const testDir = path.join(os.tmpdir(), 'ai-cache-cleaner-preview-test');
+
+  setup(() => {
+    fs.mkdirSync(path.join(testDir, 'debug', 'nested'), { recursive: true });
+    fs.writeFileSync(path.join(testDir, 'debug', 'small.txt'), 'x'.repeat(10));
+    fs.writeFileSync(path.join(testDir, 'debug', 'nested', 'big.txt'), 'x'.repeat(1000));
+    const old = new Date('2024-01-01T00:00:00Z');
+    fs.utimesSync(path.join(testDir, 'debug', 'small.txt'), old, old);
+  });
+
+  teardown(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test('previewCleanup reports counts, sizes, dates and largest files', async () => {
+    const target = path.join(testDir, 'debug');
+    const preview = await previewCleanup([target], () => ({ level: 'safe', rule: 'test rule' }));
+
+    assert.strictEqual(preview.items.length, 1);
+    const item = preview.items[0];
+    assert.strictEqual(item.fileCount, 2);
+    assert.strictEqual(item.directoryCount, 1);
+    assert.strictEqual(item.totalBytes, 1010);
+    assert.strictEqual(item.oldestMtime, '2024-01-01T00:00:00.000Z');
+    assert.strictEqual(item.largestFiles[0].path, path.join(target, 'nested', 'big.txt'));
+    assert.strictEqual(item.safetyRule, 'test rule');
+    assert.strictEqual(preview.levelCounts.safe, 1);
+  });
+
+  test('previewCleanup does not modify the disk', async () => {
+    const target = path.join(testDir, 'debug');
+    await previewCleanup([target], () => ({ level: 'safe', rule: 'test rule' }));
+    assert.ok(fs.existsSync(path.join(target, 'nested', 'big.txt')));
+  });
+
+  test('previewCleanup reports missing paths', async () => {
+    const preview = await previewCleanup(['/non/existent'], () => ({ level: 'caution', rule: 'test rule' }));
+    assert.strictEqual(preview.items[0].exists, false);
+    assert.ok(preview.items[0].error);
+  });
+
+  test('getTopLevelPaths folds nested selections', () => {
+    const parent = path.join(testDir, 'debug');
+    const child = path.join(parent, 'nested');
+    assert.deepStrictEqual(getTopLevelPaths([parent, child]), [parent]);
+  });
+});
+
+suite('AI Tool Signatures Tests', () => {
+  test('AI_TOOL_SIGNATURES contains expected tools', () => {
+    const toolNames = AI_TOOL_SIGNATURES.map((s: AIToolSignature) => s.name);
+
+    assert.ok(toolNames.includes('Claude Code'), 'Should include Claude Code');
+    assert.ok(toolNames.includes('Gemini/Antigravity'), 'Should include Gemini');
+    assert.ok(toolNames.includes('Cursor'), 'Should include Cursor');
+    assert.ok(toolNames.includes('GitHub Copilot'), 'Should include GitHub Copilot');
+  });
+
+  test('Each signature has required fields', () => {
+    for (const sig of AI_TOOL_SIGNATURES) {
+      assert.ok(sig.name, `${sig.name} should have name`);
+      assert.ok(sig.patterns.length > 0, `${sig.name} should have patterns`);
+      assert.ok(sig.locations.length > 0, `${sig.name} should have locations`);
+      assert.ok(Array.isArray(sig.safeDirectories), `${sig.name} should have safeDirectories`);
+    }
+  });
+
+  test('detectKnownAITools returns array', async () => {
+    const result = await detectKnownAITools();
+    assert.ok(Array.isArray(result), 'Should return an array');
+  });
+
+  test('searchDirectoriesSync returns array for valid query', () => {
+    const result = searchDirectoriesSync('test');
+    assert.ok(Array.isArray(result), 'Should return an array');
+  });
+
+  test('searchDirectoriesSync returns empty for unlikely query', () => {
+    const result = searchDirectoriesSync('xxxxxxxxxxxunlikelyxxxxxxxxxx');
+    assert.ok(Array.isArray(result), 'Should return an array');
+    assert.strictEqual(result.length, 0, 'Should be empty for unlikely query');
+  });
+
+  test('classifyDirectory reports the matching signature list', () => {
+    const cursor = AI_TOOL_SIGNATURES.find((s: AIToolSignature) => s.name === 'Cursor')!;
+
+    assert.deepStrictEqual(classifyDirectory(cursor, 'logs'), { level: 'safe', list: 'safeDirectories' });
+    assert.deepStrictEqual(classifyDirectory(cursor, 'extensions'), { level: 'danger', list: 'dangerDirectories' });
+    assert.strictEqual(classifyDirectory(cursor, 'unknown'), undefined);
+  });
+
+  test('getSignatureCandidatePaths combines locations and patterns', () => {
+    const continueSignature = AI_TOOL_SIGNATURES.find((s: AIToolSignature) => s.name === 'Continue')!;
+
+    assert.deepStrictEqual(getSignatureCandidatePaths(continueSignature), [path.join(os.homedir(), '.continue')]);
+  });
+});
+
+suite('Custom Signature Tests', () => {
+  teardown(() => {
+    setCustomSignatures([]);
+  });
+
+  test('validateSignature accepts a complete new tool', () => {
+    const result = validateSignature({
+      name: 'My Assistant',
+      patterns: ['.my-assistant'],
+      locations: ['~'],
+      safeDirectories: ['cache']
+    });
+
+    assert.deepStrictEqual(result.errors, []);
+    assert.strictEqual(result.definition?.name, 'My Assistant');
+  });
+
+  test('validateSignature rejects invalid entries', () => {
+    assert.ok(validateSignature('nope').errors.length > 0);
+    assert.ok(validateSignature({ name: '' }).errors.length > 0);
+    assert.ok(validateSignature({ name: 'New Tool', patterns: ['.x'] }).errors.length > 0, 'locations required');
+    assert.ok(validateSignature({ name: 'Cursor', safeDirectories: [1] }).errors.length > 0);
+    assert.ok(validateSignature({ name: 'Cursor', extra: true }).errors.length > 0);
+  });
+
+  test('validateSignature allows partial overrides of built-in tools', () => {
+    const result = validateSignature({ name: 'Cursor', dangerDirectories: ['User'] });
+    assert.deepStrictEqual(result.errors, []);
+  });
+
+  test('detectKnownAITools measures tool folders asynchronously and can be aborted', async () => {
+    const toolDir = path.join(os.tmpdir(), 'ai-cache-cleaner-detect-test');
+    fs.mkdirSync(path.join(toolDir, 'cache'), { recursive: true });
+    fs.writeFileSync(path.join(toolDir, 'cache', 'a.bin'), Buffer.alloc(300));
+    setCustomSignatures([{ name: 'Detect Test', patterns: [path.basename(toolDir)], locations: [os.tmpdir()] }]);
+    try {
+      const detected = (await detectKnownAITools()).find(tool => tool.toolName === 'Detect Test');
+      assert.strictEqual(detected?.size, 300);
+
+      const controller = new AbortController();
+      controller.abort();
+      await assert.rejects(detectKnownAITools({ signal: controller.signal }));
+    } finally {
+      fs.rmSync(toolDir, { recursive: true, force: true });
+    }
+  });
+
+  test('custom signatures are merged with the built-ins', () => {
+    setCustomSignatures([{ name: 'My Assistant', patterns: ['.my-assistant'], locations: ['~'] }]);
+
+    const names = getAllSignatures().map(s => s.name);
+    assert.ok(names.includes('My Assistant'));
+    assert.ok(names.includes('Claude Code'));
+    assert.strictEqual(getAllSignatures().length, AI_TOOL_SIGNATURES.length + 1);
+  });
+
+  test('custom signatures override a built-in classification', () => {
+    assert.strictEqual(getSafetyLevelFromSignature('Cursor', 'User'), 'caution');
+
+    setCustomSignatures([{ name: 'Cursor', dangerDirectories: ['User'] }]);
+
+    assert.strictEqual(getSafetyLevelFromSignature('Cursor', 'User'), 'danger');
+    const cursor = getAllSignatures().find(s => s.name === 'Cursor');
+    assert.ok(cursor && !cursor.cautionDirectories.includes('User'));
+    assert.ok(cursor && cursor.patterns.includes('.cursor'), 'Built-in patterns are kept');
+  });
+
+  test('loadSignatureFile reads wrapped signature lists', () => {
+    const file = path.join(os.tmpdir(), 'ai-cache-cleaner-test.ai-signatures.json');
+    fs.writeFileSync(file, JSON.stringify({
+      signatures: [
+        { name: 'File Tool', patterns: ['.file-tool'], locations: ['~'] },
+        { name: 'Broken' }
+      ]
+    }));
+    try {
+      const result = loadSignatureFile(file);
+      assert.strictEqual(result.definitions.length, 1);
+      assert.strictEqual(result.errors.length, 2);
+    } finally {
+      fs.rmSync(file, { force: true });
+    }
   });
 });
 